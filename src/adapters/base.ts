@@ -3,8 +3,11 @@
  */
 
 import { Browser, Page, BrowserContext } from 'playwright';
-import { AdapterType, AdapterResult, HealthCheckResult, Show, Resource, PublishResult } from '../core/types';
+import { AdapterType, AdapterResult, HealthCheckResult, Show, Resource, ResourceStatus, PublishResult, EpisodeDetails, EpisodeChapter, EpisodePage, StatsRange, ShowStats, EpisodeStats, Comment } from '../core/types';
 import { Logger } from '../services/logger';
+import type { SessionStorage } from '../storage/session';
+import type { TitlePolicy, TitleShortener } from '../core/title-policy';
+import type { PlatformDescriptor } from '../core/platform';
 
 // =====================================================
 // Adapter Configuration
@@ -17,24 +20,38 @@ export interface BaseAdapterConfig {
   logger?: Logger;
   debug?: boolean;
   timeout?: number;
+  sessionStorage?: SessionStorage;  // Source of the browser session cookies
+  onUnauthorized?: () => void;  // Called when the platform rejects the session
+  platform?: PlatformDescriptor;  // Origin, page paths and endpoints (default: DEFAULT_PLATFORM)
 }
 
+/**
+ * Where the Playwright adapter reads show/resource data from
+ * - auto: dashboard JSON responses, falling back to DOM scraping
+ * - network: dashboard JSON responses only
+ * - dom: DOM scraping only
+ */
+export type DataSource = 'auto' | 'network' | 'dom';
+
 /**
  * Playwright-specific configuration
  */
 export interface PlaywrightConfig extends BaseAdapterConfig {
+  dataSource?: DataSource;
   headless?: boolean;
   slowMo?: number;
   userDataDir?: string;
   viewport?: { width: number; height: number };
   userAgent?: string;
+  enableScreenshots?: boolean;  // Screenshots on errors in debug mode (default: true)
+  debugDir?: string;  // Where debug screenshots and HTML go (default: .debug)
 }
 
 /**
  * HTTP-specific configuration
  */
 export interface HttpConfig extends BaseAdapterConfig {
-  baseUrl?: string;
+  baseUrl?: string;  // Overrides the platform origin for API calls
   headers?: Record<string, string>;
   retryAttempts?: number;
   retryDelay?: number;
@@ -102,6 +119,84 @@ export interface IAdapter {
    * Publish multiple resources
    */
   publishResources(resourceIds: string[], options?: PublishOptions): Promise<AdapterResult<PublishResult[]>>;
+
+  /**
+   * Upload a local audio file as a new resource
+   */
+  uploadResource(options: UploadOptions): Promise<AdapterResult<Resource>>;
+
+  /**
+   * Get editable metadata of a published episode
+   */
+  getEpisode(episodeId: string): Promise<AdapterResult<EpisodeDetails>>;
+
+  /**
+   * Update metadata of a published episode
+   */
+  updateEpisode(episodeId: string, patch: EpisodePatch): Promise<AdapterResult<EpisodeDetails>>;
+
+  /**
+   * Withdraw a published episode (it returns to the resource library)
+   */
+  unpublishEpisode(episodeId: string): Promise<AdapterResult<void>>;
+
+  /**
+   * Delete a resource from the resource library
+   */
+  deleteResource(resourceId: string): Promise<AdapterResult<void>>;
+
+  /**
+   * Cancel the scheduled release of a resource
+   */
+  cancelSchedule(resourceId: string): Promise<AdapterResult<void>>;
+
+  /**
+   * List a show's episodes, walking the platform's pagination as needed
+   */
+  listEpisodes(showId: string, options?: EpisodeListOptions): Promise<AdapterResult<EpisodePage>>;
+
+  /**
+   * Get show statistics for a date range
+   */
+  getShowStats(showId: string, range: StatsRange): Promise<AdapterResult<ShowStats>>;
+
+  /**
+   * Get statistics of a single episode
+   */
+  getEpisodeStats(episodeId: string): Promise<AdapterResult<EpisodeStats>>;
+
+  /**
+   * List a show's comments, newest first
+   */
+  listComments(showId: string, options?: CommentListOptions): Promise<AdapterResult<Comment[]>>;
+
+  /**
+   * Reply to a comment as the creator
+   */
+  replyComment(commentId: string, content: string): Promise<AdapterResult<Comment>>;
+
+  /**
+   * Pin or unpin a comment
+   */
+  pinComment(commentId: string, pinned: boolean): Promise<AdapterResult<void>>;
+
+  /**
+   * Delete a comment
+   */
+  deleteComment(commentId: string): Promise<AdapterResult<void>>;
+}
+
+/**
+ * How a supplied description is applied to the existing shownotes
+ */
+export type DescriptionMode = 'replace' | 'append';
+
+/**
+ * Title and shownotes for one resource of a publish batch
+ */
+export interface ResourcePublishOverride {
+  title?: string;  // Replaces the draft's title (still subject to the title policy)
+  description?: string;  // Shownotes in Markdown; replaces the existing ones
 }
 
 /**
@@ -109,11 +204,81 @@ export interface IAdapter {
  */
 export interface PublishOptions {
   scheduledAt?: Date;
+  timeZone?: string;  // Zone scheduledAt was given in (--tz); default: the browser's
   notify?: boolean;
-  description?: string;
+  description?: string;  // Shownotes in Markdown
+  descriptionMode?: DescriptionMode;
   showId?: string;  // Show ID for the resource being published
+  expectedTitles?: Record<string, string>;  // Resource ID -> title seen when the resource was selected
+  titlePolicy?: TitlePolicy;  // Defaults to DEFAULT_TITLE_POLICY
+  titleShortener?: TitleShortener;  // Used by smart mode when the policy enables AI
+  overrides?: Record<string, ResourcePublishOverride>;  // Resource ID -> per-resource title / shownotes
+}
+
+/**
+ * Upload progress stages
+ */
+export type UploadStage = 'uploading' | 'transcoding' | 'saving';
+
+/**
+ * Upload progress update
+ */
+export interface UploadProgress {
+  stage: UploadStage;
+  percent?: number;
+}
+
+/**
+ * Options for uploading a new resource
+ */
+export interface UploadOptions {
+  showId: string;
+  audioPath: string;
+  title: string;
+  description?: string;
+  coverPath?: string;
+  onProgress?: (progress: UploadProgress) => void;
+}
+
+/**
+ * Changes to a published episode; omitted fields are left untouched
+ */
+export interface EpisodePatch {
+  title?: string;
+  shownotes?: string;  // Markdown, without the chapter list
+  coverPath?: string;  // Local image file
+  chapters?: EpisodeChapter[];
+}
+
+/**
+ * Options for listing episodes
+ */
+export interface EpisodeListOptions {
+  status?: ResourceStatus;  // Omit for all statuses
+  page?: number;  // 1-based, default 1
+  pageSize?: number;  // Default 20; Infinity returns everything
+  since?: Date;  // Only episodes created at or after this time
+}
+
+/**
+ * Default episode page size
+ */
+export const DEFAULT_EPISODE_PAGE_SIZE = 20;
+
+/**
+ * Options for listing comments
+ */
+export interface CommentListOptions {
+  since?: Date;  // Only comments created after this time
+  episodeId?: string;  // Only comments on this episode
+  limit?: number;  // Default 100
 }
 
+/**
+ * Default maximum number of comments loaded per show
+ */
+export const DEFAULT_COMMENT_LIMIT = 100;
+
 // =====================================================
 // Abstract Base Adapter
 // =====================================================
@@ -126,6 +291,8 @@ export abstract class BaseAdapter implements IAdapter {
   protected debug: boolean;
   protected timeout: number;
   protected authToken: string | null;
+  protected sessionStorage?: SessionStorage;
+  private onUnauthorized?: () => void;
 
   constructor(config: BaseAdapterConfig = {}) {
     this.logger = config.logger || new Logger({
@@ -136,6 +303,8 @@ export abstract class BaseAdapter implements IAdapter {
     this.debug = config.debug || false;
     this.timeout = config.timeout || 30000;
     this.authToken = null;
+    this.sessionStorage = config.sessionStorage;
+    this.onUnauthorized = config.onUnauthorized;
   }
 
   /**
@@ -173,6 +342,71 @@ export abstract class BaseAdapter implements IAdapter {
    */
   abstract publishResource(resourceId: string, options?: PublishOptions): Promise<AdapterResult<PublishResult>>;
 
+  /**
+   * Upload a local audio file as a new resource (must be implemented by subclasses)
+   */
+  abstract uploadResource(options: UploadOptions): Promise<AdapterResult<Resource>>;
+
+  /**
+   * Get editable metadata of a published episode (must be implemented by subclasses)
+   */
+  abstract getEpisode(episodeId: string): Promise<AdapterResult<EpisodeDetails>>;
+
+  /**
+   * Update metadata of a published episode (must be implemented by subclasses)
+   */
+  abstract updateEpisode(episodeId: string, patch: EpisodePatch): Promise<AdapterResult<EpisodeDetails>>;
+
+  /**
+   * Withdraw a published episode (must be implemented by subclasses)
+   */
+  abstract unpublishEpisode(episodeId: string): Promise<AdapterResult<void>>;
+
+  /**
+   * Delete a resource (must be implemented by subclasses)
+   */
+  abstract deleteResource(resourceId: string): Promise<AdapterResult<void>>;
+
+  /**
+   * Cancel a scheduled release (must be implemented by subclasses)
+   */
+  abstract cancelSchedule(resourceId: string): Promise<AdapterResult<void>>;
+
+  /**
+   * List a show's episodes (must be implemented by subclasses)
+   */
+  abstract listEpisodes(showId: string, options?: EpisodeListOptions): Promise<AdapterResult<EpisodePage>>;
+
+  /**
+   * Get show statistics (must be implemented by subclasses)
+   */
+  abstract getShowStats(showId: string, range: StatsRange): Promise<AdapterResult<ShowStats>>;
+
+  /**
+   * Get episode statistics (must be implemented by subclasses)
+   */
+  abstract getEpisodeStats(episodeId: string): Promise<AdapterResult<EpisodeStats>>;
+
+  /**
+   * List comments (must be implemented by subclasses)
+   */
+  abstract listComments(showId: string, options?: CommentListOptions): Promise<AdapterResult<Comment[]>>;
+
+  /**
+   * Reply to a comment (must be implemented by subclasses)
+   */
+  abstract replyComment(commentId: string, content: string): Promise<AdapterResult<Comment>>;
+
+  /**
+   * Pin or unpin a comment (must be implemented by subclasses)
+   */
+  abstract pinComment(commentId: string, pinned: boolean): Promise<AdapterResult<void>>;
+
+  /**
+   * Delete a comment (must be implemented by subclasses)
+   */
+  abstract deleteComment(commentId: string): Promise<AdapterResult<void>>;
+
   /**
    * Publish multiple resources (default implementation uses sequential calls)
    */
@@ -202,6 +436,69 @@ export abstract class BaseAdapter implements IAdapter {
     };
   }
 
+  /**
+   * Per-resource override for a "showId:resourceId" or plain resource ID
+   */
+  protected getPublishOverride(resourceId: string, options?: PublishOptions): ResourcePublishOverride | undefined {
+    const targetId = resourceId.includes(':') ? resourceId.split(':')[1] : resourceId;
+    return options?.overrides?.[resourceId] ?? options?.overrides?.[targetId];
+  }
+
+  /**
+   * Check an episode against the status and since filters
+   */
+  protected matchesEpisodeFilter(resource: Resource, options: EpisodeListOptions = {}): boolean {
+    if (options.status && resource.status !== options.status) {
+      return false;
+    }
+    return !options.since || Date.parse(resource.createdAt) >= options.since.getTime();
+  }
+
+  /**
+   * Number of matching episodes needed to fill the requested page and detect more
+   */
+  protected episodesNeeded(options: EpisodeListOptions = {}): number {
+    const page = options.page || 1;
+    const pageSize = options.pageSize || DEFAULT_EPISODE_PAGE_SIZE;
+    return page * pageSize + 1;
+  }
+
+  /**
+   * Cut the requested page out of the matching episodes collected so far
+   */
+  protected toEpisodePage(matches: Resource[], options: EpisodeListOptions = {}): EpisodePage {
+    const page = options.page || 1;
+    const pageSize = options.pageSize || DEFAULT_EPISODE_PAGE_SIZE;
+    const start = pageSize === Infinity ? 0 : (page - 1) * pageSize;
+
+    return {
+      items: matches.slice(start, start + pageSize),
+      page,
+      pageSize,
+      hasMore: matches.length > start + pageSize
+    };
+  }
+
+  /**
+   * Check a comment against the since and episode filters
+   */
+  protected matchesCommentFilter(comment: Comment, options: CommentListOptions = {}): boolean {
+    if (options.episodeId && comment.episodeId !== options.episodeId) {
+      return false;
+    }
+    return !options.since || Date.parse(comment.createdAt) > options.since.getTime();
+  }
+
+  /**
+   * Split a "showId:episodeId" reference
+   */
+  protected parseEpisodeRef(episodeId: string): { showId?: string; id: string } {
+    const separator = episodeId.indexOf(':');
+    return separator === -1
+      ? { id: episodeId }
+      : { showId: episodeId.slice(0, separator), id: episodeId.slice(separator + 1) };
+  }
+
   /**
    * Set authentication token
    */
@@ -228,6 +525,18 @@ export abstract class BaseAdapter implements IAdapter {
     return this.authToken !== null && this.authToken.length > 0;
   }
 
+  /**
+   * Report that the platform rejected the current session
+   */
+  protected notifyUnauthorized(reason: string): void {
+    this.logger.warn(`Session rejected by platform: ${reason}`, {
+      module: 'adapter',
+      action: 'notifyUnauthorized',
+      adapter: this.getType()
+    });
+    this.onUnauthorized?.();
+  }
+
   /**
    * Create a successful result
    */
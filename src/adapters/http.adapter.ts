@@ -2,9 +2,80 @@
  * HTTP Adapter - Direct API calls adapter
  */
 
-import { BaseAdapter, HttpConfig, PublishOptions } from './base';
-import { AdapterType, HealthCheckResult, Show, Resource, PublishResult, ResourceStatus, AdapterResult } from '../core/types';
+import { BaseAdapter, HttpConfig, PublishOptions, UploadOptions, EpisodePatch, EpisodeListOptions, CommentListOptions, DEFAULT_COMMENT_LIMIT } from './base';
+import { AdapterType, HealthCheckResult, Show, Resource, PublishResult, PublishOverrides, ResourceStatus, AdapterResult, ErrorCode, EpisodeDetails, EpisodePage, StatsRange, ShowStats, EpisodeStats, Comment } from '../core/types';
+import { PlatformDescriptor, DEFAULT_PLATFORM, apiPath } from '../core/platform';
 import { Logger } from '../services/logger';
+import { AppError } from '../services/error-handler';
+import { normalizeTitle, titleLength, DEFAULT_TITLE_POLICY } from '../core/title-policy';
+import type { PlaywrightStorageState } from '../storage/session';
+import { markdownToHtml, htmlToMarkdown } from '../utils/markdown';
+import { extractChapters, composeShownotes } from '../utils/chapters';
+import { parseResources, parseStatsPoints, parseStatsTotals, parseComments } from './network-parser';
+
+// =====================================================
+// Session Cookies
+// =====================================================
+
+type SessionCookie = PlaywrightStorageState['cookies'][number];
+
+/**
+ * CSRF cookies and the header each one is echoed in
+ */
+const CSRF_COOKIE_HEADERS: Record<string, string> = {
+  'XSRF-TOKEN': 'X-XSRF-TOKEN',
+  'csrfToken': 'X-CSRF-Token',
+  'csrf_token': 'X-CSRF-Token',
+  '_csrf': 'X-CSRF-Token'
+};
+
+/**
+ * localStorage keys the dashboard keeps auth tokens in, and their headers
+ */
+const STORAGE_TOKEN_HEADERS: Record<string, string> = {
+  'x-jike-access-token': 'x-jike-access-token'
+};
+
+/**
+ * Check if a cookie applies to a URL
+ */
+function cookieMatches(cookie: SessionCookie, url: URL): boolean {
+  const domain = cookie.domain.replace(/^\./, '');
+  const domainMatches = url.hostname === domain || url.hostname.endsWith(`.${domain}`);
+  const pathMatches = url.pathname.startsWith(cookie.path || '/');
+  const expired = cookie.expires > 0 && cookie.expires * 1000 <= Date.now();
+  const secureOk = !cookie.secure || url.protocol === 'https:';
+
+  return domainMatches && pathMatches && !expired && secureOk;
+}
+
+// =====================================================
+// Requests
+// =====================================================
+
+/**
+ * Options of a POST / PUT / DELETE request
+ */
+interface WriteRequestOptions {
+  headers?: Record<string, string>;
+  retryAttempts?: number;
+}
+
+/**
+ * Error response from the platform
+ */
+class HttpStatusError extends Error {
+  constructor(public readonly status: number, body: string) {
+    super(`HTTP ${status}: ${body}`);
+    this.name = 'HttpStatusError';
+  }
+}
+
+/**
+ * For requests that are not idempotent: after a timeout or 5xx the change
+ * may already have been applied, so sending again could duplicate it
+ */
+const SEND_ONCE: WriteRequestOptions = { retryAttempts: 1 };
 
 // =====================================================
 // HTTP Adapter Class
@@ -15,19 +86,80 @@ import { Logger } from '../services/logger';
  */
 export class HttpAdapter extends BaseAdapter {
   private httpConfig: HttpConfig;
-  private readonly DEFAULT_BASE_URL = 'https://podcaster.xiaoyuzhoufm.com';
+  private platform: PlatformDescriptor;
   private readonly DEFAULT_RETRY_ATTEMPTS = 3;
   private readonly DEFAULT_RETRY_DELAY = 1000;
+  private readonly EPISODE_API_PAGE_SIZE = 50;
+  private readonly MAX_EPISODE_PAGES = 100;
+  private readonly COMMENT_API_PAGE_SIZE = 50;
+  private readonly MAX_COMMENT_PAGES = 100;
+  private cookies: SessionCookie[] = [];
+  private sessionHeaders: Record<string, string> = {};
+  private unsubscribe?: () => void;
 
   constructor(config: HttpConfig = {}) {
     super(config);
+    this.platform = config.platform ?? DEFAULT_PLATFORM;
     this.httpConfig = {
-      baseUrl: config.baseUrl || this.DEFAULT_BASE_URL,
+      baseUrl: config.baseUrl || this.platform.origin,
       headers: config.headers || {},
       retryAttempts: config.retryAttempts || this.DEFAULT_RETRY_ATTEMPTS,
       retryDelay: config.retryDelay || this.DEFAULT_RETRY_DELAY,
       ...config
     };
+
+    // Follow the browser session so cookies refreshed by Playwright are reused
+    if (this.sessionStorage) {
+      try {
+        this.applyBrowserState(this.sessionStorage.loadBrowserState());
+      } catch (error) {
+        this.logger.warn('Could not load browser session for HTTP adapter', {
+          module: 'http-adapter',
+          action: 'constructor',
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+      this.unsubscribe = this.sessionStorage.onBrowserStateChange(state => this.applyBrowserState(state));
+    }
+  }
+
+  /**
+   * Derive the cookie jar and session headers from a browser state
+   */
+  applyBrowserState(state: PlaywrightStorageState | null): void {
+    this.cookies = state ? [...state.cookies] : [];
+    this.sessionHeaders = {};
+
+    for (const cookie of this.cookies) {
+      const header = CSRF_COOKIE_HEADERS[cookie.name];
+      if (header) {
+        this.sessionHeaders[header] = decodeURIComponent(cookie.value);
+      }
+    }
+
+    const baseOrigin = new URL(this.httpConfig.baseUrl || this.platform.origin).origin;
+    const origin = state?.origins.find(o => o.origin === baseOrigin);
+
+    for (const item of origin?.localStorage || []) {
+      const header = STORAGE_TOKEN_HEADERS[item.name];
+      if (header) {
+        this.sessionHeaders[header] = item.value;
+      }
+    }
+
+    this.logger.debug('HTTP session updated from browser state', {
+      module: 'http-adapter',
+      action: 'applyBrowserState',
+      cookieCount: this.cookies.length,
+      headers: Object.keys(this.sessionHeaders)
+    });
+  }
+
+  /**
+   * Check if authenticated (token or browser session cookies)
+   */
+  isAuthenticated(): boolean {
+    return super.isAuthenticated() || this.cookies.some(cookie => cookie.expires <= 0 || cookie.expires * 1000 > Date.now());
   }
 
   /**
@@ -55,7 +187,7 @@ export class HttpAdapter extends BaseAdapter {
 
     try {
       // Simple health check - try to fetch a public endpoint
-      const response = await this.fetchWithTimeout('https://podcaster.xiaoyuzhoufm.com', {
+      const response = await this.fetchWithTimeout(this.buildUrl('/'), {
         method: 'HEAD'
       });
 
@@ -79,6 +211,9 @@ export class HttpAdapter extends BaseAdapter {
    * Clean up resources
    */
   async dispose(): Promise<void> {
+    this.unsubscribe?.();
+    this.unsubscribe = undefined;
+
     this.logger.info('HTTP adapter disposed', {
       module: 'http-adapter',
       action: 'dispose'
@@ -93,17 +228,18 @@ export class HttpAdapter extends BaseAdapter {
    * Build full URL
    */
   private buildUrl(path: string): string {
-    const baseUrl = this.httpConfig.baseUrl || this.DEFAULT_BASE_URL;
+    const baseUrl = this.httpConfig.baseUrl || this.platform.origin;
     return `${baseUrl}${path.startsWith('/') ? path : '/' + path}`;
   }
 
   /**
    * Build request headers
    */
-  private buildHeaders(additionalHeaders?: Record<string, string>): Record<string, string> {
+  private buildHeaders(url: string, additionalHeaders?: Record<string, string>): Record<string, string> {
     const headers: Record<string, string> = {
       'Content-Type': 'application/json',
       'Accept': 'application/json',
+      ...this.sessionHeaders,
       ...this.httpConfig.headers,
       ...additionalHeaders
     };
@@ -113,9 +249,60 @@ export class HttpAdapter extends BaseAdapter {
       headers['Authorization'] = `Bearer ${this.authToken}`;
     }
 
+    // Add browser session cookies
+    const target = new URL(url);
+    const cookieHeader = this.cookies
+      .filter(cookie => cookieMatches(cookie, target))
+      .map(cookie => `${cookie.name}=${cookie.value}`)
+      .join('; ');
+
+    if (cookieHeader) {
+      headers['Cookie'] = cookieHeader;
+    }
+
     return headers;
   }
 
+  /**
+   * Update the in-memory cookie jar from Set-Cookie response headers
+   */
+  private storeResponseCookies(url: string, response: Response): void {
+    const setCookies = response.headers.getSetCookie?.() || [];
+    const hostname = new URL(url).hostname;
+
+    for (const header of setCookies) {
+      const [pair] = header.split(';');
+      const separator = pair.indexOf('=');
+      if (separator <= 0) {
+        continue;
+      }
+
+      const name = pair.slice(0, separator).trim();
+      const value = pair.slice(separator + 1).trim();
+      const existing = this.cookies.find(cookie => cookie.name === name);
+
+      if (existing) {
+        existing.value = value;
+      } else {
+        this.cookies.push({
+          name,
+          value,
+          domain: hostname,
+          path: '/',
+          expires: -1,
+          httpOnly: /;\s*httponly/i.test(header),
+          secure: /;\s*secure/i.test(header),
+          sameSite: 'Lax'
+        });
+      }
+
+      const csrfHeader = CSRF_COOKIE_HEADERS[name];
+      if (csrfHeader) {
+        this.sessionHeaders[csrfHeader] = decodeURIComponent(value);
+      }
+    }
+  }
+
   /**
    * Fetch with timeout
    */
@@ -168,7 +355,7 @@ export class HttpAdapter extends BaseAdapter {
       try {
         const response = await this.fetchWithTimeout(url, {
           method,
-          headers: this.buildHeaders(headers),
+          headers: this.buildHeaders(url, headers),
           body: data ? JSON.stringify(data) : undefined,
           timeout: this.timeout
         });
@@ -177,13 +364,15 @@ export class HttpAdapter extends BaseAdapter {
 
         // Log response
         this.logger.apiResponse(response.status, duration);
+        this.storeResponseCookies(url, response);
 
         // Handle error responses
         if (!response.ok) {
-          // Handle 401 - token expired
+          // Handle 401 - session expired
           if (response.status === 401) {
             this.authToken = null;
-            throw new Error('Authentication failed - token may be expired');
+            this.notifyUnauthorized(`HTTP 401 from ${path}`);
+            throw new AppError(ErrorCode.TOKEN_EXPIRED, 'Authentication failed - session may be expired');
           }
 
           // Handle rate limiting
@@ -202,7 +391,7 @@ export class HttpAdapter extends BaseAdapter {
 
           // Other errors
           const errorText = await response.text().catch(() => 'Unknown error');
-          throw new Error(`HTTP ${response.status}: ${errorText}`);
+          throw new HttpStatusError(response.status, errorText);
         }
 
         // Parse response
@@ -212,9 +401,9 @@ export class HttpAdapter extends BaseAdapter {
       } catch (error) {
         lastError = error as Error;
 
-        // Don't retry on certain errors
-        if (error instanceof TypeError && error.message.includes('abort')) {
-          throw new Error('Request timeout');
+        // Don't retry on certain errors (fetch rejects with an AbortError on timeout)
+        if (error instanceof Error && error.name === 'AbortError') {
+          throw new AppError(ErrorCode.REQUEST_TIMEOUT, `Request timeout: ${method} ${path}`);
         }
 
         if (error instanceof Error && error.message.includes('Authentication failed')) {
@@ -246,21 +435,21 @@ export class HttpAdapter extends BaseAdapter {
   /**
    * POST request
    */
-  private async post<T>(path: string, data?: any, options?: { headers?: Record<string, string> }): Promise<T> {
+  private async post<T>(path: string, data?: any, options?: WriteRequestOptions): Promise<T> {
     return this.request<T>('POST', path, data, options);
   }
 
   /**
    * PUT request
    */
-  private async put<T>(path: string, data?: any, options?: { headers?: Record<string, string> }): Promise<T> {
+  private async put<T>(path: string, data?: any, options?: WriteRequestOptions): Promise<T> {
     return this.request<T>('PUT', path, data, options);
   }
 
   /**
    * DELETE request
    */
-  private async delete<T>(path: string, options?: { headers?: Record<string, string> }): Promise<T> {
+  private async delete<T>(path: string, options?: WriteRequestOptions): Promise<T> {
     return this.request<T>('DELETE', path, undefined, options);
   }
 
@@ -287,7 +476,7 @@ export class HttpAdapter extends BaseAdapter {
 
       // Note: The actual API endpoint and response format may differ
       // This is a placeholder implementation
-      const response = await this.get<{ data?: Show[]; items?: Show[] }>('/dashboard/podcasts');
+      const response = await this.get<{ data?: Show[]; items?: Show[] }>(apiPath(this.platform, 'shows'));
 
       // Handle different response formats
       const shows = response.data || response.items || [];
@@ -317,7 +506,7 @@ export class HttpAdapter extends BaseAdapter {
 
       // Note: The actual API endpoint and response format may differ
       const response = await this.get<{ data?: Resource[]; items?: Resource[]; episodes?: Resource[] }>(
-        `/dashboard/podcasts/${showId}/episodes`
+        apiPath(this.platform, 'episodes', { showId })
       );
 
       // Handle different response formats
@@ -336,6 +525,202 @@ export class HttpAdapter extends BaseAdapter {
     }
   }
 
+  /**
+   * List a show's episodes, requesting API pages until enough match
+   */
+  async listEpisodes(showId: string, options: EpisodeListOptions = {}): Promise<AdapterResult<EpisodePage>> {
+    try {
+      const needed = this.episodesNeeded(options);
+      const matches: Resource[] = [];
+      const seen = new Set<string>();
+
+      for (let page = 1; page <= this.MAX_EPISODE_PAGES && matches.length < needed; page++) {
+        // Note: The actual API endpoint and query parameters may differ
+        const response = await this.get<unknown>(
+          `${apiPath(this.platform, 'episodes', { showId })}?page=${page}&pageSize=${this.EPISODE_API_PAGE_SIZE}`
+        );
+        const items = parseResources(response, showId).filter(item => !seen.has(item.id));
+
+        if (items.length === 0) {
+          break;
+        }
+
+        items.forEach(item => seen.add(item.id));
+        matches.push(...items.filter(item => this.matchesEpisodeFilter(item, options)));
+
+        // Episodes come newest first, so older pages cannot match `since`
+        if (options.since && items.every(item => Date.parse(item.createdAt) < options.since!.getTime())) {
+          break;
+        }
+      }
+
+      this.logger.info(`Listed ${matches.length} matching episodes via HTTP API`, {
+        module: 'http-adapter',
+        action: 'listEpisodes',
+        showId
+      });
+
+      return this.success(this.toEpisodePage(matches, options));
+
+    } catch (error) {
+      return this.handleException(error, 'listEpisodes');
+    }
+  }
+
+  /**
+   * Get show statistics for a date range
+   */
+  async getShowStats(showId: string, range: StatsRange): Promise<AdapterResult<ShowStats>> {
+    try {
+      // Note: The actual API endpoint and query parameters may differ
+      const response = await this.get<unknown>(
+        `${apiPath(this.platform, 'showStats', { showId })}?from=${range.from}&to=${range.to}`
+      );
+
+      return this.success({
+        showId,
+        range,
+        totals: parseStatsTotals(response),
+        daily: parseStatsPoints(response).filter(point => point.date >= range.from && point.date <= range.to)
+      });
+
+    } catch (error) {
+      return this.handleException(error, 'getShowStats');
+    }
+  }
+
+  /**
+   * Get statistics of a single episode
+   */
+  async getEpisodeStats(episodeId: string): Promise<AdapterResult<EpisodeStats>> {
+    try {
+      const { showId, id } = this.parseEpisodeRef(episodeId);
+
+      // Note: The actual API endpoint may differ
+      const response = await this.get<unknown>(apiPath(this.platform, 'episodeStats', { episodeId: id }));
+
+      return this.success({
+        episodeId: id,
+        showId,
+        totals: parseStatsTotals(response),
+        daily: parseStatsPoints(response)
+      });
+
+    } catch (error) {
+      return this.handleException(error, 'getEpisodeStats');
+    }
+  }
+
+  /**
+   * List a show's comments, requesting API pages until the limit or `since` is reached
+   */
+  async listComments(showId: string, options: CommentListOptions = {}): Promise<AdapterResult<Comment[]>> {
+    try {
+      const limit = options.limit ?? DEFAULT_COMMENT_LIMIT;
+      const comments: Comment[] = [];
+      const seen = new Set<string>();
+
+      for (let page = 1; page <= this.MAX_COMMENT_PAGES && comments.length < limit; page++) {
+        // Note: The actual API endpoint and query parameters may differ
+        const episodeQuery = options.episodeId ? `&eid=${options.episodeId}` : '';
+        const response = await this.get<unknown>(
+          `${apiPath(this.platform, 'comments', { showId })}?page=${page}&pageSize=${this.COMMENT_API_PAGE_SIZE}${episodeQuery}`
+        );
+        const items = parseComments(response, showId).filter(item => !seen.has(item.id));
+
+        if (items.length === 0) {
+          break;
+        }
+
+        items.forEach(item => seen.add(item.id));
+        comments.push(...items.filter(item => this.matchesCommentFilter(item, options)));
+
+        // Comments come newest first, so older pages cannot match `since`
+        if (options.since && items.some(item => Date.parse(item.createdAt) <= options.since!.getTime())) {
+          break;
+        }
+      }
+
+      return this.success(comments.slice(0, limit));
+
+    } catch (error) {
+      return this.handleException(error, 'listComments');
+    }
+  }
+
+  /**
+   * Reply to a comment
+   */
+  async replyComment(commentId: string, content: string): Promise<AdapterResult<Comment>> {
+    try {
+      const { showId, id } = this.parseEpisodeRef(commentId);
+
+      // Note: The actual API endpoint and request format may differ
+      const response = await this.post<unknown>(apiPath(this.platform, 'commentReply', { commentId: id }), { text: content }, SEND_ONCE);
+      const [reply] = parseComments(response, showId);
+
+      this.logger.info(`Replied to comment via HTTP API: ${id}`, {
+        module: 'http-adapter',
+        action: 'replyComment'
+      });
+
+      return this.success(reply ?? {
+        id: '',
+        showId,
+        author: '',
+        content,
+        createdAt: new Date().toISOString(),
+        pinned: false,
+        replied: false
+      });
+
+    } catch (error) {
+      const result = this.handleException<Comment>(error, 'replyComment');
+      return { ...result, errorCode: ErrorCode.UPDATE_FAILED };
+    }
+  }
+
+  /**
+   * Pin or unpin a comment
+   */
+  async pinComment(commentId: string, pinned: boolean): Promise<AdapterResult<void>> {
+    try {
+      const { id } = this.parseEpisodeRef(commentId);
+
+      // Note: The actual API endpoint and request format may differ
+      await this.post(apiPath(this.platform, pinned ? 'commentPin' : 'commentUnpin', { commentId: id }));
+
+      return this.success(undefined);
+
+    } catch (error) {
+      const result = this.handleException<void>(error, 'pinComment');
+      return { ...result, errorCode: ErrorCode.UPDATE_FAILED };
+    }
+  }
+
+  /**
+   * Delete a comment
+   */
+  async deleteComment(commentId: string): Promise<AdapterResult<void>> {
+    try {
+      const { id } = this.parseEpisodeRef(commentId);
+
+      // Note: The actual API endpoint and request format may differ
+      await this.delete(apiPath(this.platform, 'comment', { commentId: id }), SEND_ONCE);
+
+      this.logger.info(`Comment deleted via HTTP API: ${id}`, {
+        module: 'http-adapter',
+        action: 'deleteComment'
+      });
+
+      return this.success(undefined);
+
+    } catch (error) {
+      const result = this.handleException<void>(error, 'deleteComment');
+      return { ...result, errorCode: ErrorCode.UPDATE_FAILED };
+    }
+  }
+
   /**
    * Publish a resource
    */
@@ -347,13 +732,62 @@ export class HttpAdapter extends BaseAdapter {
         resourceId
       });
 
+      const override = this.getPublishOverride(resourceId, options);
+      const description = override?.description ?? options?.description;
+      const appliedOverrides: PublishOverrides = {};
+
+      // Same title policy as the publish page, overrides included; the draft's
+      // title is only fetched when it was not seen when the resource was selected
+      const { id } = this.parseEpisodeRef(resourceId);
+      const currentTitle = override?.title
+        || options?.expectedTitles?.[id]
+        || (await this.getEpisode(resourceId)).data?.title;
+
+      if (!currentTitle) {
+        return this.failure(`Could not determine title of ${resourceId}, refusing to publish unchecked`, ErrorCode.VALIDATION_ERROR);
+      }
+
+      let title: string | undefined;
+
+      const normalized = await normalizeTitle(
+        currentTitle,
+        options?.titlePolicy ?? DEFAULT_TITLE_POLICY,
+        options?.titleShortener
+      );
+
+      if (!normalized.accepted) {
+        return this.failure(`Title rejected by policy: ${normalized.reason}`, ErrorCode.VALIDATION_ERROR);
+      }
+
+      if (override?.title || normalized.changed) {
+        title = normalized.title;
+      }
+      if (override?.title) {
+        appliedOverrides.title = normalized.title;
+      }
+
+      if (normalized.changed) {
+        appliedOverrides.titleStrategy = normalized.strategy;
+
+        this.logger.info(`Title normalized (${normalized.strategy}): ${normalized.title}`, {
+          module: 'http-adapter',
+          action: 'publishResource',
+          originalLength: titleLength(normalized.original),
+          newLength: titleLength(normalized.title)
+        });
+      }
+
       // Note: The actual API endpoint and request format may differ
       const response = await this.post<{ success: boolean; url?: string }>(
-        `/dashboard/episodes/${resourceId}/publish`,
+        apiPath(this.platform, 'publish', { episodeId: id }),
         {
+          title,
           scheduledAt: options?.scheduledAt?.toISOString(),
-          notify: options?.notify ?? true
-        }
+          notify: options?.notify ?? true,
+          description: description ? markdownToHtml(description) : undefined,
+          descriptionMode: override?.description !== undefined ? 'replace' : description ? options?.descriptionMode ?? 'replace' : undefined
+        },
+        SEND_ONCE
       );
 
       this.logger.info(`Resource published via HTTP API: ${resourceId}`, {
@@ -365,7 +799,8 @@ export class HttpAdapter extends BaseAdapter {
       return this.success({
         success: response.success,
         resourceId,
-        publishedUrl: response.url
+        publishedUrl: response.url,
+        appliedOverrides: Object.keys(appliedOverrides).length > 0 ? appliedOverrides : undefined
       });
 
     } catch (error) {
@@ -373,6 +808,185 @@ export class HttpAdapter extends BaseAdapter {
     }
   }
 
+  /**
+   * Upload a resource
+   *
+   * The upload flow (signed storage upload plus transcoding) is only driven
+   * through the browser, so this fails and lets the strategy engine fall
+   * back to the Playwright adapter.
+   */
+  async uploadResource(options: UploadOptions): Promise<AdapterResult<Resource>> {
+    this.logger.debug(`Upload not supported via HTTP API: ${options.audioPath}`, {
+      module: 'http-adapter',
+      action: 'uploadResource'
+    });
+    return this.failure('Upload is not supported by the HTTP adapter', ErrorCode.UPLOAD_FAILED);
+  }
+
+  /**
+   * Get editable metadata of a published episode
+   */
+  async getEpisode(episodeId: string): Promise<AdapterResult<EpisodeDetails>> {
+    try {
+      const { showId, id } = this.parseEpisodeRef(episodeId);
+
+      // Note: The actual API endpoint and response format may differ
+      const response = await this.get<unknown>(apiPath(this.platform, 'episode', { episodeId: id }));
+      const [resource] = parseResources(response).filter(item => item.id === id);
+
+      if (!resource) {
+        return this.failure(`Episode not found in API response: ${id}`, ErrorCode.INVALID_RESPONSE);
+      }
+
+      const { body, chapters } = extractChapters(htmlToMarkdown(resource.description || ''));
+
+      return this.success({ ...resource, showId, shownotes: body, chapters });
+
+    } catch (error) {
+      return this.handleException(error, 'getEpisode');
+    }
+  }
+
+  /**
+   * Update metadata of a published episode
+   *
+   * Cover changes need the browser upload flow, so they fail here and let
+   * the strategy engine fall back to the Playwright adapter.
+   */
+  async updateEpisode(episodeId: string, patch: EpisodePatch): Promise<AdapterResult<EpisodeDetails>> {
+    try {
+      const { id } = this.parseEpisodeRef(episodeId);
+
+      if (patch.coverPath) {
+        return this.failure('Cover upload is not supported by the HTTP adapter', ErrorCode.UPDATE_FAILED);
+      }
+
+      this.logger.debug(`Updating episode: ${id} via HTTP API`, {
+        module: 'http-adapter',
+        action: 'updateEpisode',
+        fields: Object.keys(patch)
+      });
+
+      // Chapters live in the shownotes, so either change rewrites the whole text
+      let shownotes: string | undefined;
+      if (patch.shownotes !== undefined || patch.chapters !== undefined) {
+        let current: EpisodeDetails | undefined;
+        if (patch.shownotes === undefined || patch.chapters === undefined) {
+          const result = await this.getEpisode(episodeId);
+          if (!result.success || !result.data) {
+            return this.failure(result.error || `Episode not found: ${id}`, ErrorCode.UPDATE_FAILED);
+          }
+          current = result.data;
+        }
+        shownotes = markdownToHtml(composeShownotes(
+          patch.shownotes ?? current!.shownotes,
+          patch.chapters ?? current!.chapters
+        ));
+      }
+
+      // Note: The actual API endpoint and request format may differ
+      await this.put(apiPath(this.platform, 'episode', { episodeId: id }), {
+        title: patch.title,
+        shownotes
+      });
+
+      this.logger.info(`Episode updated via HTTP API: ${id}`, {
+        module: 'http-adapter',
+        action: 'updateEpisode'
+      });
+
+      return this.getEpisode(episodeId);
+
+    } catch (error) {
+      const result = this.handleException<EpisodeDetails>(error, 'updateEpisode');
+      return { ...result, errorCode: ErrorCode.UPDATE_FAILED };
+    }
+  }
+
+  /**
+   * Withdraw a published episode
+   */
+  async unpublishEpisode(episodeId: string): Promise<AdapterResult<void>> {
+    try {
+      const { id } = this.parseEpisodeRef(episodeId);
+
+      // Note: The actual API endpoint and request format may differ
+      await this.post(apiPath(this.platform, 'unpublish', { episodeId: id }), undefined, SEND_ONCE);
+
+      this.logger.info(`Episode unpublished via HTTP API: ${id}`, {
+        module: 'http-adapter',
+        action: 'unpublishEpisode'
+      });
+
+      return this.success(undefined);
+
+    } catch (error) {
+      return this.handleException(error, 'unpublishEpisode');
+    }
+  }
+
+  /**
+   * Delete a resource from the resource library
+   */
+  async deleteResource(resourceId: string): Promise<AdapterResult<void>> {
+    try {
+      const { id } = this.parseEpisodeRef(resourceId);
+
+      // Note: The actual API endpoint and request format may differ
+      await this.delete(apiPath(this.platform, 'episode', { episodeId: id }), SEND_ONCE);
+
+      this.logger.info(`Resource deleted via HTTP API: ${id}`, {
+        module: 'http-adapter',
+        action: 'deleteResource'
+      });
+
+      return this.success(undefined);
+
+    } catch (error) {
+      return this.handleException(error, 'deleteResource');
+    }
+  }
+
+  /**
+   * Cancel the scheduled release of a resource
+   */
+  async cancelSchedule(resourceId: string): Promise<AdapterResult<void>> {
+    try {
+      const { id } = this.parseEpisodeRef(resourceId);
+
+      // Note: The actual API endpoint and request format may differ
+      await this.post(apiPath(this.platform, 'cancelSchedule', { episodeId: id }), undefined, SEND_ONCE);
+
+      this.logger.info(`Scheduled release cancelled via HTTP API: ${id}`, {
+        module: 'http-adapter',
+        action: 'cancelSchedule'
+      });
+
+      return this.success(undefined);
+
+    } catch (error) {
+      return this.handleException(error, 'cancelSchedule');
+    }
+  }
+
+  /**
+   * Check that every resource has a known title the policy keeps unchanged
+   */
+  private async titlesPassPolicy(resourceIds: string[], options?: PublishOptions): Promise<boolean> {
+    for (const resourceId of resourceIds) {
+      const title = options?.expectedTitles?.[this.parseEpisodeRef(resourceId).id];
+      if (!title) {
+        return false;
+      }
+
+      const normalized = await normalizeTitle(title, options?.titlePolicy ?? DEFAULT_TITLE_POLICY, options?.titleShortener);
+      if (!normalized.accepted || normalized.changed) {
+        return false;
+      }
+    }
+    return true;
+  }
+
   /**
    * Publish multiple resources (optimized for batch operations)
    */
@@ -384,28 +998,44 @@ export class HttpAdapter extends BaseAdapter {
         count: resourceIds.length
       });
 
+      // The batch endpoint takes one description for all resources and cannot
+      // retitle them, so publish one by one unless every title can stay
+      const hasOverrides = options?.overrides && Object.keys(options.overrides).length > 0;
+      if (hasOverrides || !await this.titlesPassPolicy(resourceIds, options)) {
+        return super.publishResources(resourceIds, options);
+      }
+
       // Try batch publish endpoint first
       try {
         const response = await this.post<{ results: Array<{ id: string; success: boolean; url?: string }> }>(
-          '/dashboard/episodes/batch-publish',
+          apiPath(this.platform, 'batchPublish'),
           {
-            episodeIds: resourceIds,
+            episodeIds: resourceIds.map(resourceId => this.parseEpisodeRef(resourceId).id),
             scheduledAt: options?.scheduledAt?.toISOString(),
-            notify: options?.notify ?? true
-          }
+            notify: options?.notify ?? true,
+            description: options?.description ? markdownToHtml(options.description) : undefined,
+            descriptionMode: options?.description ? options.descriptionMode ?? 'replace' : undefined
+          },
+          SEND_ONCE
         );
 
+        // Results carry plain episode IDs; report them under the caller's references
         const results = response.results.map(r => ({
           success: r.success,
-          resourceId: r.id,
+          resourceId: resourceIds.find(resourceId => this.parseEpisodeRef(resourceId).id === r.id) ?? r.id,
           publishedUrl: r.url
         }));
 
         return this.success(results);
 
       } catch (batchError) {
-        // Fall back to individual publishes if batch endpoint fails
-        this.logger.warn('Batch publish failed, falling back to individual publishes', {
+        // Only a missing endpoint is safe to work around: after any other
+        // failure some of the resources may already have been published
+        if (!(batchError instanceof HttpStatusError) || (batchError.status !== 404 && batchError.status !== 405)) {
+          throw batchError;
+        }
+
+        this.logger.warn('Batch publish endpoint not available, falling back to individual publishes', {
           module: 'http-adapter',
           action: 'publishResources'
         });
@@ -2,9 +2,10 @@
  * Adapters module exports
  */
 
-export { BaseAdapter, IAdapter, type PublishOptions, type BaseAdapterConfig, type PlaywrightConfig, type HttpConfig } from './base';
+export { BaseAdapter, IAdapter, type PublishOptions, type BaseAdapterConfig, type PlaywrightConfig, type HttpConfig, type DataSource, type DescriptionMode, type UploadOptions, type UploadProgress, type UploadStage } from './base';
 export { PlaywrightAdapter } from './playwright.adapter';
 export { HttpAdapter } from './http.adapter';
+export { parseShows, parseResources, parseComments } from './network-parser';
 
 // Re-export AdapterResult for convenience
 export type { AdapterResult } from '../core/types';
@@ -0,0 +1,383 @@
+/**
+ * Network parser - Map the creator dashboard's JSON responses to platform types
+ *
+ * The dashboard loads its data from JSON XHR calls. The response shapes are
+ * not documented, so the parsers walk the payload looking for arrays of
+ * objects that look like podcasts or episodes and map the known field names.
+ */
+
+import { Show, Resource, ResourceStatus, StatsPoint, StatsTotals, Comment } from '../core/types';
+
+// =====================================================
+// Helpers
+// =====================================================
+
+type JsonObject = Record<string, unknown>;
+
+/**
+ * Maximum nesting depth searched for item arrays
+ */
+const MAX_DEPTH = 6;
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Return the first string field among the given keys
+ */
+function pickString(item: JsonObject, keys: string[]): string | undefined {
+  for (const key of keys) {
+    const value = item[key];
+    if (typeof value === 'string' && value.length > 0) {
+      return value;
+    }
+    if (typeof value === 'number') {
+      return String(value);
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Return the first numeric field among the given keys
+ */
+function pickNumber(item: JsonObject, keys: string[]): number | undefined {
+  for (const key of keys) {
+    const value = item[key];
+    if (typeof value === 'number' && Number.isFinite(value)) {
+      return value;
+    }
+    if (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value))) {
+      return Number(value);
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Read a URL from a string field or a nested `{ url }` / `{ picUrl }` object
+ */
+function pickUrl(item: JsonObject, keys: string[]): string | undefined {
+  for (const key of keys) {
+    const value = item[key];
+    if (typeof value === 'string' && value.length > 0) {
+      return value;
+    }
+    if (isObject(value)) {
+      const nested = pickString(value, ['url', 'picUrl', 'largePicUrl', 'middlePicUrl'])
+        ?? (isObject(value.source) ? pickString(value.source, ['url']) : undefined);
+      if (nested) {
+        return nested;
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Normalize a timestamp field (ISO string, seconds or milliseconds)
+ */
+function pickDate(item: JsonObject, keys: string[]): string | undefined {
+  for (const key of keys) {
+    const value = item[key];
+    if (typeof value === 'string' && !isNaN(Date.parse(value))) {
+      return new Date(value).toISOString();
+    }
+    if (typeof value === 'number' && value > 0) {
+      return new Date(value < 1e12 ? value * 1000 : value).toISOString();
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Collect every array of objects in the payload that satisfies the predicate
+ */
+function collectItems(payload: unknown, predicate: (item: JsonObject) => boolean, depth: number = 0): JsonObject[] {
+  if (depth > MAX_DEPTH) {
+    return [];
+  }
+
+  if (Array.isArray(payload)) {
+    const objects = payload.filter(isObject);
+    if (objects.length > 0 && objects.every(predicate)) {
+      return objects;
+    }
+    return objects.flatMap(item => collectItems(item, predicate, depth + 1));
+  }
+
+  if (isObject(payload)) {
+    return Object.values(payload).flatMap(value => collectItems(value, predicate, depth + 1));
+  }
+
+  return [];
+}
+
+// =====================================================
+// Show Parsing
+// =====================================================
+
+const SHOW_ID_KEYS = ['pid', 'podcastId'];
+
+function looksLikeShow(item: JsonObject): boolean {
+  return pickString(item, SHOW_ID_KEYS) !== undefined
+    && typeof item.title === 'string'
+    && pickString(item, ['eid', 'episodeId']) === undefined;
+}
+
+/**
+ * Extract shows from a dashboard JSON payload
+ */
+export function parseShows(payload: unknown): Show[] {
+  const now = new Date().toISOString();
+
+  return collectItems(payload, looksLikeShow).map(item => ({
+    id: pickString(item, SHOW_ID_KEYS)!,
+    title: (item.title as string).trim(),
+    description: pickString(item, ['description', 'brief', 'summary'])?.trim() || '',
+    coverUrl: pickUrl(item, ['image', 'cover', 'coverUrl', 'picUrl']),
+    episodeCount: pickNumber(item, ['episodeCount', 'episodesCount', 'episodeTotal']) ?? 0,
+    createdAt: pickDate(item, ['createdAt', 'createTime', 'created_at']) || now,
+    updatedAt: pickDate(item, ['updatedAt', 'updateTime', 'latestEpisodePubDate', 'updated_at']) || now
+  }));
+}
+
+// =====================================================
+// Resource Parsing
+// =====================================================
+
+const RESOURCE_ID_KEYS = ['eid', 'episodeId', 'resourceId', 'draftId'];
+
+function looksLikeResource(item: JsonObject): boolean {
+  return pickString(item, RESOURCE_ID_KEYS) !== undefined && typeof item.title === 'string';
+}
+
+/**
+ * Map platform status fields to ResourceStatus
+ *
+ * Items without an explicit status are treated as published once they
+ * carry a publish date, and as drafts otherwise.
+ */
+function parseStatus(item: JsonObject): ResourceStatus {
+  const status = pickString(item, ['status', 'state', 'publishStatus'])?.toLowerCase() || '';
+
+  if (status.includes('draft') || status.includes('pending') || status.includes('unpublish')) {
+    return ResourceStatus.DRAFT;
+  }
+  if (status.includes('schedul') || status.includes('timing')) {
+    return ResourceStatus.SCHEDULED;
+  }
+  if (status.includes('publish') || status === 'normal' || status === 'online') {
+    return ResourceStatus.PUBLISHED;
+  }
+
+  const scheduledAt = pickDate(item, ['scheduledAt', 'scheduledTime', 'timingPublishTime']);
+  if (scheduledAt && Date.parse(scheduledAt) > Date.now()) {
+    return ResourceStatus.SCHEDULED;
+  }
+
+  return pickDate(item, ['pubDate', 'publishedAt', 'publishTime']) ? ResourceStatus.PUBLISHED : ResourceStatus.DRAFT;
+}
+
+/**
+ * Extract resources from a dashboard JSON payload
+ * @param showId - When given, items that name a different show are skipped
+ */
+export function parseResources(payload: unknown, showId?: string): Resource[] {
+  const now = new Date().toISOString();
+
+  return collectItems(payload, looksLikeResource)
+    .filter(item => {
+      const owner = pickString(item, SHOW_ID_KEYS);
+      return !showId || !owner || owner === showId;
+    })
+    .map(item => {
+      const createdAt = pickDate(item, ['createdAt', 'createTime', 'created_at']) || now;
+
+      return {
+        id: pickString(item, RESOURCE_ID_KEYS)!,
+        title: (item.title as string).trim(),
+        description: pickString(item, ['description', 'shownotes', 'summary'])?.trim(),
+        duration: pickNumber(item, ['duration']),
+        coverUrl: pickUrl(item, ['image', 'cover', 'coverUrl']),
+        audioUrl: pickUrl(item, ['enclosure', 'media', 'audio', 'audioUrl', 'mediaUrl']),
+        status: parseStatus(item),
+        createdAt,
+        updatedAt: pickDate(item, ['updatedAt', 'updateTime', 'updated_at']) || createdAt
+      };
+    });
+}
+
+// =====================================================
+// Statistics Parsing
+// =====================================================
+
+const PLAY_KEYS = ['playCount', 'plays', 'play', 'pv', 'totalPlayCount'];
+const SUBSCRIBER_KEYS = ['subscriptionCount', 'subscriberCount', 'subscribers', 'totalSubscriptionCount'];
+const NEW_SUBSCRIBER_KEYS = ['newSubscriptionCount', 'newSubscribers', 'subscriptionIncrease', 'subscribeCount'];
+const COMPLETION_KEYS = ['completionRate', 'finishRate', 'completeRate', 'playCompletionRate'];
+const DATE_KEYS = ['date', 'day', 'dt', 'statDate', 'time', 'timestamp'];
+
+/**
+ * Normalize a rate to 0-1 (the platform may report percentages)
+ */
+function pickRate(item: JsonObject, keys: string[]): number | undefined {
+  const value = pickNumber(item, keys);
+  if (value === undefined) {
+    return undefined;
+  }
+  return value > 1 ? value / 100 : value;
+}
+
+/**
+ * Read a day as yyyy-MM-dd in Beijing time (the platform's reporting zone)
+ */
+function pickDay(item: JsonObject): string | undefined {
+  for (const key of DATE_KEYS) {
+    const value = item[key];
+    if (typeof value === 'string' && /^\d{4}-?\d{2}-?\d{2}$/.test(value)) {
+      return value.replace(/^(\d{4})-?(\d{2})-?(\d{2})$/, '$1-$2-$3');
+    }
+  }
+
+  const iso = pickDate(item, DATE_KEYS);
+  return iso ? new Date(Date.parse(iso) + 8 * 3600 * 1000).toISOString().slice(0, 10) : undefined;
+}
+
+function hasMetric(item: JsonObject): boolean {
+  return [PLAY_KEYS, SUBSCRIBER_KEYS, NEW_SUBSCRIBER_KEYS, COMPLETION_KEYS].some(keys => pickNumber(item, keys) !== undefined);
+}
+
+function looksLikeStatsPoint(item: JsonObject): boolean {
+  return pickDay(item) !== undefined && hasMetric(item);
+}
+
+/**
+ * Extract daily metrics from a data page JSON payload, merged by date
+ */
+export function parseStatsPoints(payload: unknown): StatsPoint[] {
+  const byDate = new Map<string, StatsPoint>();
+
+  for (const item of collectItems(payload, looksLikeStatsPoint)) {
+    const date = pickDay(item)!;
+    const point: StatsPoint = { ...byDate.get(date), date };
+
+    const plays = pickNumber(item, PLAY_KEYS);
+    const subscribers = pickNumber(item, SUBSCRIBER_KEYS);
+    const newSubscribers = pickNumber(item, NEW_SUBSCRIBER_KEYS);
+    const completionRate = pickRate(item, COMPLETION_KEYS);
+
+    if (plays !== undefined) point.plays = plays;
+    if (subscribers !== undefined) point.subscribers = subscribers;
+    if (newSubscribers !== undefined) point.newSubscribers = newSubscribers;
+    if (completionRate !== undefined) point.completionRate = completionRate;
+
+    byDate.set(date, point);
+  }
+
+  return Array.from(byDate.values()).sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Extract aggregate metrics from a data page JSON payload
+ *
+ * Totals come from objects carrying metrics without a date; arrays are
+ * skipped since lists (episodes, daily points) never hold the totals.
+ * The first value seen for each metric wins.
+ */
+export function parseStatsTotals(payload: unknown, depth: number = 0): StatsTotals {
+  const totals: StatsTotals = {};
+
+  if (depth > MAX_DEPTH) {
+    return totals;
+  }
+
+  const merge = (other: StatsTotals) => {
+    for (const [key, value] of Object.entries(other) as [keyof StatsTotals, number | undefined][]) {
+      if (value !== undefined && totals[key] === undefined) {
+        totals[key] = value;
+      }
+    }
+  };
+
+  if (isObject(payload)) {
+    if (hasMetric(payload) && pickDay(payload) === undefined) {
+      merge({
+        plays: pickNumber(payload, PLAY_KEYS),
+        subscribers: pickNumber(payload, SUBSCRIBER_KEYS),
+        completionRate: pickRate(payload, COMPLETION_KEYS),
+        comments: pickNumber(payload, ['commentCount', 'comments']),
+        likes: pickNumber(payload, ['likeCount', 'likes', 'clapCount'])
+      });
+    }
+    Object.values(payload).forEach(value => merge(parseStatsTotals(value, depth + 1)));
+  }
+
+  return totals;
+}
+
+// =====================================================
+// Comment Parsing
+// =====================================================
+
+const COMMENT_ID_KEYS = ['commentId', 'cid', 'id'];
+const COMMENT_TEXT_KEYS = ['text', 'content'];
+const COMMENT_DATE_KEYS = ['createdAt', 'createTime', 'created_at'];
+
+function looksLikeComment(item: JsonObject): boolean {
+  return pickString(item, COMMENT_ID_KEYS) !== undefined
+    && pickString(item, COMMENT_TEXT_KEYS) !== undefined
+    && pickDate(item, COMMENT_DATE_KEYS) !== undefined
+    && (isObject(item.author) || isObject(item.user) || pickString(item, ['nickname', 'authorName']) !== undefined);
+}
+
+/**
+ * Return the first boolean field among the given keys (1/0 count as booleans)
+ */
+function pickBoolean(item: JsonObject, keys: string[]): boolean | undefined {
+  for (const key of keys) {
+    const value = item[key];
+    if (typeof value === 'boolean') {
+      return value;
+    }
+    if (value === 0 || value === 1) {
+      return value === 1;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Extract top-level comments from a comment page JSON payload
+ *
+ * Replies nested under a comment are not returned as separate comments;
+ * a non-empty reply list only marks the comment as replied.
+ * @param showId - When given, items that name a different show are skipped
+ */
+export function parseComments(payload: unknown, showId?: string): Comment[] {
+  return collectItems(payload, looksLikeComment)
+    .filter(item => {
+      const owner = pickString(item, SHOW_ID_KEYS);
+      return !showId || !owner || owner === showId;
+    })
+    .map(item => {
+      const author = isObject(item.author) ? item.author : isObject(item.user) ? item.user : item;
+      const episode = isObject(item.episode) ? item.episode : item;
+      const replies = item.replies ?? item.replyList ?? item.subComments;
+
+      return {
+        id: pickString(item, COMMENT_ID_KEYS)!,
+        showId: pickString(item, SHOW_ID_KEYS) ?? showId,
+        episodeId: pickString(episode, RESOURCE_ID_KEYS),
+        episodeTitle: typeof episode.title === 'string' ? episode.title.trim() : undefined,
+        author: pickString(author, ['nickname', 'authorName', 'name'])?.trim() || '',
+        content: pickString(item, COMMENT_TEXT_KEYS)!.trim(),
+        createdAt: pickDate(item, COMMENT_DATE_KEYS)!,
+        likeCount: pickNumber(item, ['likeCount', 'likes']),
+        pinned: pickBoolean(item, ['isPinned', 'pinned', 'isTop', 'sticky']) ?? false,
+        replied: pickBoolean(item, ['isReplied', 'replied', 'hasAuthorReply', 'authorReplied'])
+          ?? (Array.isArray(replies) && replies.length > 0)
+      };
+    });
+}
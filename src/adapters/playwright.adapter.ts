@@ -2,11 +2,613 @@
  * Playwright Adapter - Browser automation adapter
  */
 
-import { chromium, Browser, Page, BrowserContext } from 'playwright';
-import { BaseAdapter, PlaywrightConfig, PublishOptions } from './base';
-import { AdapterType, HealthCheckResult, Show, Resource, PublishResult, ResourceStatus, AdapterResult } from '../core/types';
+import fs from 'fs';
+import { chromium, Browser, Page, BrowserContext, Response, ElementHandle, Locator } from 'playwright';
+import { BaseAdapter, PlaywrightConfig, PublishOptions, UploadOptions, UploadStage, DescriptionMode, EpisodePatch, EpisodeListOptions, CommentListOptions, DEFAULT_COMMENT_LIMIT } from './base';
+import { parseShows, parseResources, parseStatsPoints, parseStatsTotals, parseComments } from './network-parser';
+import { AdapterType, HealthCheckResult, Show, Resource, PublishResult, PublishOverrides, ResourceStatus, AdapterResult, ErrorCode, EpisodeDetails, EpisodePage, StatsRange, StatsTotals, StatsPoint, ShowStats, EpisodeStats, Comment } from '../core/types';
+import { PlatformDescriptor, DEFAULT_PLATFORM, fillPath, isPlatformPage } from '../core/platform';
 import { Logger } from '../services/logger';
 import { Debugger } from '../services/debugger';
+import { AppError } from '../services/error-handler';
+import { formatInTimeZone } from '../utils/helpers';
+import { markdownToHtml, markdownToText, htmlToMarkdown } from '../utils/markdown';
+import { extractChapters, composeShownotes } from '../utils/chapters';
+import { normalizeTitle, titleLength, DEFAULT_TITLE_POLICY } from '../core/title-policy';
+import type { PlaywrightStorageState } from '../storage/session';
+
+// =====================================================
+// Resource Scanning
+// =====================================================
+
+/**
+ * Selector matching resource rows on show and library pages
+ */
+const RESOURCE_ROW_SELECTOR = '[class*="episode"], [class*="item"], [class*="draft"], [class*="resource"]';
+
+/**
+ * Attribute used to tag scanned rows so they can be located again by ID
+ */
+const RESOURCE_ROW_ATTRIBUTE = 'data-xyz-resource-id';
+
+/**
+ * Data attributes that may carry the platform's resource ID
+ */
+const RESOURCE_ID_ATTRIBUTES = ['data-resource-id', 'data-episode-id', 'data-eid', 'data-id'];
+
+/**
+ * URL patterns that carry the platform's resource ID
+ */
+const RESOURCE_ID_PATTERNS = [
+  /\/episodes?\/([A-Za-z0-9_-]+)/,
+  /\/resources?\/([A-Za-z0-9_-]+)/,
+  /\/drafts?\/([A-Za-z0-9_-]+)/,
+  /[?&](?:eid|resourceId|episodeId)=([A-Za-z0-9_-]+)/
+];
+
+/**
+ * Resource row as scraped from the page
+ */
+interface ScannedResourceRow {
+  id: string;
+  title: string;
+  statusText: string;
+  className: string;
+  durationText: string;
+  hasPublishButton: boolean;
+}
+
+/**
+ * Scan resource rows in the page (runs in the browser)
+ *
+ * Each row must carry exactly one platform ID, either in a data attribute
+ * or in a link; containers wrapping several rows are skipped. Matching rows
+ * are tagged with RESOURCE_ROW_ATTRIBUTE so they can be located again.
+ */
+function scanResourceRows(args: { selector: string; rowAttribute: string; attributes: string[]; patterns: string[] }): ScannedResourceRow[] {
+  const patterns = args.patterns.map(source => new RegExp(source));
+  const rows: ScannedResourceRow[] = [];
+
+  document.querySelectorAll(args.selector).forEach(el => {
+    const ids = new Set<string>();
+
+    for (const attr of args.attributes) {
+      const own = el.getAttribute(attr);
+      if (own) ids.add(own);
+      el.querySelectorAll(`[${attr}]`).forEach(child => {
+        const value = child.getAttribute(attr);
+        if (value) ids.add(value);
+      });
+    }
+
+    if (ids.size === 0) {
+      const hrefs = [el.getAttribute('href'), ...Array.from(el.querySelectorAll('a[href]')).map(a => a.getAttribute('href'))];
+      for (const href of hrefs) {
+        if (!href) continue;
+        for (const pattern of patterns) {
+          const match = href.match(pattern);
+          if (match) {
+            ids.add(match[1]);
+            break;
+          }
+        }
+      }
+    }
+
+    if (ids.size !== 1) {
+      return;
+    }
+
+    const titleEl = el.querySelector('[class*="title"], h2, h3');
+    if (!titleEl?.textContent) {
+      return;
+    }
+
+    const [id] = Array.from(ids);
+    el.setAttribute(args.rowAttribute, id);
+
+    rows.push({
+      id,
+      title: titleEl.textContent.trim(),
+      statusText: el.querySelector('[class*="status"], [class*="state"]')?.textContent?.trim() || '',
+      className: typeof el.className === 'string' ? el.className : '',
+      durationText: el.querySelector('[class*="duration"], [class*="time"]')?.textContent?.trim() || '',
+      hasPublishButton: Array.from(el.querySelectorAll('button, a')).some(btn => (btn.textContent || '').includes('发布'))
+    });
+  });
+
+  return rows;
+}
+
+/**
+ * Determine a scanned row's status from its text or class
+ */
+function rowStatus(row: ScannedResourceRow): ResourceStatus {
+  const statusText = row.statusText.toLowerCase();
+  const className = row.className.toLowerCase();
+
+  if (statusText.includes('草稿') || className.includes('draft')) {
+    return ResourceStatus.DRAFT;
+  }
+  if (statusText.includes('定时') || className.includes('schedule')) {
+    return ResourceStatus.SCHEDULED;
+  }
+  return ResourceStatus.PUBLISHED;
+}
+
+/**
+ * Map a scanned row to a resource (rows carry no dates, so "now" is used)
+ */
+function rowToResource(row: ScannedResourceRow): Resource {
+  let duration: number | undefined;
+  const timeMatch = row.durationText.match(/(\d+):(\d+)/);
+  if (timeMatch) {
+    duration = parseInt(timeMatch[1]) * 60 + parseInt(timeMatch[2]);
+  }
+
+  const now = new Date().toISOString();
+
+  return {
+    id: row.id,
+    title: row.title,
+    status: rowStatus(row),
+    duration,
+    createdAt: now,
+    updatedAt: now
+  };
+}
+
+/**
+ * JSON responses captured while a page loads
+ */
+interface ResponseCapture {
+  stop(): Promise<unknown[]>;
+}
+
+/**
+ * Compare a displayed title with the expected one, allowing for
+ * whitespace differences and ellipsis truncation in the list view
+ */
+function titlesMatch(displayed: string, expected: string): boolean {
+  const normalize = (value: string) => value.replace(/\s+/g, ' ').trim();
+  const shown = normalize(displayed);
+  const wanted = normalize(expected);
+
+  if (shown === wanted) {
+    return true;
+  }
+
+  const truncated = shown.replace(/(\.\.\.|…)$/, '');
+  return truncated !== shown && truncated.length > 0 && wanted.startsWith(truncated);
+}
+
+// =====================================================
+// Publish Page Overrides
+// =====================================================
+
+/**
+ * Controls that may implement the subscriber notification switch
+ */
+const NOTIFY_SWITCH_SELECTOR = '[role="switch"], input[type="checkbox"], [class*="switch"]';
+
+/**
+ * Shownotes editors, rich text first
+ */
+const SHOWNOTES_EDITOR_SELECTORS = [
+  '[class*="shownotes"] [contenteditable="true"]',
+  '[class*="editor"] [contenteditable="true"]',
+  '[contenteditable="true"]',
+  'textarea[name*="desc"]',
+  'textarea[placeholder*="简介"]',
+  'textarea[placeholder*="介绍"]'
+];
+
+/**
+ * Final button of the publish form; exact names, so "定时发布" or
+ * "发布设置" never match
+ */
+const CREATE_BUTTON_NAME = /^\s*(创建|发布)\s*$/;
+
+// =====================================================
+// Scheduled Release
+// =====================================================
+
+const SCHEDULE_TOGGLE_SELECTORS = [
+  'label:has-text("定时发布")',
+  'span:has-text("定时发布")',
+  'text=定时发布'
+];
+
+/**
+ * Single input holding both date and time
+ */
+const SCHEDULE_DATETIME_SELECTORS = [
+  'input[type="datetime-local"]',
+  'input[placeholder*="发布时间"]',
+  'input[placeholder*="日期时间"]'
+];
+
+const SCHEDULE_DATE_SELECTORS = [
+  'input[type="date"]',
+  'input[placeholder*="选择日期"]',
+  'input[placeholder*="日期"]'
+];
+
+const SCHEDULE_TIME_SELECTORS = [
+  'input[type="time"]',
+  'input[placeholder*="选择时间"]',
+  'input[placeholder*="时间"]'
+];
+
+// =====================================================
+// Upload Flow
+// =====================================================
+
+/**
+ * Entry points to the episode creation page on the show homepage
+ */
+const CREATE_EPISODE_SELECTORS = [
+  'a:has-text("创建单集")',
+  'button:has-text("创建单集")',
+  'a:has-text("上传单集")',
+  'button:has-text("上传单集")',
+  'a[href*="/episodes/create"]'
+];
+
+const AUDIO_INPUT_SELECTOR = 'input[type="file"][accept*="audio"]';
+const COVER_INPUT_SELECTOR = 'input[type="file"][accept*="image"]';
+
+/**
+ * Elements that open the audio file chooser when no file input is exposed
+ */
+const AUDIO_UPLOAD_TRIGGER_SELECTORS = [
+  'button:has-text("上传音频")',
+  'text=点击上传',
+  '[class*="upload"]'
+];
+
+const TITLE_INPUT_SELECTORS = [
+  'input[name*="title"]',
+  'textarea[name*="title"]',
+  'input[placeholder*="标题"]',
+  'textarea[placeholder*="标题"]',
+  '[class*="title"] input'
+];
+
+const DESCRIPTION_INPUT_SELECTORS = [
+  '[contenteditable="true"]',
+  'textarea[name*="desc"]',
+  'textarea[placeholder*="简介"]',
+  'textarea[placeholder*="介绍"]'
+];
+
+const SAVE_DRAFT_SELECTORS = [
+  'button:has-text("保存草稿")',
+  'button:has-text("存为草稿")',
+  'button:has-text("保存")'
+];
+
+/**
+ * Maximum time to wait for upload and transcoding
+ */
+const UPLOAD_TIMEOUT = 20 * 60 * 1000;
+const UPLOAD_POLL_INTERVAL = 2000;
+
+// =====================================================
+// Episode Editing
+// =====================================================
+
+/**
+ * Edit entry points on an episode row or detail page
+ */
+const EDIT_EPISODE_SELECTORS = [
+  'button:has-text("编辑")',
+  'a:has-text("编辑")'
+];
+
+const SAVE_EPISODE_SELECTORS = [
+  'button:has-text("保存修改")',
+  'button:has-text("确认修改")',
+  'button:has-text("保存")',
+  'button:has-text("更新")'
+];
+
+const COVER_IMAGE_SELECTOR = '[class*="cover"] img';
+
+// =====================================================
+// Row Actions
+// =====================================================
+
+const RESOURCE_LIBRARY_SELECTORS = [
+  'a:has-text("资源库")',
+  'button:has-text("资源库")'
+];
+
+/**
+ * Buttons that open a row's overflow menu
+ */
+const ROW_MENU_SELECTOR = '[class*="more"], [aria-label*="更多"], button:has-text("更多"), button:has-text("...")';
+
+/**
+ * Confirmation buttons in the platform's dialogs
+ */
+const CONFIRM_DIALOG_SELECTORS = [
+  '[role="dialog"] button:has-text("确定")',
+  '[role="dialog"] button:has-text("确认")',
+  '[class*="modal"] button:has-text("确定")',
+  '[class*="modal"] button:has-text("确认")',
+  '[class*="modal"] button:has-text("删除")'
+];
+
+/**
+ * Destructive action performed from a resource row
+ */
+interface RowAction {
+  name: string;
+  labels: string[];  // Button or menu item texts
+  searchLibrary: boolean;  // Also look in the resource library
+  isDone: (row: ScannedResourceRow | undefined) => boolean;
+}
+
+const UNPUBLISH_ACTION: RowAction = {
+  name: 'unpublishEpisode',
+  labels: ['下架', '撤回', '取消发布'],
+  searchLibrary: false,
+  isDone: row => !row || rowStatus(row) !== ResourceStatus.PUBLISHED || /下架|撤回/.test(row.statusText)
+};
+
+const DELETE_ACTION: RowAction = {
+  name: 'deleteResource',
+  labels: ['删除'],
+  searchLibrary: true,
+  isDone: row => !row
+};
+
+const CANCEL_SCHEDULE_ACTION: RowAction = {
+  name: 'cancelSchedule',
+  labels: ['取消定时', '取消定时发布'],
+  searchLibrary: true,
+  isDone: row => row !== undefined && rowStatus(row) !== ResourceStatus.SCHEDULED
+};
+
+// =====================================================
+// Episode List Pagination
+// =====================================================
+
+const LOAD_MORE_SELECTORS = [
+  'button:has-text("加载更多")',
+  'button:has-text("查看更多")',
+  'text=加载更多'
+];
+
+const NEXT_PAGE_SELECTORS = [
+  '[class*="pagination"] [class*="next"]',
+  'button[aria-label*="下一页"]',
+  'button:has-text("下一页")'
+];
+
+/**
+ * Upper bound on load-more / next-page / scroll rounds
+ */
+const MAX_LIST_ROUNDS = 200;
+
+// =====================================================
+// Statistics
+// =====================================================
+
+/**
+ * Links to a show's or episode's data page
+ */
+const DATA_PAGE_SELECTORS = [
+  'a:has-text("数据")',
+  'button:has-text("数据")',
+  'a[href*="/data"]',
+  'a[href*="/stat"]'
+];
+
+/**
+ * Range tabs on the data page, by number of days covered
+ */
+const STATS_RANGE_TABS: Array<[number, string]> = [
+  [7, '近7天'],
+  [30, '近30天'],
+  [90, '近90天'],
+  [180, '近半年'],
+  [365, '近一年']
+];
+
+/**
+ * Labels of the summary cards on data pages
+ */
+const STAT_CARD_LABELS: Record<keyof StatsTotals, string[]> = {
+  plays: ['总播放量', '播放量', '播放'],
+  subscribers: ['总订阅', '订阅数', '订阅'],
+  completionRate: ['完播率'],
+  comments: ['评论数', '评论'],
+  likes: ['点赞数', '点赞']
+};
+
+/**
+ * Read the value next to each summary card label (runs in the browser)
+ */
+function scanStatCards(labels: Record<string, string[]>): Record<string, string> {
+  const values: Record<string, string> = {};
+  const elements = Array.from(document.querySelectorAll('span, div, p, dt, label'))
+    .filter(el => el.children.length === 0 && (el.textContent || '').trim().length <= 8);
+
+  for (const [key, names] of Object.entries(labels)) {
+    for (const name of names) {
+      const label = elements.find(el => (el.textContent || '').trim() === name);
+      if (!label) continue;
+
+      // The value is usually a sibling of the label inside the same card
+      let container = label.parentElement;
+      for (let depth = 0; depth < 3 && container && !values[key]; depth++) {
+        const match = (container.textContent || '').replace(name, '').match(/[\d,.]+\s*[万wk]?%?/i);
+        if (match) {
+          values[key] = match[0].trim();
+        }
+        container = container.parentElement;
+      }
+      if (values[key]) break;
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Parse a displayed metric such as "1.2万", "3,456" or "45.6%"
+ */
+function parseStatValue(text: string): number | undefined {
+  const match = text.replace(/,/g, '').match(/([\d.]+)\s*([万wk]?)(%?)/i);
+  if (!match) {
+    return undefined;
+  }
+
+  const value = parseFloat(match[1]);
+  if (isNaN(value)) {
+    return undefined;
+  }
+  if (match[3]) {
+    return value / 100;
+  }
+
+  const unit = match[2].toLowerCase();
+  return unit === '万' || unit === 'w' ? value * 10000 : unit === 'k' ? value * 1000 : value;
+}
+
+// =====================================================
+// Comments
+// =====================================================
+
+/**
+ * Links to a show's comment management page
+ */
+const COMMENT_PAGE_SELECTORS = [
+  'a:has-text("评论")',
+  'button:has-text("评论")',
+  'a[href*="/comment"]'
+];
+
+const COMMENT_ROW_SELECTOR = '[class*="comment"]';
+
+/**
+ * Attribute used to tag scanned comment rows so they can be located again by ID
+ */
+const COMMENT_ROW_ATTRIBUTE = 'data-xyz-comment-id';
+
+const COMMENT_ID_ATTRIBUTES = ['data-comment-id', 'data-cid', 'data-id'];
+
+const REPLY_INPUT_SELECTORS = [
+  'textarea[placeholder*="回复"]',
+  '[contenteditable="true"]',
+  'textarea'
+];
+
+const REPLY_SUBMIT_SELECTORS = [
+  'button:has-text("发送")',
+  'button:has-text("回复")',
+  'button:has-text("发布")'
+];
+
+/**
+ * Load-more rounds spent looking for a comment before giving up
+ */
+const MAX_COMMENT_SEARCH_ROUNDS = 10;
+
+/**
+ * Comment row as scraped from the page
+ */
+interface ScannedCommentRow {
+  id: string;
+  author: string;
+  content: string;
+  timeText: string;
+  episodeTitle: string;
+  pinned: boolean;
+  replied: boolean;
+}
+
+/**
+ * Scan comment rows in the page (runs in the browser)
+ *
+ * Only rows carrying their own ID attribute are returned, which skips the
+ * nested content and reply elements that also match the row selector.
+ */
+function scanCommentRows(args: { selector: string; rowAttribute: string; attributes: string[] }): ScannedCommentRow[] {
+  const rows: ScannedCommentRow[] = [];
+
+  document.querySelectorAll(args.selector).forEach(el => {
+    const id = args.attributes.map(attr => el.getAttribute(attr)).find(value => value);
+    const content = el.querySelector('[class*="content"], [class*="text"]')?.textContent?.trim();
+    if (!id || !content) {
+      return;
+    }
+
+    el.setAttribute(args.rowAttribute, id);
+    const text = el.textContent || '';
+
+    rows.push({
+      id,
+      author: el.querySelector('[class*="nick"], [class*="name"], [class*="author"]')?.textContent?.trim() || '',
+      content,
+      timeText: el.querySelector('[class*="time"], [class*="date"]')?.textContent?.trim() || '',
+      episodeTitle: el.querySelector('[class*="episode"] [class*="title"], [class*="episode"]')?.textContent?.trim() || '',
+      pinned: text.includes('已置顶') || text.includes('取消置顶') || el.querySelector('[class*="pinned"], [class*="sticky"]') !== null,
+      replied: /作者回复|主播回复|已回复/.test(text)
+    });
+  });
+
+  return rows;
+}
+
+/**
+ * Parse a displayed comment time such as "刚刚", "5分钟前", "昨天 12:30" or "10-01 08:00"
+ */
+function parseCommentTime(text: string, now: Date = new Date()): string | undefined {
+  const relative = text.match(/(\d+)\s*(分钟|小时|天)前/);
+  if (relative) {
+    const unit = { '分钟': 60, '小时': 3600, '天': 24 * 3600 }[relative[2]]!;
+    return new Date(now.getTime() - parseInt(relative[1]) * unit * 1000).toISOString();
+  }
+  if (text.includes('刚刚')) {
+    return now.toISOString();
+  }
+
+  const time = text.match(/(\d{1,2}):(\d{2})/);
+  const [hours, minutes] = time ? [parseInt(time[1]), parseInt(time[2])] : [0, 0];
+
+  if (text.includes('昨天')) {
+    const date = new Date(now.getTime() - 24 * 3600 * 1000);
+    date.setHours(hours, minutes, 0, 0);
+    return date.toISOString();
+  }
+
+  const absolute = text.match(/(?:(\d{4})[-/年])?(\d{1,2})[-/月](\d{1,2})/);
+  if (absolute) {
+    const year = absolute[1] ? parseInt(absolute[1]) : now.getFullYear();
+    return new Date(year, parseInt(absolute[2]) - 1, parseInt(absolute[3]), hours, minutes).toISOString();
+  }
+
+  return undefined;
+}
+
+/**
+ * Map a scanned row to a comment (rows without a readable time use "now")
+ */
+function rowToComment(row: ScannedCommentRow, showId: string): Comment {
+  return {
+    id: row.id,
+    showId,
+    episodeTitle: row.episodeTitle || undefined,
+    author: row.author,
+    content: row.content,
+    createdAt: parseCommentTime(row.timeText) || new Date().toISOString(),
+    pinned: row.pinned,
+    replied: row.replied
+  };
+}
 
 // =====================================================
 // Playwright Adapter Class
@@ -21,15 +623,20 @@ export class PlaywrightAdapter extends BaseAdapter {
   private page: Page | null = null;
   private playwrightConfig: PlaywrightConfig;
   private debugger?: Debugger;
-  private readonly BASE_URL = 'https://podcaster.xiaoyuzhoufm.com';
+  private lastSyncedCookies: string | null = null;
+  private syncingState: boolean = false;
+  private unsubscribe?: () => void;
+  private readonly platform: PlatformDescriptor;
 
   constructor(config: PlaywrightConfig = {}) {
     super(config);
+    this.platform = config.platform ?? DEFAULT_PLATFORM;
     this.playwrightConfig = {
       headless: config.headless ?? false,
       slowMo: config.slowMo ?? 50,
       viewport: config.viewport ?? { width: 1280, height: 720 },
-      ...config
+      ...config,
+      dataSource: config.dataSource ?? 'auto'
     };
   }
 
@@ -56,11 +663,28 @@ export class PlaywrightAdapter extends BaseAdapter {
         slowMo: this.playwrightConfig.slowMo
       });
 
-      // Create context
+      // Create context with the stored login session
+      const storageState = this.loadStorageState();
       this.context = await this.browser.newContext({
         viewport: this.playwrightConfig.viewport,
-        userAgent: this.playwrightConfig.userAgent
+        userAgent: this.playwrightConfig.userAgent,
+        storageState
       });
+      this.lastSyncedCookies = storageState ? JSON.stringify(storageState.cookies) : null;
+
+      // Pick up sessions written elsewhere (re-login, session import)
+      if (this.sessionStorage && !this.unsubscribe) {
+        this.unsubscribe = this.sessionStorage.onBrowserStateChange(state => {
+          if (!this.syncingState) {
+            this.applyStorageState(state).catch(error => {
+              this.logger.error('Failed to apply browser state', error as Error, {
+                module: 'playwright-adapter',
+                action: 'applyStorageState'
+              });
+            });
+          }
+        });
+      }
 
       // Create page
       this.page = await this.context.newPage();
@@ -72,9 +696,9 @@ export class PlaywrightAdapter extends BaseAdapter {
       if (this.debug) {
         this.debugger = new Debugger({
           enabled: true,
-          screenshotOnError: true,
+          screenshotOnError: this.playwrightConfig.enableScreenshots ?? true,
           saveTrace: false
-        }, this.logger, '.debug');
+        }, this.logger, this.playwrightConfig.debugDir || '.debug');
 
         // Log console messages
         this.debugger.logConsoleMessages(this.context);
@@ -90,6 +714,75 @@ export class PlaywrightAdapter extends BaseAdapter {
     }
   }
 
+  /**
+   * Load the stored browser state, if any
+   */
+  private loadStorageState(): PlaywrightStorageState | undefined {
+    if (!this.sessionStorage) {
+      return undefined;
+    }
+
+    try {
+      return this.sessionStorage.loadBrowserState() || undefined;
+    } catch (error) {
+      this.logger.warn('Could not load browser session, starting without it', {
+        module: 'playwright-adapter',
+        action: 'loadStorageState',
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return undefined;
+    }
+  }
+
+  /**
+   * Replace the context cookies with an externally updated browser state
+   */
+  private async applyStorageState(state: PlaywrightStorageState | null): Promise<void> {
+    if (!this.context) {
+      return;
+    }
+
+    await this.context.clearCookies();
+    if (state) {
+      await this.context.addCookies(state.cookies);
+    }
+    this.lastSyncedCookies = state ? JSON.stringify(state.cookies) : null;
+
+    this.logger.debug('Browser context cookies updated from session storage', {
+      module: 'playwright-adapter',
+      action: 'applyStorageState'
+    });
+  }
+
+  /**
+   * Save the context's storage state back to session storage when cookies changed
+   */
+  private async syncStorageState(): Promise<void> {
+    if (!this.sessionStorage || !this.context) {
+      return;
+    }
+
+    const state = await this.context.storageState() as PlaywrightStorageState;
+    const cookies = JSON.stringify(state.cookies);
+
+    if (cookies === this.lastSyncedCookies || state.cookies.length === 0) {
+      return;
+    }
+
+    this.syncingState = true;
+    try {
+      this.sessionStorage.saveBrowserState(state);
+      this.lastSyncedCookies = cookies;
+    } finally {
+      this.syncingState = false;
+    }
+
+    this.logger.debug('Browser session cookies synced', {
+      module: 'playwright-adapter',
+      action: 'syncStorageState'
+    });
+  }
+
   /**
    * Get or create page
    */
@@ -120,7 +813,7 @@ export class PlaywrightAdapter extends BaseAdapter {
       const page = await this.getPage();
 
       // Try to navigate to a simple page
-      await page.goto(this.BASE_URL, { waitUntil: 'domcontentloaded', timeout: 10000 });
+      await page.goto(this.platform.origin, { waitUntil: 'domcontentloaded', timeout: 10000 });
 
       const latency = Date.now() - startTime;
 
@@ -143,6 +836,9 @@ export class PlaywrightAdapter extends BaseAdapter {
    */
   async dispose(): Promise<void> {
     try {
+      this.unsubscribe?.();
+      this.unsubscribe = undefined;
+
       if (this.page) {
         await this.page.close();
         this.page = null;
@@ -180,7 +876,22 @@ export class PlaywrightAdapter extends BaseAdapter {
    */
   private async navigateTo(path: string): Promise<void> {
     const page = await this.getPage();
-    await page.goto(`${this.BASE_URL}${path}`, { waitUntil: 'networkidle', timeout: this.timeout });
+    await page.goto(`${this.platform.origin}${path}`, { waitUntil: 'networkidle', timeout: this.timeout });
+
+    // The dashboard redirects to the login page when the session is rejected
+    if (isPlatformPage(this.platform, new URL(page.url()).pathname, 'login')) {
+      this.notifyUnauthorized(`redirected to login from ${path}`);
+      throw new AppError(ErrorCode.TOKEN_EXPIRED, 'Session expired - redirected to login page');
+    }
+
+    await this.syncStorageState();
+  }
+
+  /**
+   * Path of a show's homepage
+   */
+  private showHomePath(showId: string): string {
+    return fillPath(this.platform.pages.showHome, { showId });
   }
 
   /**
@@ -192,24 +903,74 @@ export class PlaywrightAdapter extends BaseAdapter {
   }
 
   /**
-   * Get user shows
+   * Capture JSON XHR/fetch responses until stopped
    */
-  async getShows(): Promise<AdapterResult<Show[]>> {
-    try {
-      this.logger.debug('Getting shows', {
-        module: 'playwright-adapter',
-        action: 'getShows'
-      });
+  private captureJsonResponses(page: Page): ResponseCapture {
+    const pending: Promise<unknown>[] = [];
 
-      const page = await this.getPage();
+    const handler = (response: Response) => {
+      const type = response.request().resourceType();
+      const contentType = response.headers()['content-type'] || '';
 
-      // Navigate to creator dashboard
-      this.logger.info('Navigating to dashboard', {
-        module: 'playwright-adapter',
-        action: 'getShows'
-      });
+      if ((type === 'xhr' || type === 'fetch') && contentType.includes('json') && response.ok()) {
+        pending.push(response.json().catch(() => null));
+      }
+    };
+
+    page.on('response', handler);
+
+    return {
+      stop: async () => {
+        page.off('response', handler);
+        const payloads = await Promise.all(pending);
+        return payloads.filter(payload => payload !== null);
+      }
+    };
+  }
+
+  /**
+   * Remove items with duplicate IDs, keeping the first occurrence
+   */
+  private uniqueById<T extends { id: string }>(items: T[]): T[] {
+    return items.filter((item, index) => items.findIndex(other => other.id === item.id) === index);
+  }
+
+  /**
+   * Scan resource rows on the current page
+   */
+  private async scanResources(page: Page): Promise<ScannedResourceRow[]> {
+    return page.evaluate(scanResourceRows, {
+      selector: RESOURCE_ROW_SELECTOR,
+      rowAttribute: RESOURCE_ROW_ATTRIBUTE,
+      attributes: RESOURCE_ID_ATTRIBUTES,
+      patterns: RESOURCE_ID_PATTERNS.map(pattern => pattern.source)
+    });
+  }
+
+  /**
+   * Get user shows
+   */
+  async getShows(): Promise<AdapterResult<Show[]>> {
+    let capture: ResponseCapture | null = null;
+
+    try {
+      this.logger.debug('Getting shows', {
+        module: 'playwright-adapter',
+        action: 'getShows'
+      });
+
+      const page = await this.getPage();
+
+      // Listen to the dashboard's own JSON responses unless DOM scraping is forced
+      capture = this.playwrightConfig.dataSource !== 'dom' ? this.captureJsonResponses(page) : null;
+
+      // Navigate to creator dashboard
+      this.logger.info('Navigating to dashboard', {
+        module: 'playwright-adapter',
+        action: 'getShows'
+      });
 
-      await page.goto('https://podcaster.xiaoyuzhoufm.com/dashboard', { waitUntil: 'networkidle', timeout: this.timeout });
+      await this.navigateTo(this.platform.pages.dashboard);
 
       // Wait for page to fully load
       await page.waitForLoadState('domcontentloaded', { timeout: this.timeout });
@@ -217,6 +978,29 @@ export class PlaywrightAdapter extends BaseAdapter {
       // Wait for initial content and scroll to load more
       await page.waitForTimeout(5000);
 
+      if (capture) {
+        const payloads = await capture.stop();
+        const networkShows = this.uniqueById(payloads.flatMap(payload => parseShows(payload)));
+
+        if (networkShows.length > 0) {
+          this.logger.info(`Found ${networkShows.length} shows`, {
+            module: 'playwright-adapter',
+            action: 'getShows',
+            source: 'network'
+          });
+          return this.success(networkShows);
+        }
+
+        if (this.playwrightConfig.dataSource === 'network') {
+          return this.failure('No show data observed in network responses', ErrorCode.INVALID_RESPONSE);
+        }
+
+        this.logger.debug(`No show data in ${payloads.length} JSON responses, falling back to DOM scraping`, {
+          module: 'playwright-adapter',
+          action: 'getShows'
+        });
+      }
+
       this.logger.debug('Page loaded, starting show extraction', {
         module: 'playwright-adapter',
         action: 'getShows'
@@ -345,7 +1129,8 @@ export class PlaywrightAdapter extends BaseAdapter {
       } else {
         this.logger.info(`Found ${shows.length} shows`, {
           module: 'playwright-adapter',
-          action: 'getShows'
+          action: 'getShows',
+          source: 'dom'
         });
       }
 
@@ -353,6 +1138,8 @@ export class PlaywrightAdapter extends BaseAdapter {
 
     } catch (error) {
       return this.handleException(error, 'getShows');
+    } finally {
+      await capture?.stop();
     }
   }
 
@@ -360,6 +1147,8 @@ export class PlaywrightAdapter extends BaseAdapter {
    * Get resources for a show
    */
   async getResources(showId: string): Promise<AdapterResult<Resource[]>> {
+    let capture: ResponseCapture | null = null;
+
     try {
       this.logger.debug(`Getting resources for show: ${showId}`, {
         module: 'playwright-adapter',
@@ -369,88 +1158,199 @@ export class PlaywrightAdapter extends BaseAdapter {
 
       const page = await this.getPage();
 
+      // Listen to the dashboard's own JSON responses unless DOM scraping is forced
+      capture = this.playwrightConfig.dataSource !== 'dom' ? this.captureJsonResponses(page) : null;
+
       // Navigate to show page
-      await this.navigateTo(`/podcasts/${showId}/home`);
+      await this.navigateTo(this.showHomePath(showId));
+
+      if (capture) {
+        const payloads = await capture.stop();
+        const networkResources = this.uniqueById(payloads.flatMap(payload => parseResources(payload, showId)));
+
+        if (networkResources.length > 0) {
+          this.logger.info(`Found ${networkResources.length} resources`, {
+            module: 'playwright-adapter',
+            action: 'getResources',
+            showId,
+            source: 'network'
+          });
+          return this.success(networkResources);
+        }
+
+        if (this.playwrightConfig.dataSource === 'network') {
+          return this.failure('No resource data observed in network responses', ErrorCode.INVALID_RESPONSE);
+        }
+
+        this.logger.debug(`No resource data in ${payloads.length} JSON responses, falling back to DOM scraping`, {
+          module: 'playwright-adapter',
+          action: 'getResources',
+          showId
+        });
+      }
 
       // Wait for episodes/resources to load on show page
-      await this.waitForSelector('[class*="episode"], [class*="item"], [class*="draft"], [class*="resource"]', 10000);
+      await this.waitForSelector(RESOURCE_ROW_SELECTOR, 10000);
 
       // Extract resources from page
-      const resources = await page.evaluate(() => {
-        const elements = document.querySelectorAll('[class*="episode"], [class*="item"], [class*="draft"], [class*="resource"]');
-        const result: Resource[] = [];
-
-        elements.forEach((el: any, index) => {
-          const titleEl = el.querySelector('[class*="title"], h2, h3');
-          const statusEl = el.querySelector('[class*="status"], [class*="state"]');
-          const timeEl = el.querySelector('[class*="duration"], [class*="time"]');
-
-          if (titleEl && titleEl.textContent) {
-            // Determine status from element text or class
-            let status = ResourceStatus.PUBLISHED;
-            const statusText = statusEl?.textContent?.toLowerCase() || '';
-            const className = (el as HTMLElement).className.toLowerCase();
-
-            if (statusText.includes('草稿') || className.includes('draft')) {
-              status = ResourceStatus.DRAFT;
-            } else if (statusText.includes('定时') || className.includes('schedule')) {
-              status = ResourceStatus.SCHEDULED;
-            }
-
-            // Parse duration
-            let duration: number | undefined;
-            if (timeEl?.textContent) {
-              const timeMatch = timeEl.textContent.match(/(\d+):(\d+)/);
-              if (timeMatch) {
-                duration = parseInt(timeMatch[1]) * 60 + parseInt(timeMatch[2]);
-              }
-            }
+      const rows = await this.scanResources(page);
+      const resources: Resource[] = [];
 
-            result.push({
-              id: `resource_${index}`,
-              title: titleEl.textContent.trim(),
-              status,
-              duration,
-              createdAt: new Date().toISOString(),
-              updatedAt: new Date().toISOString()
-            });
-          }
-        });
+      for (const row of rows) {
+        if (resources.some(r => r.id === row.id)) {
+          continue;
+        }
 
-        return result;
-      });
+        resources.push(rowToResource(row));
+      }
 
       this.logger.info(`Found ${resources.length} resources`, {
         module: 'playwright-adapter',
         action: 'getResources',
-        showId
+        showId,
+        source: 'dom'
       });
 
       return this.success(resources);
 
     } catch (error) {
       return this.handleException(error, 'getResources');
+    } finally {
+      await capture?.stop();
+    }
+  }
+
+  /**
+   * List a show's episodes, loading more until enough match
+   *
+   * Follows "load more" buttons, numbered pagination or infinite scroll,
+   * whichever the page offers. Episodes found only in the DOM have no
+   * creation date, so `since` can only exclude network-sourced episodes.
+   */
+  async listEpisodes(showId: string, options: EpisodeListOptions = {}): Promise<AdapterResult<EpisodePage>> {
+    const dataSource = this.playwrightConfig.dataSource;
+    let capture: ResponseCapture | null = null;
+
+    try {
+      const page = await this.getPage();
+      const needed = this.episodesNeeded(options);
+      const collected = new Map<string, Resource>();
+
+      capture = dataSource !== 'dom' ? this.captureJsonResponses(page) : null;
+      await this.navigateTo(this.showHomePath(showId));
+
+      for (let round = 0; round < MAX_LIST_ROUNDS; round++) {
+        const before = collected.size;
+
+        if (capture) {
+          const payloads = await capture.stop();
+          capture = null;
+          payloads.flatMap(payload => parseResources(payload, showId)).forEach(resource => {
+            collected.set(resource.id, resource);
+          });
+        }
+
+        if (dataSource !== 'network') {
+          for (const row of await this.scanResources(page)) {
+            if (!collected.has(row.id)) {
+              collected.set(row.id, rowToResource(row));
+            }
+          }
+        }
+
+        const resources = Array.from(collected.values());
+        const matches = resources.filter(resource => this.matchesEpisodeFilter(resource, options));
+        const reachedSince = options.since !== undefined
+          && resources.some(resource => Date.parse(resource.createdAt) < options.since!.getTime());
+
+        if (matches.length >= needed || reachedSince || (round > 0 && collected.size === before)) {
+          break;
+        }
+
+        capture = dataSource !== 'dom' ? this.captureJsonResponses(page) : null;
+        if (!await this.loadMoreRows(page)) {
+          break;
+        }
+      }
+
+      if (collected.size === 0 && dataSource === 'network') {
+        return this.failure('No episode data observed in network responses', ErrorCode.INVALID_RESPONSE);
+      }
+
+      const matches = Array.from(collected.values()).filter(resource => this.matchesEpisodeFilter(resource, options));
+
+      this.logger.info(`Listed ${matches.length} matching episodes from ${collected.size} loaded`, {
+        module: 'playwright-adapter',
+        action: 'listEpisodes',
+        showId
+      });
+
+      return this.success(this.toEpisodePage(matches, options));
+
+    } catch (error) {
+      return this.handleException(error, 'listEpisodes');
+    } finally {
+      await capture?.stop();
+    }
+  }
+
+  /**
+   * Load the next batch of list rows (episodes by default)
+   * @returns false when the page offers no way to load more
+   */
+  private async loadMoreRows(page: Page, rowSelector: string = RESOURCE_ROW_SELECTOR): Promise<boolean> {
+    if (await this.clickFirst(page, LOAD_MORE_SELECTORS)) {
+      await page.waitForLoadState('networkidle', { timeout: this.timeout });
+      return true;
+    }
+
+    const next = await this.findVisible(page, NEXT_PAGE_SELECTORS);
+    if (next) {
+      const disabled = await next.evaluate(node => {
+        const el = node as Element;
+        return el.hasAttribute('disabled')
+          || el.getAttribute('aria-disabled') === 'true'
+          || /disabled/.test(typeof el.className === 'string' ? el.className : '');
+      });
+      if (disabled) {
+        return false;
+      }
+      await next.click();
+      await page.waitForLoadState('networkidle', { timeout: this.timeout });
+      await page.waitForTimeout(500);
+      return true;
     }
+
+    // Infinite scroll: bring the last row into view and let the page fetch more
+    await page.locator(rowSelector).last().scrollIntoViewIfNeeded().catch(() => undefined);
+    await page.evaluate(() => window.scrollTo(0, document.body.scrollHeight));
+    await page.waitForLoadState('networkidle', { timeout: this.timeout });
+    await page.waitForTimeout(1000);
+    return true;
   }
 
   /**
    * Publish a resource
-   * @param resourceId - Format: "showId:resourceIndex" or just resource ID
-   * @param options - Publishing options, can include showId
+   * @param resourceId - Format: "showId:resourceId" or just resource ID
+   * @param options - Publishing options, can include showId and expected titles
    */
   async publishResource(resourceId: string, options?: PublishOptions): Promise<AdapterResult<PublishResult>> {
     try {
-      // Parse showId from resourceId if format is "showId:resourceIndex"
+      // Parse showId from resourceId if format is "showId:resourceId"
       let showId: string;
-      let resourceIndex: string;
+      let targetId: string;
 
       if (resourceId.includes(':')) {
-        [showId, resourceIndex] = resourceId.split(':');
+        [showId, targetId] = resourceId.split(':');
       } else if (options?.showId) {
         showId = options.showId;
-        resourceIndex = resourceId;
+        targetId = resourceId;
       } else {
-        return this.failure('Invalid resource ID format. Please provide showId:resourceIndex or include showId in options.');
+        return this.failure('Invalid resource ID format. Please provide showId:resourceId or include showId in options.');
+      }
+
+      if (options?.scheduledAt && options.scheduledAt.getTime() <= Date.now()) {
+        return this.failure(`Scheduled time is in the past: ${options.scheduledAt.toISOString()}`, ErrorCode.VALIDATION_ERROR);
       }
 
       this.logger.debug(`Publishing resource: ${resourceId} from show: ${showId}`, {
@@ -467,7 +1367,7 @@ export class PlaywrightAdapter extends BaseAdapter {
         module: 'playwright-adapter',
         action: 'publishResource'
       });
-      await this.navigateTo(`/podcasts/${showId}/home`);
+      await this.navigateTo(this.showHomePath(showId));
 
       // Step 2: Click "资源库" (Resource Library)
       this.logger.debug('Looking for 资源库 button', {
@@ -526,75 +1426,140 @@ export class PlaywrightAdapter extends BaseAdapter {
       // Wait for resource library page to load
       await page.waitForTimeout(3000);
 
-      // Step 3: Find and click "作为单集发布" for the target resource
-      this.logger.debug('Looking for "作为单集发布" button', {
+      // Step 3: Find the target resource by ID and click its "作为单集发布" button
+      this.logger.debug(`Looking for resource ${targetId} in library`, {
         module: 'playwright-adapter',
         action: 'publishResource'
       });
 
-      // Find the publish button by index or text
-      const publishFound = await page.evaluate((index) => {
-        // Look for buttons with text containing "作为单集发布" or "发布"
-        const buttons = Array.from(document.querySelectorAll('button, a'));
-        let publishCount = 0;
+      const rows = (await this.scanResources(page)).filter(row => row.id === targetId && row.hasPublishButton);
 
-        for (let i = 0; i < buttons.length; i++) {
-          const btn = buttons[i];
-          const text = btn.textContent || '';
+      if (rows.length === 0) {
+        return this.failure(`Resource not found in library: ${targetId}`, ErrorCode.PUBLISH_FAILED);
+      }
 
-          if (text.includes('作为单集发布') || text.includes('发布')) {
-            if (publishCount === parseInt(index)) {
-              (btn as HTMLElement).click();
-              return true;
-            }
-            publishCount++;
-          }
-        }
-        return false;
-      }, resourceIndex);
+      // Verify the title before clicking so a reordered list cannot publish the wrong episode.
+      // The row's title is checked again on the publish page, also when the caller gave none
+      const row = rows[rows.length - 1];
+      const expectedTitle = options?.expectedTitles?.[targetId];
+
+      if (!row.title) {
+        return this.failure(`Could not read the title of resource ${targetId}, refusing to publish unchecked`, ErrorCode.VALIDATION_ERROR);
+      }
 
-      if (!publishFound) {
-        return this.failure(`Publish button not found for resource index: ${resourceIndex}`);
+      if (expectedTitle && !titlesMatch(row.title, expectedTitle)) {
+        this.logger.warn(`Title mismatch for resource ${targetId}`, {
+          module: 'playwright-adapter',
+          action: 'publishResource',
+          expectedTitle,
+          actualTitle: row.title
+        });
+        return this.failure(
+          `Title mismatch for resource ${targetId}: expected "${expectedTitle}", found "${row.title}"`,
+          ErrorCode.VALIDATION_ERROR
+        );
       }
 
+      const publishButton = page
+        .locator(`[${RESOURCE_ROW_ATTRIBUTE}="${targetId}"]`)
+        .last()
+        .locator('button, a')
+        .filter({ hasText: '发布' })
+        .first();
+
+      await publishButton.click();
+
       // Wait for publish page to load
       await page.waitForTimeout(3000);
 
-      // Step 4: On the publish page, modify title if needed (max 60 characters)
+      // Step 4: On the publish page, normalize the title with the configured policy
       this.logger.debug('Processing publish page', {
         module: 'playwright-adapter',
         action: 'publishResource'
       });
 
-      const titleProcessed = await page.evaluate(() => {
-        // Find title input
-        const titleInput = document.querySelector('input[name*="title"], textarea[name*="title"], [class*="title"] input, [class*="title"] textarea') as HTMLInputElement | HTMLTextAreaElement | null;
+      const appliedOverrides: PublishOverrides = {};
+      const override = this.getPublishOverride(targetId, options);
+      const titleInput = await this.findVisible(page, TITLE_INPUT_SELECTORS);
 
-        if (titleInput && titleInput.value) {
-          const originalTitle = titleInput.value;
-          // Truncate from the beginning if more than 60 characters (keep the last 60 chars)
-          if (originalTitle.length > 60) {
-            titleInput.value = originalTitle.substring(originalTitle.length - 60);
-            return { truncated: true, originalLength: originalTitle.length, newLength: 60 };
-          }
-          return { truncated: false, length: originalTitle.length };
-        }
-        return { truncated: false, error: 'Title input not found' };
-      });
+      if (!titleInput) {
+        return this.failure('Title input not found, cannot verify the title', ErrorCode.PUBLISH_FAILED);
+      }
 
-      if (titleProcessed.error) {
-        this.logger.warn('Could not find title input', {
-          module: 'playwright-adapter',
-          action: 'publishResource'
-        });
-      } else if (titleProcessed.truncated) {
-        this.logger.info(`Title truncated from ${titleProcessed.originalLength} to ${titleProcessed.newLength} characters`, {
+      // The publish page must belong to the row that was clicked
+      const pageTitle = await titleInput.inputValue();
+      if (!titlesMatch(row.title, pageTitle)) {
+        return this.failure(
+          `Publish page of resource ${targetId} shows "${pageTitle}", expected "${row.title}"`,
+          ErrorCode.VALIDATION_ERROR
+        );
+      }
+
+      const currentTitle = override?.title || pageTitle;
+      const normalized = await normalizeTitle(
+        currentTitle,
+        options?.titlePolicy ?? DEFAULT_TITLE_POLICY,
+        options?.titleShortener
+      );
+
+      if (!normalized.accepted) {
+        return this.failure(`Title rejected by policy: ${normalized.reason}`, ErrorCode.VALIDATION_ERROR);
+      }
+
+      if (override?.title || normalized.changed) {
+        await titleInput.fill(normalized.title);
+      }
+      if (override?.title) {
+        appliedOverrides.title = normalized.title;
+      }
+
+      if (normalized.changed) {
+        appliedOverrides.titleStrategy = normalized.strategy;
+
+        this.logger.info(`Title normalized (${normalized.strategy}): ${normalized.title}`, {
           module: 'playwright-adapter',
-          action: 'publishResource'
+          action: 'publishResource',
+          originalLength: titleLength(normalized.original),
+          newLength: titleLength(normalized.title)
         });
       }
 
-      // Step 5: Check "阅读并同意" (Read and agree)
+      // Step 5: Apply description and notification overrides
+      const description = override?.description ?? options?.description;
+      if (description) {
+        const mode = override?.description !== undefined ? 'replace' : options?.descriptionMode ?? 'replace';
+        if (!await this.applyDescription(page, description, mode)) {
+          return this.failure('Shownotes editor not found or description not applied', ErrorCode.PUBLISH_FAILED);
+        }
+        appliedOverrides.description = mode === 'append' ? 'appended' : 'replaced';
+      }
+
+      if (options?.notify !== undefined) {
+        const notifySet = await this.setNotifySwitch(page, options.notify);
+
+        if (notifySet === null) {
+          // Never publish with notifications on when the caller asked for them off
+          if (!options.notify) {
+            return this.failure('Subscriber notification switch not found', ErrorCode.PUBLISH_FAILED);
+          }
+          this.logger.warn('Notification switch not found, keeping platform default', {
+            module: 'playwright-adapter',
+            action: 'publishResource'
+          });
+        } else if (notifySet) {
+          appliedOverrides.notify = options.notify;
+        }
+      }
+
+      // Step 6: Configure scheduled release
+      if (options?.scheduledAt) {
+        const scheduleError = await this.configureSchedule(page, options.scheduledAt, options.timeZone);
+        if (scheduleError) {
+          return this.failure(scheduleError, ErrorCode.PUBLISH_FAILED);
+        }
+      }
+
+      // Step 7: Check "阅读并同意" (Read and agree)
       this.logger.debug('Looking for agreement checkbox', {
         module: 'playwright-adapter',
         action: 'publishResource'
@@ -622,28 +1587,25 @@ export class PlaywrightAdapter extends BaseAdapter {
         });
       }
 
-      // Step 6: Click "创建" (Create) button
+      // Step 8: Click "创建" (Create) button
       this.logger.debug('Clicking create button', {
         module: 'playwright-adapter',
         action: 'publishResource'
       });
 
-      const createClicked = await page.evaluate(() => {
-        // Look for button with text containing "创建" or "发布"
-        const buttons = Array.from(document.querySelectorAll('button[type="submit"], button:not([type]), button[type="button"]'));
-        for (const btn of buttons) {
-          const text = btn.textContent || '';
-          if (text.includes('创建') || text.includes('发布')) {
-            (btn as HTMLElement).click();
-            return true;
-          }
-        }
-        return false;
-      });
-
-      if (!createClicked) {
-        return this.failure('Create/Publish button not found');
+      // Scoped to the publish dialog when the form opens in one
+      const dialog = page.locator('[role="dialog"]:visible');
+      const scope = await dialog.count() > 0 ? dialog.last() : page;
+      const createButtons = scope.getByRole('button', { name: CREATE_BUTTON_NAME });
+      const createCount = await createButtons.count();
+
+      if (createCount !== 1) {
+        return this.failure(
+          createCount === 0 ? 'Create button not found' : `Create button is ambiguous (${createCount} matches)`,
+          ErrorCode.PUBLISH_FAILED
+        );
       }
+      await createButtons.click();
 
       // Wait for navigation or success message
       await page.waitForTimeout(5000);
@@ -655,21 +1617,1118 @@ export class PlaywrightAdapter extends BaseAdapter {
         return linkEl?.getAttribute('href') || undefined;
       });
 
-      this.logger.info(`Resource published: ${resourceId}`, {
+      // Confirm the platform accepted the schedule
+      if (options?.scheduledAt) {
+        const verifyError = await this.verifyScheduled(showId, targetId);
+        if (verifyError) {
+          return this.failure(verifyError, ErrorCode.PUBLISH_FAILED);
+        }
+      }
+
+      this.logger.info(`Resource ${options?.scheduledAt ? 'scheduled' : 'published'}: ${resourceId}`, {
         module: 'playwright-adapter',
         action: 'publishResource',
         resourceId,
-        publishedUrl
+        publishedUrl,
+        scheduledAt: options?.scheduledAt?.toISOString(),
+        overrides: appliedOverrides
       });
 
       return this.success({
         success: true,
         resourceId,
-        publishedUrl
+        publishedUrl,
+        scheduledAt: options?.scheduledAt?.toISOString(),
+        appliedOverrides
       });
 
     } catch (error) {
       return this.handleException(error, 'publishResource');
     }
   }
+
+  /**
+   * Set the subscriber notification switch
+   * @returns true if toggled, false if already in the desired state, null if not found
+   */
+  private async setNotifySwitch(page: Page, enabled: boolean): Promise<boolean | null> {
+    const state = await page.evaluate((selector) => {
+      // Find the switch nearest to a label mentioning notifications
+      const labels = Array.from(document.querySelectorAll('label, span, div, p'))
+        .filter(el => el.children.length <= 3 && /通知/.test(el.textContent || '') && (el.textContent || '').length < 40);
+
+      for (const label of labels) {
+        let container: Element | null = label;
+        for (let depth = 0; depth < 3 && container; depth++) {
+          const control = container.querySelector(selector) as HTMLElement | null;
+          if (control) {
+            const input = control as HTMLInputElement;
+            const on = control.getAttribute('aria-checked') === 'true'
+              || input.checked === true
+              || /checked|active|\bon\b/.test(typeof control.className === 'string' ? control.className : '');
+            control.setAttribute('data-xyz-notify-switch', 'true');
+            return { on };
+          }
+          container = container.parentElement;
+        }
+      }
+      return null;
+    }, NOTIFY_SWITCH_SELECTOR);
+
+    if (!state) {
+      return null;
+    }
+
+    if (state.on === enabled) {
+      return false;
+    }
+
+    await page.click('[data-xyz-notify-switch="true"]');
+    await page.waitForTimeout(300);
+
+    this.logger.info(`Subscriber notification ${enabled ? 'enabled' : 'disabled'}`, {
+      module: 'playwright-adapter',
+      action: 'setNotifySwitch'
+    });
+
+    return true;
+  }
+
+  /**
+   * Replace or append the shownotes with Markdown converted to the editor's format
+   * @returns true if the description was applied
+   */
+  private async applyDescription(page: Page, markdown: string, mode: DescriptionMode): Promise<boolean> {
+    const editor = await this.findVisible(page, SHOWNOTES_EDITOR_SELECTORS);
+    if (!editor) {
+      return false;
+    }
+
+    const plain = markdownToText(markdown);
+    const isRichText = await editor.evaluate(el => (el as HTMLElement).isContentEditable);
+
+    if (isRichText) {
+      // Insert through the editing pipeline so the editor's model sees the change
+      await editor.evaluate((el, args) => {
+        const target = el as HTMLElement;
+        target.focus();
+
+        const selection = window.getSelection()!;
+        const range = document.createRange();
+        range.selectNodeContents(target);
+        if (args.mode === 'append') {
+          range.collapse(false);
+        }
+        selection.removeAllRanges();
+        selection.addRange(range);
+
+        const html = args.mode === 'append' ? `<p><br></p>${args.html}` : args.html;
+        if (!document.execCommand('insertHTML', false, html)) {
+          const data = new DataTransfer();
+          data.setData('text/html', html);
+          data.setData('text/plain', args.plain);
+          target.dispatchEvent(new ClipboardEvent('paste', { clipboardData: data, bubbles: true, cancelable: true }));
+        }
+      }, { html: markdownToHtml(markdown), plain, mode });
+    } else {
+      const current = mode === 'append' ? await editor.inputValue() : '';
+      await editor.fill(current ? `${current}\n\n${plain}` : plain);
+    }
+
+    // Verify using the first line of the supplied text
+    const probe = plain.split('\n')[0].trim().slice(0, 20);
+    const content = await editor.evaluate(el => (el as HTMLInputElement).value ?? el.textContent ?? '');
+    const applied = content.replace(/\s+/g, ' ').includes(probe.replace(/\s+/g, ' '));
+
+    this.logger.info(`Description ${mode === 'append' ? 'appended' : 'replaced'}${applied ? '' : ' (not verified)'}`, {
+      module: 'playwright-adapter',
+      action: 'applyDescription',
+      richText: isRichText
+    });
+
+    return applied;
+  }
+
+  /**
+   * Switch the publish page to scheduled release and set date/time
+   * @param timeZone - Zone the release time was given in; default: the browser's
+   * @returns Error message, or null when the schedule was set
+   */
+  private async configureSchedule(page: Page, scheduledAt: Date, timeZone?: string): Promise<string | null> {
+    if (!await this.clickFirst(page, SCHEDULE_TOGGLE_SELECTORS)) {
+      return 'Scheduled release option not found';
+    }
+    await page.waitForTimeout(500);
+
+    // Pickers take wall-clock time; enter it in the zone the user gave the
+    // time in, not whatever zone the browser happens to run in
+    timeZone = timeZone || await page.evaluate(() => Intl.DateTimeFormat().resolvedOptions().timeZone);
+    const [date, time] = formatInTimeZone(scheduledAt, timeZone).split(' ');
+
+    this.logger.debug(`Setting schedule to ${date} ${time} (${timeZone})`, {
+      module: 'playwright-adapter',
+      action: 'configureSchedule'
+    });
+
+    const combined = await this.findVisible(page, SCHEDULE_DATETIME_SELECTORS);
+    if (combined) {
+      const type = await combined.getAttribute('type');
+      await combined.fill(type === 'datetime-local' ? `${date}T${time}` : `${date} ${time}`);
+      await combined.press('Enter');
+    } else {
+      const dateInput = await this.findVisible(page, SCHEDULE_DATE_SELECTORS);
+      const timeInput = await this.findVisible(page, SCHEDULE_TIME_SELECTORS);
+      if (!dateInput || !timeInput) {
+        return 'Schedule date/time inputs not found';
+      }
+
+      await dateInput.fill(date);
+      await dateInput.press('Enter');
+      await timeInput.fill(time);
+      await timeInput.press('Enter');
+    }
+
+    // Read the pickers back; they may reformat the value (e.g. 2026/11/01)
+    const selectors = [...SCHEDULE_DATETIME_SELECTORS, ...SCHEDULE_DATE_SELECTORS, ...SCHEDULE_TIME_SELECTORS].join(', ');
+    const shown = await page.$$eval(selectors, inputs => inputs.map(input => (input as HTMLInputElement).value).join(' '));
+    const digits = shown.replace(/\D/g, '');
+
+    if (!digits.includes(date.replace(/\D/g, '')) || !digits.includes(time.replace(/\D/g, ''))) {
+      return `Schedule was not applied (expected ${date} ${time}, page shows "${shown.trim()}")`;
+    }
+
+    return null;
+  }
+
+  /**
+   * Check that a resource is listed as scheduled after publishing
+   * @returns Error message, or null when the resource is scheduled
+   */
+  private async verifyScheduled(showId: string, resourceId: string): Promise<string | null> {
+    const result = await this.getResources(showId);
+    if (!result.success) {
+      return `Could not verify schedule of ${resourceId}: ${result.error}`;
+    }
+
+    const resource = result.data?.find(r => r.id === resourceId);
+    if (!resource) {
+      return `Could not verify schedule: resource ${resourceId} not found after publishing`;
+    }
+
+    if (resource.status !== ResourceStatus.SCHEDULED) {
+      return `Resource ${resourceId} is ${resource.status} instead of scheduled`;
+    }
+
+    return null;
+  }
+
+  // =====================================================
+  // Upload
+  // =====================================================
+
+  /**
+   * Upload a local audio file as a new draft resource
+   */
+  async uploadResource(options: UploadOptions): Promise<AdapterResult<Resource>> {
+    let capture: ResponseCapture | null = null;
+
+    try {
+      for (const file of [options.audioPath, options.coverPath]) {
+        if (file && !fs.existsSync(file)) {
+          return this.failure(`File not found: ${file}`, ErrorCode.UPLOAD_FAILED);
+        }
+      }
+
+      this.logger.info(`Uploading ${options.audioPath} to show: ${options.showId}`, {
+        module: 'playwright-adapter',
+        action: 'uploadResource',
+        showId: options.showId
+      });
+
+      const page = await this.getPage();
+
+      // Step 1: Open the episode creation page
+      await this.navigateTo(this.showHomePath(options.showId));
+
+      if (!await this.clickFirst(page, CREATE_EPISODE_SELECTORS)) {
+        return this.failure('Create episode button not found', ErrorCode.UPLOAD_FAILED);
+      }
+      await page.waitForLoadState('networkidle', { timeout: this.timeout });
+
+      // Step 2: Select the audio file
+      options.onProgress?.({ stage: 'uploading', percent: 0 });
+
+      const audioInput = await page.$(AUDIO_INPUT_SELECTOR);
+      if (audioInput) {
+        await audioInput.setInputFiles(options.audioPath);
+      } else {
+        const [chooser] = await Promise.all([
+          page.waitForEvent('filechooser', { timeout: this.timeout }),
+          this.clickFirst(page, AUDIO_UPLOAD_TRIGGER_SELECTORS)
+        ]);
+        await chooser.setFiles(options.audioPath);
+      }
+
+      // Step 3: Wait for upload and transcoding
+      const uploadError = await this.waitForUpload(page, options.onProgress);
+      if (uploadError) {
+        return this.failure(uploadError, ErrorCode.UPLOAD_FAILED);
+      }
+
+      // Step 4: Fill in episode details
+      options.onProgress?.({ stage: 'saving' });
+
+      if (!await this.fillFirst(page, TITLE_INPUT_SELECTORS, options.title)) {
+        return this.failure('Title input not found', ErrorCode.UPLOAD_FAILED);
+      }
+
+      if (options.description && !await this.fillFirst(page, DESCRIPTION_INPUT_SELECTORS, options.description)) {
+        this.logger.warn('Description input not found, skipping description', {
+          module: 'playwright-adapter',
+          action: 'uploadResource'
+        });
+      }
+
+      if (options.coverPath) {
+        const coverInput = await page.$(COVER_INPUT_SELECTOR);
+        if (!coverInput) {
+          return this.failure('Cover upload input not found', ErrorCode.UPLOAD_FAILED);
+        }
+        await coverInput.setInputFiles(options.coverPath);
+        await page.waitForTimeout(2000);
+      }
+
+      // Step 5: Save as draft and resolve the new resource ID
+      capture = this.captureJsonResponses(page);
+
+      if (!await this.clickFirst(page, SAVE_DRAFT_SELECTORS)) {
+        return this.failure('Save button not found', ErrorCode.UPLOAD_FAILED);
+      }
+      await page.waitForLoadState('networkidle', { timeout: this.timeout });
+
+      const resource = await this.resolveUploadedResource(page, options, await capture.stop());
+      if (!resource) {
+        return this.failure('Upload finished but the new resource was not found in the library', ErrorCode.UPLOAD_FAILED);
+      }
+
+      await this.syncStorageState();
+
+      this.logger.info(`Resource uploaded: ${resource.id}`, {
+        module: 'playwright-adapter',
+        action: 'uploadResource',
+        showId: options.showId,
+        resourceId: resource.id
+      });
+
+      return this.success(resource);
+
+    } catch (error) {
+      const result = this.handleException<Resource>(error, 'uploadResource');
+      return { ...result, errorCode: ErrorCode.UPLOAD_FAILED };
+    } finally {
+      await capture?.stop();
+    }
+  }
+
+  /**
+   * Track upload progress and transcoding
+   * @returns Error message, or null once the audio is ready
+   */
+  private async waitForUpload(page: Page, onProgress?: UploadOptions['onProgress']): Promise<string | null> {
+    const deadline = Date.now() + UPLOAD_TIMEOUT;
+    let stage: UploadStage = 'uploading';
+    let lastPercent = -1;
+
+    while (Date.now() < deadline) {
+      const snapshot = await page.evaluate(() => ({
+        progressText: document.querySelector('[class*="progress"]')?.textContent || '',
+        bodyText: document.body.innerText
+      }));
+
+      const failure = snapshot.bodyText.match(/(上传失败|转码失败|格式不支持)[^\n]*/);
+      if (failure) {
+        return failure[0].trim();
+      }
+
+      const percentMatch = snapshot.progressText.match(/(\d{1,3})\s*%/);
+      if (percentMatch) {
+        const percent = Math.min(100, parseInt(percentMatch[1]));
+        if (percent !== lastPercent) {
+          lastPercent = percent;
+          onProgress?.({ stage: 'uploading', percent });
+        }
+      }
+
+      const transcoding = /转码中|处理中/.test(snapshot.bodyText);
+      if (transcoding && stage !== 'transcoding') {
+        stage = 'transcoding';
+        onProgress?.({ stage });
+      }
+
+      const uploaded = lastPercent >= 100 || /上传成功|上传完成|重新上传/.test(snapshot.bodyText);
+      if (uploaded && !transcoding) {
+        return null;
+      }
+
+      await page.waitForTimeout(UPLOAD_POLL_INTERVAL);
+    }
+
+    return `Upload did not finish within ${UPLOAD_TIMEOUT / 60000} minutes`;
+  }
+
+  /**
+   * Find the resource created by an upload
+   *
+   * Tries the save responses first, then the page URL, then the show page.
+   */
+  private async resolveUploadedResource(page: Page, options: UploadOptions, payloads: unknown[]): Promise<Resource | null> {
+    const fromNetwork = payloads
+      .flatMap(payload => parseResources(payload, options.showId))
+      .find(resource => titlesMatch(resource.title, options.title));
+
+    if (fromNetwork) {
+      return fromNetwork;
+    }
+
+    const now = new Date().toISOString();
+    const draft = (id: string): Resource => ({
+      id,
+      title: options.title,
+      description: options.description,
+      status: ResourceStatus.DRAFT,
+      createdAt: now,
+      updatedAt: now
+    });
+
+    for (const pattern of RESOURCE_ID_PATTERNS) {
+      const match = page.url().match(pattern);
+      if (match) {
+        return draft(match[1]);
+      }
+    }
+
+    await this.navigateTo(this.showHomePath(options.showId));
+    const row = (await this.scanResources(page)).find(r => titlesMatch(r.title, options.title));
+    return row ? draft(row.id) : null;
+  }
+
+  // =====================================================
+  // Episode Editing
+  // =====================================================
+
+  /**
+   * Get editable metadata of a published episode
+   * @param episodeId - Format: "showId:episodeId"
+   */
+  async getEpisode(episodeId: string): Promise<AdapterResult<EpisodeDetails>> {
+    try {
+      const { showId, id } = this.parseEpisodeRef(episodeId);
+      if (!showId) {
+        return this.failure('Invalid episode ID format. Please provide showId:episodeId.', ErrorCode.VALIDATION_ERROR);
+      }
+
+      const page = await this.getPage();
+      if (!await this.openEpisodeEditor(page, showId, id)) {
+        return this.failure(`Episode not found or not editable: ${id}`, ErrorCode.UPDATE_FAILED);
+      }
+
+      return this.success(await this.readEpisodeForm(page, showId, id));
+
+    } catch (error) {
+      return this.handleException(error, 'getEpisode');
+    }
+  }
+
+  /**
+   * Update metadata of a published episode
+   * @param episodeId - Format: "showId:episodeId"
+   */
+  async updateEpisode(episodeId: string, patch: EpisodePatch): Promise<AdapterResult<EpisodeDetails>> {
+    try {
+      const { showId, id } = this.parseEpisodeRef(episodeId);
+      if (!showId) {
+        return this.failure('Invalid episode ID format. Please provide showId:episodeId.', ErrorCode.VALIDATION_ERROR);
+      }
+
+      this.logger.info(`Updating episode: ${id}`, {
+        module: 'playwright-adapter',
+        action: 'updateEpisode',
+        showId,
+        fields: Object.keys(patch)
+      });
+
+      const page = await this.getPage();
+      if (!await this.openEpisodeEditor(page, showId, id)) {
+        return this.failure(`Episode not found or not editable: ${id}`, ErrorCode.UPDATE_FAILED);
+      }
+
+      const current = await this.readEpisodeForm(page, showId, id);
+
+      if (patch.title !== undefined && !await this.fillFirst(page, TITLE_INPUT_SELECTORS, patch.title)) {
+        return this.failure('Title input not found', ErrorCode.UPDATE_FAILED);
+      }
+
+      // Chapters live in the shownotes, so either change rewrites the whole text
+      if (patch.shownotes !== undefined || patch.chapters !== undefined) {
+        const shownotes = composeShownotes(patch.shownotes ?? current.shownotes, patch.chapters ?? current.chapters);
+        if (!await this.applyDescription(page, shownotes, 'replace')) {
+          return this.failure('Shownotes editor not found or shownotes not applied', ErrorCode.UPDATE_FAILED);
+        }
+      }
+
+      if (patch.coverPath) {
+        const coverInput = await page.$(COVER_INPUT_SELECTOR);
+        if (!coverInput) {
+          return this.failure('Cover upload input not found', ErrorCode.UPDATE_FAILED);
+        }
+        await coverInput.setInputFiles(patch.coverPath);
+        await page.waitForTimeout(2000);
+      }
+
+      if (!await this.clickFirst(page, SAVE_EPISODE_SELECTORS)) {
+        return this.failure('Save button not found', ErrorCode.UPDATE_FAILED);
+      }
+      await page.waitForLoadState('networkidle', { timeout: this.timeout });
+      await page.waitForTimeout(1000);
+
+      // Re-open the editor to confirm the platform kept the changes
+      const updated = await this.getEpisode(episodeId);
+      if (!updated.success || !updated.data) {
+        return this.failure(updated.error || 'Could not verify the update', ErrorCode.UPDATE_FAILED);
+      }
+
+      if (patch.title !== undefined && updated.data.title !== patch.title.trim()) {
+        return this.failure(`Title not saved: expected "${patch.title}", found "${updated.data.title}"`, ErrorCode.UPDATE_FAILED);
+      }
+
+      this.logger.info(`Episode updated: ${id}`, {
+        module: 'playwright-adapter',
+        action: 'updateEpisode',
+        showId
+      });
+
+      return updated;
+
+    } catch (error) {
+      const result = this.handleException<EpisodeDetails>(error, 'updateEpisode');
+      return { ...result, errorCode: ErrorCode.UPDATE_FAILED };
+    }
+  }
+
+  /**
+   * Open the edit form of an episode from the show homepage
+   * @returns false when the episode or its edit button was not found
+   */
+  private async openEpisodeEditor(page: Page, showId: string, episodeId: string): Promise<boolean> {
+    await this.navigateTo(this.showHomePath(showId));
+    await page.waitForTimeout(2000);
+
+    const rows = (await this.scanResources(page)).filter(row => row.id === episodeId);
+    if (rows.length === 0) {
+      return false;
+    }
+
+    const row = page.locator(`[${RESOURCE_ROW_ATTRIBUTE}="${episodeId}"]`).last();
+    const editButton = row.locator('button, a').filter({ hasText: '编辑' }).first();
+
+    if (await editButton.count() > 0) {
+      await editButton.click();
+    } else {
+      // No inline edit button: open the episode page and look for one there
+      await row.locator('a').first().click();
+      await page.waitForLoadState('networkidle', { timeout: this.timeout });
+      if (!await this.clickFirst(page, EDIT_EPISODE_SELECTORS)) {
+        return false;
+      }
+    }
+
+    await page.waitForLoadState('networkidle', { timeout: this.timeout });
+    return await this.findVisible(page, TITLE_INPUT_SELECTORS) !== null;
+  }
+
+  /**
+   * Read the current values from an open episode edit form
+   */
+  private async readEpisodeForm(page: Page, showId: string, episodeId: string): Promise<EpisodeDetails> {
+    const titleInput = await this.findVisible(page, TITLE_INPUT_SELECTORS);
+    const title = titleInput ? (await titleInput.inputValue()).trim() : '';
+
+    let markdown = '';
+    const editor = await this.findVisible(page, SHOWNOTES_EDITOR_SELECTORS);
+    if (editor) {
+      const isRichText = await editor.evaluate(el => (el as HTMLElement).isContentEditable);
+      markdown = isRichText
+        ? htmlToMarkdown(await editor.evaluate(el => (el as HTMLElement).innerHTML))
+        : await editor.inputValue();
+    }
+
+    const coverUrl = await page.$eval(COVER_IMAGE_SELECTOR, el => (el as HTMLImageElement).src).catch(() => undefined);
+    const { body, chapters } = extractChapters(markdown);
+    const now = new Date().toISOString();
+
+    return {
+      id: episodeId,
+      showId,
+      title,
+      description: markdownToText(markdown),
+      coverUrl,
+      status: ResourceStatus.PUBLISHED,
+      shownotes: body,
+      chapters,
+      createdAt: now,
+      updatedAt: now
+    };
+  }
+
+  // =====================================================
+  // Statistics
+  // =====================================================
+
+  /**
+   * Get show statistics for a date range
+   */
+  async getShowStats(showId: string, range: StatsRange): Promise<AdapterResult<ShowStats>> {
+    let capture: ResponseCapture | null = null;
+
+    try {
+      const page = await this.getPage();
+      capture = this.playwrightConfig.dataSource !== 'dom' ? this.captureJsonResponses(page) : null;
+
+      await this.navigateTo(this.showHomePath(showId));
+      if (!await this.clickFirst(page, DATA_PAGE_SELECTORS)) {
+        return this.failure('Data page link not found', ErrorCode.INVALID_RESPONSE);
+      }
+      await page.waitForLoadState('networkidle', { timeout: this.timeout });
+
+      // Pick the shortest range tab covering the requested start date
+      const days = Math.ceil((Date.now() - Date.parse(range.from)) / (24 * 3600 * 1000)) + 1;
+      const tab = STATS_RANGE_TABS.find(([tabDays]) => tabDays >= days) ?? STATS_RANGE_TABS[STATS_RANGE_TABS.length - 1];
+      if (await this.clickFirst(page, [`text=${tab[1]}`])) {
+        await page.waitForLoadState('networkidle', { timeout: this.timeout });
+      }
+
+      const stats = await this.collectStats(page, capture);
+      capture = null;
+      if (!stats) {
+        return this.failure('No statistics found on the data page', ErrorCode.INVALID_RESPONSE);
+      }
+
+      this.logger.info(`Collected show statistics: ${stats.daily.length} days`, {
+        module: 'playwright-adapter',
+        action: 'getShowStats',
+        showId
+      });
+
+      return this.success({
+        showId,
+        range,
+        totals: stats.totals,
+        daily: stats.daily.filter(point => point.date >= range.from && point.date <= range.to)
+      });
+
+    } catch (error) {
+      return this.handleException(error, 'getShowStats');
+    } finally {
+      await capture?.stop();
+    }
+  }
+
+  /**
+   * Get statistics of a single episode
+   * @param episodeId - Format: "showId:episodeId"
+   */
+  async getEpisodeStats(episodeId: string): Promise<AdapterResult<EpisodeStats>> {
+    let capture: ResponseCapture | null = null;
+
+    try {
+      const { showId, id } = this.parseEpisodeRef(episodeId);
+      if (!showId) {
+        return this.failure('Invalid episode ID format. Please provide showId:episodeId.', ErrorCode.VALIDATION_ERROR);
+      }
+
+      const page = await this.getPage();
+      if (!await this.locateResourceRow(page, showId, id, false)) {
+        return this.failure(`Episode not found: ${id}`, ErrorCode.INVALID_RESPONSE);
+      }
+
+      capture = this.playwrightConfig.dataSource !== 'dom' ? this.captureJsonResponses(page) : null;
+
+      const row = page.locator(`[${RESOURCE_ROW_ATTRIBUTE}="${id}"]`).last();
+      const dataButton = row.locator('button, a').filter({ hasText: '数据' }).first();
+
+      if (await dataButton.count() > 0) {
+        await dataButton.click();
+      } else {
+        await row.locator('a').first().click();
+        await page.waitForLoadState('networkidle', { timeout: this.timeout });
+        await this.clickFirst(page, DATA_PAGE_SELECTORS);
+      }
+      await page.waitForLoadState('networkidle', { timeout: this.timeout });
+
+      const stats = await this.collectStats(page, capture);
+      capture = null;
+      if (!stats) {
+        return this.failure('No statistics found for episode', ErrorCode.INVALID_RESPONSE);
+      }
+
+      return this.success({ episodeId: id, showId, ...stats });
+
+    } catch (error) {
+      return this.handleException(error, 'getEpisodeStats');
+    } finally {
+      await capture?.stop();
+    }
+  }
+
+  /**
+   * Read statistics from captured responses, filling gaps from the summary cards
+   * @returns null when the page showed no statistics at all
+   */
+  private async collectStats(page: Page, capture: ResponseCapture | null): Promise<{ totals: StatsTotals; daily: StatsPoint[] } | null> {
+    const payloads = capture ? await capture.stop() : [];
+    const totals: StatsTotals = {};
+
+    const fill = (values: StatsTotals) => {
+      for (const [key, value] of Object.entries(values) as [keyof StatsTotals, number | undefined][]) {
+        if (value !== undefined && totals[key] === undefined) {
+          totals[key] = value;
+        }
+      }
+    };
+
+    payloads.forEach(payload => fill(parseStatsTotals(payload)));
+
+    const daily = parseStatsPoints(payloads);
+
+    if (this.playwrightConfig.dataSource !== 'network') {
+      const cards = await page.evaluate(scanStatCards, STAT_CARD_LABELS);
+      fill(Object.fromEntries(
+        Object.entries(cards).map(([key, text]) => [key, parseStatValue(text)])
+      ) as StatsTotals);
+    }
+
+    if (daily.length === 0 && Object.keys(totals).length === 0) {
+      return null;
+    }
+
+    return { totals, daily };
+  }
+
+  // =====================================================
+  // Withdraw and Delete
+  // =====================================================
+
+  /**
+   * Withdraw a published episode
+   * @param episodeId - Format: "showId:episodeId"
+   */
+  async unpublishEpisode(episodeId: string): Promise<AdapterResult<void>> {
+    return this.performRowAction(episodeId, UNPUBLISH_ACTION);
+  }
+
+  /**
+   * Delete a resource from the show or its resource library
+   * @param resourceId - Format: "showId:resourceId"
+   */
+  async deleteResource(resourceId: string): Promise<AdapterResult<void>> {
+    return this.performRowAction(resourceId, DELETE_ACTION);
+  }
+
+  /**
+   * Cancel the scheduled release of a resource
+   * @param resourceId - Format: "showId:resourceId"
+   */
+  async cancelSchedule(resourceId: string): Promise<AdapterResult<void>> {
+    return this.performRowAction(resourceId, CANCEL_SCHEDULE_ACTION);
+  }
+
+  /**
+   * Find a resource row on the show homepage, then in the resource library
+   */
+  private async locateResourceRow(page: Page, showId: string, id: string, searchLibrary: boolean): Promise<ScannedResourceRow | undefined> {
+    await this.navigateTo(this.showHomePath(showId));
+    await page.waitForTimeout(2000);
+
+    let row = (await this.scanResources(page)).find(item => item.id === id);
+
+    if (!row && searchLibrary && await this.clickFirst(page, RESOURCE_LIBRARY_SELECTORS)) {
+      await page.waitForTimeout(3000);
+      row = (await this.scanResources(page)).find(item => item.id === id);
+    }
+
+    return row;
+  }
+
+  /**
+   * Click a row action (directly or from the row's overflow menu), confirm and verify
+   */
+  private async performRowAction(ref: string, action: RowAction): Promise<AdapterResult<void>> {
+    try {
+      const { showId, id } = this.parseEpisodeRef(ref);
+      if (!showId) {
+        return this.failure('Invalid resource ID format. Please provide showId:resourceId.', ErrorCode.VALIDATION_ERROR);
+      }
+
+      this.logger.info(`Running ${action.name} for ${id}`, {
+        module: 'playwright-adapter',
+        action: action.name,
+        showId
+      });
+
+      const page = await this.getPage();
+      if (!await this.locateResourceRow(page, showId, id, action.searchLibrary)) {
+        return this.failure(`Resource not found: ${id}`, ErrorCode.UPDATE_FAILED);
+      }
+
+      const row = page.locator(`[${RESOURCE_ROW_ATTRIBUTE}="${id}"]`).last();
+      if (!await this.clickRowAction(page, row, new RegExp(action.labels.join('|')), action.name)) {
+        return this.failure(`Action "${action.labels[0]}" not available for ${id}`, ErrorCode.UPDATE_FAILED);
+      }
+
+      // Reload and check the row's new state
+      const after = await this.locateResourceRow(page, showId, id, action.searchLibrary);
+      if (!action.isDone(after)) {
+        return this.failure(`${action.name} did not take effect for ${id}`, ErrorCode.UPDATE_FAILED);
+      }
+
+      this.logger.info(`${action.name} completed for ${id}`, {
+        module: 'playwright-adapter',
+        action: action.name,
+        showId
+      });
+
+      return this.success(undefined);
+
+    } catch (error) {
+      const result = this.handleException<void>(error, action.name);
+      return { ...result, errorCode: ErrorCode.UPDATE_FAILED };
+    }
+  }
+
+  // =====================================================
+  // Comments
+  // =====================================================
+
+  /**
+   * List a show's comments, newest first, loading more until the limit or `since` is reached
+   *
+   * Comments scraped from the DOM carry only the displayed time, which is
+   * parsed where possible; unreadable times count as "now".
+   */
+  async listComments(showId: string, options: CommentListOptions = {}): Promise<AdapterResult<Comment[]>> {
+    const dataSource = this.playwrightConfig.dataSource;
+    const limit = options.limit ?? DEFAULT_COMMENT_LIMIT;
+    let capture: ResponseCapture | null = null;
+
+    try {
+      const page = await this.getPage();
+      const collected = new Map<string, Comment>();
+
+      capture = dataSource !== 'dom' ? this.captureJsonResponses(page) : null;
+      if (!await this.openCommentPage(page, showId)) {
+        return this.failure('Comment page link not found', ErrorCode.INVALID_RESPONSE);
+      }
+
+      for (let round = 0; round < MAX_LIST_ROUNDS; round++) {
+        const before = collected.size;
+
+        if (capture) {
+          const payloads = await capture.stop();
+          capture = null;
+          payloads.flatMap(payload => parseComments(payload, showId)).forEach(comment => {
+            collected.set(comment.id, comment);
+          });
+        }
+
+        if (dataSource !== 'network') {
+          for (const row of await this.scanComments(page)) {
+            if (!collected.has(row.id)) {
+              collected.set(row.id, rowToComment(row, showId));
+            }
+          }
+        }
+
+        const comments = Array.from(collected.values());
+        const matches = comments.filter(comment => this.matchesCommentFilter(comment, options));
+        const reachedSince = options.since !== undefined
+          && comments.some(comment => Date.parse(comment.createdAt) <= options.since!.getTime());
+
+        if (matches.length >= limit || reachedSince || (round > 0 && collected.size === before)) {
+          break;
+        }
+
+        capture = dataSource !== 'dom' ? this.captureJsonResponses(page) : null;
+        if (!await this.loadMoreRows(page, COMMENT_ROW_SELECTOR)) {
+          break;
+        }
+      }
+
+      if (collected.size === 0 && dataSource === 'network') {
+        return this.failure('No comment data observed in network responses', ErrorCode.INVALID_RESPONSE);
+      }
+
+      const matches = Array.from(collected.values())
+        .filter(comment => this.matchesCommentFilter(comment, options))
+        .sort((a, b) => Date.parse(b.createdAt) - Date.parse(a.createdAt))
+        .slice(0, limit);
+
+      this.logger.info(`Listed ${matches.length} matching comments from ${collected.size} loaded`, {
+        module: 'playwright-adapter',
+        action: 'listComments',
+        showId
+      });
+
+      return this.success(matches);
+
+    } catch (error) {
+      return this.handleException(error, 'listComments');
+    } finally {
+      await capture?.stop();
+    }
+  }
+
+  /**
+   * Reply to a comment
+   * @param commentId - Format: "showId:commentId"
+   */
+  async replyComment(commentId: string, content: string): Promise<AdapterResult<Comment>> {
+    let capture: ResponseCapture | null = null;
+
+    try {
+      const { showId, id } = this.parseEpisodeRef(commentId);
+      if (!showId) {
+        return this.failure('Invalid comment ID format. Please provide showId:commentId.', ErrorCode.VALIDATION_ERROR);
+      }
+
+      const page = await this.getPage();
+      if (!await this.locateCommentRow(page, showId, id)) {
+        return this.failure(`Comment not found: ${id}`, ErrorCode.UPDATE_FAILED);
+      }
+
+      const row = page.locator(`[${COMMENT_ROW_ATTRIBUTE}="${id}"]`).last();
+      const replyButton = row.locator('button, a, span').filter({ hasText: /^回复$/ }).first();
+      if (await replyButton.count() === 0) {
+        return this.failure(`Reply is not available for comment ${id}`, ErrorCode.UPDATE_FAILED);
+      }
+      await replyButton.click();
+      await page.waitForTimeout(500);
+
+      if (!await this.fillFirst(page, REPLY_INPUT_SELECTORS, content)) {
+        return this.failure('Reply input not found', ErrorCode.UPDATE_FAILED);
+      }
+
+      capture = this.captureJsonResponses(page);
+      if (!await this.clickFirst(page, REPLY_SUBMIT_SELECTORS)) {
+        return this.failure('Reply submit button not found', ErrorCode.UPDATE_FAILED);
+      }
+      await page.waitForLoadState('networkidle', { timeout: this.timeout });
+
+      const payloads = await capture.stop();
+      capture = null;
+      const reply = payloads.flatMap(payload => parseComments(payload, showId)).find(item => item.content === content.trim());
+
+      this.logger.info(`Replied to comment ${id}`, {
+        module: 'playwright-adapter',
+        action: 'replyComment',
+        showId
+      });
+
+      return this.success(reply ?? {
+        id: '',
+        showId,
+        author: '',
+        content,
+        createdAt: new Date().toISOString(),
+        pinned: false,
+        replied: false
+      });
+
+    } catch (error) {
+      const result = this.handleException<Comment>(error, 'replyComment');
+      return { ...result, errorCode: ErrorCode.UPDATE_FAILED };
+    } finally {
+      await capture?.stop();
+    }
+  }
+
+  /**
+   * Pin or unpin a comment
+   * @param commentId - Format: "showId:commentId"
+   */
+  async pinComment(commentId: string, pinned: boolean): Promise<AdapterResult<void>> {
+    return this.performCommentAction(commentId, pinned ? /^置顶/ : /取消置顶/, 'pinComment',
+      row => row !== undefined && row.pinned === pinned);
+  }
+
+  /**
+   * Delete a comment
+   * @param commentId - Format: "showId:commentId"
+   */
+  async deleteComment(commentId: string): Promise<AdapterResult<void>> {
+    return this.performCommentAction(commentId, /删除/, 'deleteComment', row => !row);
+  }
+
+  /**
+   * Open the comment management page of a show
+   */
+  private async openCommentPage(page: Page, showId: string): Promise<boolean> {
+    await this.navigateTo(this.showHomePath(showId));
+    if (!await this.clickFirst(page, COMMENT_PAGE_SELECTORS)) {
+      return false;
+    }
+    await page.waitForLoadState('networkidle', { timeout: this.timeout });
+    return true;
+  }
+
+  /**
+   * Scan comment rows on the current page
+   */
+  private async scanComments(page: Page): Promise<ScannedCommentRow[]> {
+    return page.evaluate(scanCommentRows, {
+      selector: COMMENT_ROW_SELECTOR,
+      rowAttribute: COMMENT_ROW_ATTRIBUTE,
+      attributes: COMMENT_ID_ATTRIBUTES
+    });
+  }
+
+  /**
+   * Find a comment row on the comment page, loading more comments as needed
+   */
+  private async locateCommentRow(page: Page, showId: string, id: string): Promise<ScannedCommentRow | undefined> {
+    if (!await this.openCommentPage(page, showId)) {
+      return undefined;
+    }
+    await page.waitForTimeout(1000);
+
+    for (let round = 0; round < MAX_COMMENT_SEARCH_ROUNDS; round++) {
+      const row = (await this.scanComments(page)).find(item => item.id === id);
+      if (row || !await this.loadMoreRows(page, COMMENT_ROW_SELECTOR)) {
+        return row;
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Click a comment action, confirm and verify by scanning the comment again
+   */
+  private async performCommentAction(
+    ref: string,
+    labelPattern: RegExp,
+    actionName: string,
+    isDone: (row: ScannedCommentRow | undefined) => boolean
+  ): Promise<AdapterResult<void>> {
+    try {
+      const { showId, id } = this.parseEpisodeRef(ref);
+      if (!showId) {
+        return this.failure('Invalid comment ID format. Please provide showId:commentId.', ErrorCode.VALIDATION_ERROR);
+      }
+
+      const page = await this.getPage();
+      if (!await this.locateCommentRow(page, showId, id)) {
+        return this.failure(`Comment not found: ${id}`, ErrorCode.UPDATE_FAILED);
+      }
+
+      const row = page.locator(`[${COMMENT_ROW_ATTRIBUTE}="${id}"]`).last();
+      if (!await this.clickRowAction(page, row, labelPattern, actionName)) {
+        return this.failure(`Action ${actionName} not available for comment ${id}`, ErrorCode.UPDATE_FAILED);
+      }
+
+      const after = await this.locateCommentRow(page, showId, id);
+      if (!isDone(after)) {
+        return this.failure(`${actionName} did not take effect for comment ${id}`, ErrorCode.UPDATE_FAILED);
+      }
+
+      this.logger.info(`${actionName} completed for comment ${id}`, {
+        module: 'playwright-adapter',
+        action: actionName,
+        showId
+      });
+
+      return this.success(undefined);
+
+    } catch (error) {
+      const result = this.handleException<void>(error, actionName);
+      return { ...result, errorCode: ErrorCode.UPDATE_FAILED };
+    }
+  }
+
+  /**
+   * Click a row's action button, directly or from its overflow menu, then confirm
+   * @returns false when the row offers no such action
+   */
+  private async clickRowAction(page: Page, row: Locator, labelPattern: RegExp, actionName: string): Promise<boolean> {
+    const inlineButton = row.locator('button, a').filter({ hasText: labelPattern }).first();
+
+    if (await inlineButton.count() > 0) {
+      await inlineButton.click();
+    } else {
+      const menuButton = row.locator(ROW_MENU_SELECTOR).first();
+      if (await menuButton.count() === 0) {
+        return false;
+      }
+      await menuButton.click();
+      await page.waitForTimeout(500);
+
+      const menuItem = page.locator('[role="menuitem"], [class*="menu"] li, [class*="dropdown"] li, [class*="popover"] button')
+        .filter({ hasText: labelPattern })
+        .first();
+      if (await menuItem.count() === 0) {
+        await page.keyboard.press('Escape');
+        return false;
+      }
+      await menuItem.click();
+    }
+
+    await page.waitForTimeout(500);
+    if (!await this.clickFirst(page, CONFIRM_DIALOG_SELECTORS)) {
+      this.logger.debug('No confirmation dialog shown', {
+        module: 'playwright-adapter',
+        action: actionName
+      });
+    }
+    await page.waitForLoadState('networkidle', { timeout: this.timeout });
+    await page.waitForTimeout(1000);
+    return true;
+  }
+
+  /**
+   * Find the first visible element matching one of the selectors
+   */
+  private async findVisible(page: Page, selectors: string[]): Promise<ElementHandle | null> {
+    for (const selector of selectors) {
+      const element = await page.$(selector).catch(() => null);
+      if (element && await element.isVisible().catch(() => false)) {
+        return element;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Fill the first visible element matching one of the selectors
+   */
+  private async fillFirst(page: Page, selectors: string[], value: string): Promise<boolean> {
+    const element = await this.findVisible(page, selectors);
+    if (!element) {
+      return false;
+    }
+
+    await element.fill(value);
+    return true;
+  }
+
+  /**
+   * Click the first visible element matching one of the selectors
+   */
+  private async clickFirst(page: Page, selectors: string[]): Promise<boolean> {
+    const element = await this.findVisible(page, selectors);
+    if (!element) {
+      return false;
+    }
+
+    await element.click();
+    return true;
+  }
 }
@@ -6,3 +6,4 @@ export * from './provider';
 export * from './openai.provider';
 export * from './siliconflow.provider';
 export * from './service';
+export * from './shownotes';
@@ -200,6 +200,52 @@ Return only the title, nothing else.`;
     return response.content.trim().replace(/^"|"$/g, '');
   }
 
+  /**
+   * Shorten an existing episode title to fit a length limit
+   */
+  async shortenTitle(title: string, maxLength: number): Promise<string> {
+    const provider = this.getProvider();
+
+    const prompt = `Shorten the following podcast episode title to at most ${maxLength} characters.
+Keep the episode number and the original language, and keep the meaning.
+
+Title: ${title}
+
+Return only the shortened title, nothing else.`;
+
+    const response = await provider.complete(prompt);
+
+    return response.content.trim().replace(/^"|"$/g, '');
+  }
+
+  /**
+   * Draft a creator reply to a listener comment
+   */
+  async draftCommentReply(
+    comment: { author: string; content: string; episodeTitle?: string },
+    options?: Pick<ContentGenerationOptions, 'tone'>
+  ): Promise<string> {
+    const provider = this.getProvider();
+
+    const prompt = `A listener commented on a podcast episode${comment.episodeTitle ? ` titled "${comment.episodeTitle}"` : ''}.
+
+Listener: ${comment.author || 'Anonymous'}
+Comment: ${comment.content}
+
+Write a short reply from the podcast host:
+- Written in a ${options?.tone || 'casual'} tone
+- In the same language as the comment
+- At most 2-3 sentences, no hashtags
+
+Return only the reply, nothing else.`;
+
+    const response = await provider.complete(prompt, {
+      maxTokens: 200
+    });
+
+    return response.content.trim().replace(/^"|"$/g, '');
+  }
+
   /**
    * Generate episode description
    */
@@ -0,0 +1,105 @@
+/**
+ * AI Shownotes - Turn AI results into shownotes Markdown
+ *
+ * Timestamps become the "mm:ss Title" chapter block the platform links up,
+ * so the Markdown can go straight into `publish --description-file`.
+ */
+
+import fs from 'fs';
+import type { EpisodeChapter } from '../core/types';
+import { parseChapterLine, composeShownotes } from '../utils/chapters';
+import type { ShowNotesResult, TranscriptAnalysisResult, SEOOptimizationResult } from './service';
+
+// =====================================================
+// Transcript
+// =====================================================
+
+/**
+ * Read a transcript file (plain text, SRT or VTT)
+ *
+ * Subtitle cue numbers and timing lines are reduced to a leading timestamp
+ * per cue, which is all the timestamp prompt needs.
+ */
+export function readTranscript(file: string): string {
+  const text = fs.readFileSync(file, 'utf-8').replace(/^\ufeff/, '').replace(/\r\n?/g, '\n');
+
+  if (!/^(WEBVTT|\d+\n\d{2}:\d{2}:\d{2}[,.]\d{3} --> )/.test(text)) {
+    return text.trim();
+  }
+
+  const lines: string[] = [];
+  for (const cue of text.split(/\n{2,}/)) {
+    const timing = cue.match(/(?:(\d{2}):)?(\d{2}):(\d{2})[,.]\d{3} -->/);
+    if (!timing) {
+      continue;
+    }
+
+    const content = cue.split('\n').filter(line => line.trim() && !/-->/.test(line) && !/^\d+$/.test(line.trim()));
+    if (content.length > 0) {
+      const [, hours, minutes, seconds] = timing;
+      const time = !hours || hours === '00' ? `${minutes}:${seconds}` : `${parseInt(hours)}:${minutes}:${seconds}`;
+      lines.push(`[${time}] ${content.join(' ')}`);
+    }
+  }
+
+  return lines.join('\n');
+}
+
+// =====================================================
+// Markdown Rendering
+// =====================================================
+
+/**
+ * Convert AI timestamps to chapters, dropping entries with unusable times
+ */
+export function timestampsToChapters(timestamps: Array<{ time: string; description: string }> = []): EpisodeChapter[] {
+  return timestamps
+    .map(entry => parseChapterLine(`${entry.time} ${entry.description}`))
+    .filter((chapter): chapter is EpisodeChapter => chapter !== null);
+}
+
+/**
+ * Render show notes as shownotes Markdown (the title is kept separate)
+ * @param timestamps - Overrides the timecodes returned with the show notes
+ */
+export function showNotesToMarkdown(
+  notes: ShowNotesResult,
+  timestamps?: Array<{ time: string; description: string }>
+): string {
+  const sections = [notes.summary.trim()];
+
+  if (notes.keyPoints.length > 0) {
+    sections.push(`## 要点\n\n${notes.keyPoints.map(point => `- ${point}`).join('\n')}`);
+  }
+  if (notes.hashtags.length > 0) {
+    sections.push(notes.hashtags.join(' '));
+  }
+
+  return composeShownotes(sections.filter(Boolean).join('\n\n'), timestampsToChapters(timestamps ?? notes.timecodes));
+}
+
+/**
+ * Render a transcript analysis as Markdown
+ */
+export function analysisToMarkdown(analysis: TranscriptAnalysisResult): string {
+  return [
+    `# ${analysis.suggestedTitle}`,
+    analysis.summary,
+    `## 主题\n\n${analysis.keyTopics.map(topic => `- ${topic}`).join('\n')}`,
+    `## 情感倾向\n\n${analysis.sentiment}`,
+    `## 建议简介\n\n${analysis.suggestedDescription}`
+  ].join('\n\n');
+}
+
+/**
+ * Render SEO suggestions as Markdown
+ */
+export function seoToMarkdown(seo: SEOOptimizationResult): string {
+  return [
+    '## SEO 建议',
+    `- 标题: ${seo.title}`,
+    `- 简介: ${seo.description}`,
+    `- 关键词: ${seo.keywords.join(', ')}`,
+    `- 标签: ${seo.tags.join(', ')}`
+  ].join('\n');
+}
@@ -0,0 +1,34 @@
+/**
+ * CLI cache helpers - Parse --cached / --max-age and report cache use
+ */
+
+import chalk from 'chalk';
+import { CacheOptions } from '../core/client';
+import { CachedList } from '../storage';
+import { parseDuration, getRelativeTime } from '../utils/helpers';
+
+/**
+ * Parse the cache flags of a command
+ * @returns Error message for invalid input
+ */
+export function parseCacheOptions(options: { cached?: boolean; maxAge?: string }): CacheOptions | string {
+  if (options.maxAge === undefined) {
+    return { cached: options.cached };
+  }
+
+  const maxAge = parseDuration(options.maxAge);
+  if (maxAge === null) {
+    return `无效的缓存时长: ${options.maxAge} (如 30m, 2h, 1d)`;
+  }
+  return { cached: options.cached, maxAge };
+}
+
+/**
+ * Print a note when a list was answered from the cache
+ * @param requestedAt - Time the read started; newer lists were fetched live
+ */
+export function printCacheNote(list: CachedList<unknown> | null, requestedAt: number): void {
+  if (list && list.fetchedAt.getTime() < requestedAt) {
+    console.log(chalk.dim(`  使用本地缓存 (更新于 ${getRelativeTime(list.fetchedAt)})`));
+  }
+}
@@ -0,0 +1,229 @@
+/**
+ * AI command implementation - Shownotes, titles and timestamps from a transcript
+ */
+
+import fs from 'fs';
+import chalk from 'chalk';
+import ora from 'ora';
+import { XiaoYuzhouClient } from '../../core/client';
+import {
+  ContentGenerationOptions,
+  readTranscript,
+  showNotesToMarkdown,
+  timestampsToChapters,
+  analysisToMarkdown,
+  seoToMarkdown
+} from '../../ai';
+import { renderChapters } from '../../utils/chapters';
+import { writeOutput } from '../output';
+
+// =====================================================
+// AI Task Types
+// =====================================================
+
+export type AITask = 'shownotes' | 'title' | 'timestamps' | 'analyze';
+
+export const AI_TASKS: AITask[] = ['shownotes', 'title', 'timestamps', 'analyze'];
+
+export type AIOutputFormat = 'markdown' | 'json';
+
+const AI_OUTPUT_FORMATS: AIOutputFormat[] = ['markdown', 'json'];
+
+const TONES: Array<NonNullable<ContentGenerationOptions['tone']>> = ['professional', 'casual', 'enthusiastic', 'educational'];
+
+const LENGTHS: Array<NonNullable<ContentGenerationOptions['length']>> = ['short', 'medium', 'long'];
+
+/**
+ * Options shared by the AI tasks
+ */
+export interface AITaskOptions {
+  tone?: string;
+  length?: string;
+  keywords?: string;  // Comma separated
+  timestamps?: boolean;  // shownotes: generate a separate timestamp list
+  seo?: boolean;  // shownotes / title: append SEO suggestions
+  description?: boolean;  // title: also write a description for the title
+  context?: string;  // title: extra context, e.g. the draft's working title
+}
+
+/**
+ * Generated content in both output forms
+ */
+export interface AITaskResult {
+  markdown: string;
+  data: unknown;
+  title?: string;  // Suggested title, when the task produces one
+}
+
+/**
+ * Check if a string is an AI task
+ */
+export function isAITask(value: string): value is AITask {
+  return (AI_TASKS as string[]).includes(value);
+}
+
+/**
+ * Validate tone and length
+ * @returns Error message, or null when valid
+ */
+export function validateAITaskOptions(options: AITaskOptions): string | null {
+  if (options.tone && !(TONES as string[]).includes(options.tone)) {
+    return `无效的语气: ${options.tone} (可选: ${TONES.join(', ')})`;
+  }
+  if (options.length && !(LENGTHS as string[]).includes(options.length)) {
+    return `无效的篇幅: ${options.length} (可选: ${LENGTHS.join(', ')})`;
+  }
+  return null;
+}
+
+// =====================================================
+// AI Tasks
+// =====================================================
+
+/**
+ * Run an AI task on a transcript
+ * @throws AppError when no AI provider is configured
+ */
+export async function runAITask(
+  client: XiaoYuzhouClient,
+  task: AITask,
+  transcript: string,
+  options: AITaskOptions = {}
+): Promise<AITaskResult> {
+  const ai = client.getAIService();
+  const generation: ContentGenerationOptions = {
+    tone: options.tone as ContentGenerationOptions['tone'],
+    length: options.length as ContentGenerationOptions['length'],
+    includeTimestamps: options.timestamps,
+    keywords: options.keywords ? options.keywords.split(/[,，]/).map(keyword => keyword.trim()).filter(Boolean) : undefined
+  };
+
+  switch (task) {
+    case 'shownotes': {
+      const notes = await ai.generateShowNotes(transcript, generation);
+      const timestamps = options.timestamps ? await ai.generateTimestamps(transcript) : undefined;
+      const seo = options.seo ? await ai.optimizeForSEO(notes.title, notes.summary, transcript) : undefined;
+
+      const sections = [showNotesToMarkdown(notes, timestamps), seo ? seoToMarkdown(seo) : ''];
+      return {
+        markdown: sections.filter(Boolean).join('\n\n'),
+        data: { ...notes, timestamps, seo },
+        title: notes.title
+      };
+    }
+
+    case 'title': {
+      const title = await ai.generateTitle(transcript, options.context);
+      const description = options.description ? await ai.generateDescription(transcript, title, generation) : undefined;
+      const seo = options.seo ? await ai.optimizeForSEO(title, description || '', transcript) : undefined;
+
+      const sections = [`# ${title}`, description || '', seo ? seoToMarkdown(seo) : ''];
+      return {
+        markdown: sections.filter(Boolean).join('\n\n'),
+        data: { title, description, seo },
+        title
+      };
+    }
+
+    case 'timestamps': {
+      const timestamps = await ai.generateTimestamps(transcript);
+      return {
+        markdown: renderChapters(timestampsToChapters(timestamps)),
+        data: timestamps
+      };
+    }
+
+    case 'analyze': {
+      const analysis = await ai.analyzeTranscript(transcript);
+      return {
+        markdown: analysisToMarkdown(analysis),
+        data: analysis,
+        title: analysis.suggestedTitle
+      };
+    }
+  }
+}
+
+// =====================================================
+// AI Command
+// =====================================================
+
+const TASK_LABELS: Record<AITask, string> = {
+  shownotes: '节目简介',
+  title: '标题',
+  timestamps: '时间轴',
+  analyze: '文字稿分析'
+};
+
+/**
+ * Generate content from a transcript file and print or save it
+ */
+export async function aiCommand(
+  client: XiaoYuzhouClient,
+  task: AITask,
+  transcriptFile: string,
+  options: AITaskOptions & { format?: string; out?: string } = {}
+): Promise<void> {
+  const format = options.format || 'markdown';
+  if (!(AI_OUTPUT_FORMATS as string[]).includes(format)) {
+    console.error(chalk.red(`  ✗ 无效的输出格式: ${format} (可选: ${AI_OUTPUT_FORMATS.join(', ')})\n`));
+    process.exitCode = 1;
+    return;
+  }
+
+  const invalid = validateAITaskOptions(options);
+  if (invalid) {
+    console.error(chalk.red(`  ✗ ${invalid}\n`));
+    process.exitCode = 1;
+    return;
+  }
+
+  // Generated content on stdout must stay clean
+  if (options.out) {
+    console.log(chalk.cyan(`\n  小宇宙创作者助手 - AI ${TASK_LABELS[task]}\n`));
+  }
+
+  if (!fs.existsSync(transcriptFile)) {
+    console.error(chalk.red(`  ✗ 文字稿不存在: ${transcriptFile}\n`));
+    process.exitCode = 1;
+    return;
+  }
+
+  const transcript = readTranscript(transcriptFile);
+  if (!transcript) {
+    console.error(chalk.red(`  ✗ 文字稿为空: ${transcriptFile}\n`));
+    process.exitCode = 1;
+    return;
+  }
+
+  const spinner = ora(`AI 正在生成${TASK_LABELS[task]}...`).start();
+
+  let result: AITaskResult;
+  try {
+    result = await runAITask(client, task, transcript, options);
+    spinner.stop();
+  } catch (error) {
+    spinner.fail(chalk.red(`生成${TASK_LABELS[task]}失败`));
+    await client.getErrorHandler().handle(error as Error, {
+      module: 'cli',
+      action: `ai-${task}`
+    });
+    process.exitCode = 1;
+    return;
+  }
+
+  if (task === 'timestamps' && !result.markdown) {
+    console.error(chalk.yellow('  ⚠ AI 没有返回可用的时间轴\n'));
+    process.exitCode = 1;
+    return;
+  }
+
+  writeOutput(format === 'json' ? JSON.stringify(result.data, null, 2) : result.markdown, options.out);
+
+  if (task === 'shownotes' && format === 'markdown' && result.title) {
+    console.error(chalk.dim(`\n  建议标题: ${result.title}`));
+  }
+  if (options.out) {
+    console.log(chalk.green(`\n  ✓ 已保存到 ${options.out}\n`));
+  }
+}
@@ -6,6 +6,9 @@ import ora, { Ora } from 'ora';
 import chalk from 'chalk';
 import { XiaoYuzhouClient } from '../../core/client';
 import { Show, Resource, ResourceStatus } from '../../core/types';
+import { TitleNormalizationResult } from '../../core/title-policy';
+import { TITLE_STRATEGY_LABELS } from './publish';
+import { parseCacheOptions, printCacheNote } from '../cache';
 import * as prompts from '../prompts/auth.prompts';
 import { format } from 'date-fns';
 import { zhCN } from 'date-fns/locale/zh-CN';
@@ -58,10 +61,25 @@ function displayShows(shows: Show[]): void {
   console.log();
 }
 
+/**
+ * Describe how the title policy would change a title on publish
+ */
+function formatTitlePreview(preview?: TitleNormalizationResult): string | null {
+  if (!preview || (!preview.changed && preview.accepted)) {
+    return null;
+  }
+
+  if (!preview.accepted) {
+    return chalk.red(`标题超长，发布将被拒绝 (${preview.reason})`);
+  }
+
+  return chalk.yellow(`发布标题: ${preview.title} (${TITLE_STRATEGY_LABELS[preview.strategy]})`);
+}
+
 /**
  * Display unpublished resources
  */
-function displayUnpublishedResources(resources: Resource[]): void {
+function displayUnpublishedResources(resources: Resource[], titlePreviews: Map<string, TitleNormalizationResult>): void {
   if (resources.length === 0) {
     console.log(chalk.green('\n  ✓ 所有资源都已发布!\n'));
     return;
@@ -76,6 +94,11 @@ function displayUnpublishedResources(resources: Resource[]): void {
     console.log(`  ${chalk.dim(`[${index + 1}]`)} ${statusIcon} ${chalk.bold(resource.title)}`);
     console.log(`      ${chalk.dim(`状态: ${statusText}`)}${resource.duration ? ` | 时长: ${formatDuration(resource.duration)}` : ''}`);
 
+    const titlePreview = formatTitlePreview(titlePreviews.get(resource.id));
+    if (titlePreview) {
+      console.log(`      ${titlePreview}`);
+    }
+
     if (resource.description) {
       console.log(`      ${chalk.dim(resource.description)}`);
     }
@@ -90,9 +113,18 @@ function displayUnpublishedResources(resources: Resource[]): void {
 // Check Command
 // =====================================================
 
-export async function checkCommand(client: XiaoYuzhouClient, options: { showId?: string; showName?: string; json?: boolean }): Promise<void> {
+export async function checkCommand(
+  client: XiaoYuzhouClient,
+  options: { showId?: string; showName?: string; json?: boolean; cached?: boolean; maxAge?: string }
+): Promise<void> {
   console.log(chalk.cyan('\n  小宇宙创作者助手 - 检查未发布内容\n'));
 
+  const cache = parseCacheOptions(options);
+  if (typeof cache === 'string') {
+    console.log(chalk.red(`  ✗ ${cache}\n`));
+    return;
+  }
+
   // Ensure authenticated
   if (!client.isAuthenticated()) {
     console.log(chalk.yellow('  ⚠ 您尚未登录'));
@@ -117,8 +149,9 @@ export async function checkCommand(client: XiaoYuzhouClient, options: { showId?:
   const getShowsSpinner = ora('获取节目列表...').start();
 
   let shows: Show[];
+  const showsRequestedAt = Date.now();
   try {
-    shows = await client.getShows();
+    shows = await client.getShows(cache);
 
     if (shows.length === 0) {
       getShowsSpinner.fail(chalk.red('未找到任何节目'));
@@ -127,6 +160,7 @@ export async function checkCommand(client: XiaoYuzhouClient, options: { showId?:
     }
 
     getShowsSpinner.succeed(chalk.green(`找到 ${shows.length} 个节目`));
+    printCacheNote(client.getCatalog().getShows(), showsRequestedAt);
 
   } catch (error) {
     getShowsSpinner.fail(chalk.red('获取节目列表失败'));
@@ -181,10 +215,12 @@ export async function checkCommand(client: XiaoYuzhouClient, options: { showId?:
   const getResourcesSpinner = ora('检查未发布内容...').start();
 
   let resources: Resource[];
+  const resourcesRequestedAt = Date.now();
   try {
-    resources = await client.getUnpublishedResources(showId);
+    resources = await client.getUnpublishedResources(showId, cache);
 
     getResourcesSpinner.succeed(chalk.green(`检查完成`));
+    printCacheNote(client.getCatalog().getResources(showId), resourcesRequestedAt);
 
   } catch (error) {
     getResourcesSpinner.fail(chalk.red('检查未发布内容失败'));
@@ -199,7 +235,13 @@ export async function checkCommand(client: XiaoYuzhouClient, options: { showId?:
   if (options.json) {
     console.log(JSON.stringify(resources, null, 2));
   } else {
-    displayUnpublishedResources(resources);
+    // Dry-run the title policy so over-long titles are visible before publishing
+    const titlePreviews = new Map<string, TitleNormalizationResult>();
+    for (const resource of resources) {
+      titlePreviews.set(resource.id, await client.previewTitle(resource.title, showId));
+    }
+
+    displayUnpublishedResources(resources, titlePreviews);
 
     // Prompt for action if there are unpublished resources
     if (resources.length > 0) {
@@ -0,0 +1,376 @@
+/**
+ * Comments command implementation - List, reply to and moderate listener comments
+ */
+
+import chalk from 'chalk';
+import ora from 'ora';
+import inquirer from 'inquirer';
+import { XiaoYuzhouClient, CommentQuery } from '../../core/client';
+import { Comment } from '../../core/types';
+import { Column, OUTPUT_FORMATS, isOutputFormat, formatOutput, writeOutput } from '../output';
+import { formatDate } from '../../utils/helpers';
+
+// =====================================================
+// Columns
+// =====================================================
+
+function commentFlags(comment: Comment): string {
+  return [comment.pinned ? '置顶' : '', comment.replied ? '已回复' : ''].filter(Boolean).join(' ');
+}
+
+const COMMENT_COLUMNS: Column<Comment>[] = [
+  { header: 'ID', value: comment => comment.id },
+  { header: '单集', value: comment => comment.episodeTitle, maxWidth: 20 },
+  { header: '听众', value: comment => comment.author, maxWidth: 12 },
+  { header: '评论', value: comment => comment.content.replace(/\s+/g, ' '), maxWidth: 48 },
+  { header: '时间', value: comment => formatDate(comment.createdAt) },
+  { header: '状态', value: commentFlags }
+];
+
+const COMMENT_EXPORT_COLUMNS: Column<Comment>[] = [
+  { header: 'id', value: comment => comment.id },
+  { header: 'showId', value: comment => comment.showId },
+  { header: 'episodeId', value: comment => comment.episodeId },
+  { header: 'episodeTitle', value: comment => comment.episodeTitle },
+  { header: 'author', value: comment => comment.author },
+  { header: 'content', value: comment => comment.content },
+  { header: 'createdAt', value: comment => comment.createdAt },
+  { header: 'likeCount', value: comment => comment.likeCount },
+  { header: 'pinned', value: comment => String(comment.pinned) },
+  { header: 'replied', value: comment => String(comment.replied) }
+];
+
+// =====================================================
+// Shared Helpers
+// =====================================================
+
+function checkAuthenticated(client: XiaoYuzhouClient): boolean {
+  if (!client.isAuthenticated()) {
+    console.log(chalk.yellow('  ⚠ 您尚未登录'));
+    console.log(chalk.dim('  请先运行: xiaoyuzhou login\n'));
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Look up a comment among the show's recent comments
+ */
+async function findComment(client: XiaoYuzhouClient, showId: string, commentId: string): Promise<Comment | undefined> {
+  const spinner = ora('获取评论...').start();
+
+  try {
+    const comment = (await client.listComments({ showId })).find(item => item.id === commentId);
+    if (comment) {
+      spinner.succeed(`${chalk.bold(comment.author || '听众')}: ${comment.content}`);
+    } else {
+      spinner.warn(chalk.yellow(`最近的评论中未找到 ${commentId}`));
+    }
+    return comment;
+  } catch {
+    spinner.warn(chalk.yellow('无法获取评论内容'));
+    return undefined;
+  }
+}
+
+async function confirmAction(message: string): Promise<boolean> {
+  const { confirm } = await inquirer.prompt([
+    {
+      type: 'confirm',
+      name: 'confirm',
+      message,
+      default: false
+    }
+  ]);
+  return confirm;
+}
+
+// =====================================================
+// Comments List Command
+// =====================================================
+
+export async function commentsListCommand(
+  client: XiaoYuzhouClient,
+  options: {
+    showId?: string;
+    since?: string;
+    all?: boolean;
+    peek?: boolean;
+    limit?: string;
+    format?: string;
+    out?: string;
+  }
+): Promise<void> {
+  const format = options.format || 'table';
+  if (!isOutputFormat(format)) {
+    console.error(chalk.red(`  ✗ 无效的输出格式: ${format} (可选: ${OUTPUT_FORMATS.join(', ')})\n`));
+    return;
+  }
+
+  const query: CommentQuery = { showId: options.showId, sinceLastCheck: !options.all };
+
+  if (options.since) {
+    const since = new Date(options.since);
+    if (isNaN(since.getTime())) {
+      console.error(chalk.red(`  ✗ 无效的时间: ${options.since} (格式: 2026-01-31 或 2026-01-31T08:00)\n`));
+      return;
+    }
+    query.since = since;
+  }
+
+  if (options.limit) {
+    query.limit = parseInt(options.limit, 10);
+    if (isNaN(query.limit) || query.limit < 1) {
+      console.error(chalk.red(`  ✗ 无效的数量: ${options.limit}\n`));
+      return;
+    }
+  }
+
+  // Machine-readable output on stdout must stay clean
+  const machine = format !== 'table' && !options.out;
+  if (!machine) {
+    console.log(chalk.cyan('\n  小宇宙创作者助手 - 评论\n'));
+  }
+
+  if (!client.isAuthenticated()) {
+    console.error(chalk.yellow('  ⚠ 您尚未登录'));
+    console.error(chalk.dim('  请先运行: xiaoyuzhou login\n'));
+    return;
+  }
+
+  const scope = query.since ? `${formatDate(query.since)} 之后` : options.all ? '全部' : '自上次检查以来';
+  const spinner = ora(`获取${scope}的评论...`).start();
+
+  let comments: Comment[];
+  try {
+    comments = await client.listComments(query);
+    spinner.succeed(chalk.green(`获取到 ${comments.length} 条${scope}的评论`));
+  } catch (error) {
+    spinner.fail(chalk.red('获取评论失败'));
+    await client.getErrorHandler().handle(error as Error, {
+      module: 'cli',
+      action: 'comments-list'
+    });
+    return;
+  }
+
+  if (format === 'table') {
+    if (comments.length > 0) {
+      writeOutput(`\n${formatOutput(format, comments, COMMENT_COLUMNS)}\n`, options.out);
+    } else {
+      console.log(chalk.dim('\n  没有新评论\n'));
+    }
+  } else {
+    writeOutput(formatOutput(format, comments, COMMENT_EXPORT_COLUMNS), options.out);
+  }
+
+  if (!options.peek) {
+    client.markCommentsSeen(comments);
+  }
+
+  if (!machine) {
+    if (options.out) {
+      console.log(chalk.green(`  ✓ 已导出到 ${options.out}`));
+    }
+    if (comments.length > 0) {
+      console.log(chalk.dim(options.peek
+        ? '  未更新检查位置 (--peek)'
+        : '  已更新检查位置，下次只显示之后的新评论 (使用 --peek 仅查看)'));
+    }
+    console.log();
+  }
+}
+
+// =====================================================
+// Comment Reply Command
+// =====================================================
+
+/**
+ * Draft replies with AI until the user sends, edits or cancels
+ * @returns The approved reply, or null when cancelled
+ */
+async function approveAIReply(client: XiaoYuzhouClient, comment: Comment): Promise<string | null> {
+  for (;;) {
+    const spinner = ora('AI 正在生成回复...').start();
+    let draft: string;
+
+    try {
+      draft = await client.draftCommentReply(comment);
+      spinner.stop();
+    } catch (error) {
+      spinner.fail(chalk.red('生成回复失败'));
+      await client.getErrorHandler().handle(error as Error, {
+        module: 'cli',
+        action: 'comments-reply'
+      });
+      return null;
+    }
+
+    console.log(chalk.dim('\n  AI 回复草稿:'));
+    console.log(`  ${draft}\n`);
+
+    const { choice } = await inquirer.prompt([
+      {
+        type: 'list',
+        name: 'choice',
+        message: '如何处理这条回复?',
+        choices: [
+          { name: '发送', value: 'send' },
+          { name: '编辑后发送', value: 'edit' },
+          { name: '重新生成', value: 'retry' },
+          { name: '取消', value: 'cancel' }
+        ]
+      }
+    ]);
+
+    if (choice === 'send') {
+      return draft;
+    }
+    if (choice === 'edit') {
+      const { reply } = await inquirer.prompt([
+        { type: 'input', name: 'reply', message: '回复内容:', default: draft }
+      ]);
+      return reply.trim() || null;
+    }
+    if (choice === 'cancel') {
+      return null;
+    }
+  }
+}
+
+export async function commentsReplyCommand(
+  client: XiaoYuzhouClient,
+  commentId: string,
+  options: { showId: string; message?: string; ai?: boolean; yes?: boolean }
+): Promise<void> {
+  console.log(chalk.cyan('\n  小宇宙创作者助手 - 回复评论\n'));
+
+  if (!checkAuthenticated(client)) {
+    return;
+  }
+
+  const interactive = process.stdin.isTTY;
+  if (!options.message && !interactive) {
+    console.log(chalk.red('  ✗ 非交互环境下请使用 --message 指定回复内容\n'));
+    return;
+  }
+  if (options.message && !options.yes && !interactive) {
+    console.log(chalk.red('  ✗ 非交互环境下请使用 --yes 确认发送\n'));
+    return;
+  }
+
+  const comment = await findComment(client, options.showId, commentId);
+  let reply = options.message?.trim() || null;
+  let approved = options.yes ?? false;
+
+  if (!reply && options.ai) {
+    if (!comment) {
+      console.log(chalk.red('  ✗ 找不到评论内容，无法使用 AI 生成回复\n'));
+      return;
+    }
+    reply = await approveAIReply(client, comment);
+    approved = true;
+  } else if (!reply) {
+    const answer = await inquirer.prompt([
+      { type: 'input', name: 'reply', message: '回复内容:' }
+    ]);
+    reply = answer.reply.trim() || null;
+  }
+
+  if (!reply) {
+    console.log(chalk.dim('  已取消\n'));
+    return;
+  }
+
+  if (!approved && !await confirmAction(`发送回复 "${reply}"?`)) {
+    console.log(chalk.dim('  已取消\n'));
+    return;
+  }
+
+  const spinner = ora('正在发送回复...').start();
+
+  try {
+    await client.replyComment(options.showId, commentId, reply);
+    spinner.succeed(chalk.green(`已回复${comment ? ` ${comment.author || '听众'}` : ''}: ${reply}\n`));
+  } catch (error) {
+    spinner.fail(chalk.red('回复失败'));
+    await client.getErrorHandler().handle(error as Error, {
+      module: 'cli',
+      action: 'comments-reply'
+    });
+  }
+}
+
+// =====================================================
+// Comment Moderation Commands
+// =====================================================
+
+/**
+ * Pin or unpin a comment
+ */
+export async function commentsPinCommand(
+  client: XiaoYuzhouClient,
+  commentId: string,
+  options: { showId: string; unpin?: boolean }
+): Promise<void> {
+  const label = options.unpin ? '取消置顶' : '置顶';
+  console.log(chalk.cyan(`\n  小宇宙创作者助手 - ${label}评论\n`));
+
+  if (!checkAuthenticated(client)) {
+    return;
+  }
+
+  const spinner = ora(`正在${label}...`).start();
+
+  try {
+    await client.pinComment(options.showId, commentId, !options.unpin);
+    spinner.succeed(chalk.green(`已${label}评论 ${commentId}\n`));
+  } catch (error) {
+    spinner.fail(chalk.red(`${label}失败`));
+    await client.getErrorHandler().handle(error as Error, {
+      module: 'cli',
+      action: 'comments-pin'
+    });
+  }
+}
+
+/**
+ * Delete a comment
+ */
+export async function commentsDeleteCommand(
+  client: XiaoYuzhouClient,
+  commentId: string,
+  options: { showId: string; yes?: boolean }
+): Promise<void> {
+  console.log(chalk.cyan('\n  小宇宙创作者助手 - 删除评论\n'));
+
+  if (!checkAuthenticated(client)) {
+    return;
+  }
+
+  if (!options.yes && !process.stdin.isTTY) {
+    console.log(chalk.red('  ✗ 非交互环境下请使用 --yes 确认操作\n'));
+    return;
+  }
+
+  const comment = await findComment(client, options.showId, commentId);
+
+  if (!options.yes && !await confirmAction(`确认删除评论 ${comment ? `"${comment.content}"` : commentId}? 此操作不可撤销`)) {
+    console.log(chalk.dim('  已取消\n'));
+    return;
+  }
+
+  const spinner = ora('正在删除评论...').start();
+
+  try {
+    await client.deleteComment(options.showId, commentId, comment?.content);
+    spinner.succeed(chalk.green(`已删除评论 ${commentId}`));
+    console.log(chalk.dim(`  操作已记录到 ${client.getAuditLog().getLogPath()}\n`));
+  } catch (error) {
+    spinner.fail(chalk.red('删除评论失败'));
+    await client.getErrorHandler().handle(error as Error, {
+      module: 'cli',
+      action: 'comments-delete'
+    });
+  }
+}
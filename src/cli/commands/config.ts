@@ -0,0 +1,86 @@
+/**
+ * Config command implementation - Show the effective settings and their sources
+ */
+
+import chalk from 'chalk';
+import { AppConfig, LogLevel } from '../../core/types';
+import { LoadedConfig, ConfigSource, CONFIG_ENV_VARS } from '../../core/config';
+import { Column, OUTPUT_FORMATS, isOutputFormat, formatOutput, writeOutput } from '../output';
+
+// =====================================================
+// Display Helpers
+// =====================================================
+
+const SOURCE_LABELS: Record<ConfigSource, string> = {
+  default: '默认值',
+  'config.json': 'config.json',
+  '.env': '.env',
+  env: '环境变量',
+  cli: '命令行参数'
+};
+
+interface ConfigRow {
+  key: keyof AppConfig;
+  value: string;
+  source: ConfigSource;
+}
+
+function formatValue(key: keyof AppConfig, value: AppConfig[keyof AppConfig]): string {
+  if (key === 'logLevel') {
+    return LogLevel[value as LogLevel];
+  }
+  return String(value);
+}
+
+const COLUMNS: Column<ConfigRow>[] = [
+  { header: '设置', value: row => row.key },
+  { header: '值', value: row => row.value, maxWidth: 48 },
+  { header: '来源', value: row => SOURCE_LABELS[row.source] },
+  { header: '环境变量', value: row => CONFIG_ENV_VARS[row.key] }
+];
+
+const EXPORT_COLUMNS: Column<ConfigRow>[] = [
+  { header: 'key', value: row => row.key },
+  { header: 'value', value: row => row.value },
+  { header: 'source', value: row => row.source },
+  { header: 'env', value: row => CONFIG_ENV_VARS[row.key] }
+];
+
+// =====================================================
+// Config Commands
+// =====================================================
+
+/**
+ * Print the effective config
+ */
+export async function configShowCommand(
+  loaded: LoadedConfig,
+  options: { format?: string; out?: string } = {}
+): Promise<void> {
+  const format = options.format || 'table';
+  if (!isOutputFormat(format)) {
+    console.error(chalk.red(`  ✗ 无效的输出格式: ${format} (可选: ${OUTPUT_FORMATS.join(', ')})\n`));
+    return;
+  }
+
+  const rows: ConfigRow[] = (Object.keys(loaded.config) as Array<keyof AppConfig>).map(key => ({
+    key,
+    value: formatValue(key, loaded.config[key]),
+    source: loaded.sources[key]
+  }));
+
+  if (format === 'table') {
+    console.log(chalk.cyan('\n  小宇宙创作者助手 - 当前配置\n'));
+    console.log(formatOutput(format, rows, COLUMNS));
+    console.log(chalk.dim(`\n  config.json: ${loaded.configFile}`));
+    console.log(chalk.dim(`  .env:        ${loaded.envFile || '(未找到)'}`));
+    console.log(chalk.dim('  优先级: 默认值 < config.json < .env < 环境变量 < 命令行参数\n'));
+    return;
+  }
+
+  writeOutput(formatOutput(format, rows, EXPORT_COLUMNS, loaded), options.out);
+
+  if (options.out) {
+    console.log(chalk.green(`  ✓ 已导出到 ${options.out}\n`));
+  }
+}
@@ -0,0 +1,171 @@
+/**
+ * Diff command implementation - Show what changed since the last sync
+ */
+
+import chalk from 'chalk';
+import ora from 'ora';
+import { XiaoYuzhouClient, SyncDiff } from '../../core/client';
+import { CatalogChange, ResourceStatus } from '../../core';
+import { Column, OUTPUT_FORMATS, isOutputFormat, formatOutput, writeOutput } from '../output';
+import { getRelativeTime } from '../../utils/helpers';
+
+// =====================================================
+// Change Labels
+// =====================================================
+
+const STATUS_LABELS: Record<string, string> = {
+  [ResourceStatus.DRAFT]: '草稿',
+  [ResourceStatus.SCHEDULED]: '定时发布',
+  [ResourceStatus.PUBLISHED]: '已发布'
+};
+
+const ADDED_LABELS: Record<string, string> = {
+  [ResourceStatus.DRAFT]: '新草稿',
+  [ResourceStatus.SCHEDULED]: '新定时发布',
+  [ResourceStatus.PUBLISHED]: '新发布'
+};
+
+const TRANSITION_LABELS: Record<string, string> = {
+  'scheduled>published': '定时发布已上线',
+  'draft>published': '已发布',
+  'draft>scheduled': '已设为定时发布',
+  'scheduled>draft': '已取消定时',
+  'published>draft': '已下架'
+};
+
+/**
+ * Describe a change for people
+ */
+function describeChange(change: CatalogChange): { symbol: string; label: string; text: string } {
+  const isShow = change.resourceId === undefined;
+
+  switch (change.kind) {
+    case 'added':
+      return {
+        symbol: chalk.green('+'),
+        label: isShow ? '新节目' : ADDED_LABELS[change.status || ''] || '新内容',
+        text: change.title
+      };
+    case 'removed':
+      return { symbol: chalk.red('-'), label: isShow ? '节目已移除' : '已删除', text: change.title };
+    case 'title':
+      return {
+        symbol: chalk.yellow('✎'),
+        label: isShow ? '节目改名' : '标题修改',
+        text: `${chalk.dim(change.before || '')} → ${change.after}`
+      };
+    case 'status':
+      return {
+        symbol: chalk.blue('↻'),
+        label: TRANSITION_LABELS[`${change.before}>${change.after}`]
+          || `${STATUS_LABELS[change.before || ''] || change.before} → ${STATUS_LABELS[change.after || ''] || change.after}`,
+        text: change.title
+      };
+  }
+}
+
+// =====================================================
+// Columns
+// =====================================================
+
+const EXPORT_COLUMNS: Column<CatalogChange>[] = [
+  { header: 'kind', value: change => change.kind },
+  { header: 'showId', value: change => change.showId },
+  { header: 'showTitle', value: change => change.showTitle },
+  { header: 'resourceId', value: change => change.resourceId },
+  { header: 'title', value: change => change.title },
+  { header: 'status', value: change => change.status },
+  { header: 'before', value: change => change.before },
+  { header: 'after', value: change => change.after }
+];
+
+// =====================================================
+// Diff Command
+// =====================================================
+
+/**
+ * Print changes grouped by show
+ */
+function printChanges(diff: SyncDiff, peek: boolean): void {
+  if (diff.firstSync) {
+    console.log(chalk.dim(peek
+      ? '\n  尚无同步基线 (--peek 不会保存基线)。\n'
+      : '\n  首次同步，已保存当前状态作为基线。下次运行 diff 时将显示变化。\n'));
+    return;
+  }
+
+  const since = diff.since ? ` (上次同步: ${getRelativeTime(diff.since)})` : '';
+  if (diff.changes.length === 0) {
+    console.log(chalk.green(`\n  ✓ 自上次同步以来没有变化${since}\n`));
+    return;
+  }
+
+  console.log(chalk.bold(`\n  自上次同步以来的变化${since}:`));
+
+  const byShow = new Map<string, CatalogChange[]>();
+  for (const change of diff.changes) {
+    byShow.set(change.showId, [...(byShow.get(change.showId) || []), change]);
+  }
+
+  for (const [showId, changes] of byShow) {
+    console.log(chalk.cyan(`\n  ${changes[0].showTitle}`) + chalk.dim(` (${showId})`));
+    for (const change of changes) {
+      const { symbol, label, text } = describeChange(change);
+      console.log(`    ${symbol} ${label}: ${text}`);
+    }
+  }
+
+  console.log('');
+}
+
+export async function diffCommand(
+  client: XiaoYuzhouClient,
+  options: { showId?: string; peek?: boolean; format?: string; out?: string }
+): Promise<void> {
+  const format = options.format || 'table';
+  if (!isOutputFormat(format)) {
+    console.error(chalk.red(`  ✗ 无效的输出格式: ${format} (可选: ${OUTPUT_FORMATS.join(', ')})\n`));
+    return;
+  }
+
+  // Machine-readable output on stdout must stay clean
+  const machine = format !== 'table' && !options.out;
+  if (!machine) {
+    console.log(chalk.cyan('\n  小宇宙创作者助手 - 变更检测\n'));
+  }
+
+  if (!client.isAuthenticated()) {
+    console.error(chalk.yellow('  ⚠ 您尚未登录'));
+    console.error(chalk.dim('  请先运行: xiaoyuzhou login\n'));
+    return;
+  }
+
+  const spinner = ora('同步节目和资源...').start();
+
+  let diff: SyncDiff;
+  try {
+    diff = await client.diffSinceLastSync({ showId: options.showId, save: !options.peek });
+    spinner.succeed(chalk.green(diff.firstSync ? '同步完成' : `发现 ${diff.changes.length} 处变化`));
+  } catch (error) {
+    spinner.fail(chalk.red('同步失败'));
+    await client.getErrorHandler().handle(error as Error, {
+      module: 'cli',
+      action: 'diff'
+    });
+    return;
+  }
+
+  if (format === 'table') {
+    printChanges(diff, !!options.peek);
+    if (options.peek && !diff.firstSync) {
+      console.log(chalk.dim('  (--peek: 未更新同步基线)\n'));
+    }
+    return;
+  }
+
+  writeOutput(formatOutput(format, diff.changes, EXPORT_COLUMNS, diff), options.out);
+
+  if (options.out) {
+    console.log(chalk.green(`  ✓ 已导出到 ${options.out}\n`));
+  }
+}
@@ -0,0 +1,239 @@
+/**
+ * Episode command implementation - Edit metadata of published episodes
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { spawnSync } from 'child_process';
+import chalk from 'chalk';
+import ora from 'ora';
+import inquirer from 'inquirer';
+import { XiaoYuzhouClient } from '../../core/client';
+import { EpisodeChapter, EpisodeDetails } from '../../core/types';
+import type { EpisodePatch } from '../../adapters/base';
+import { parseFrontMatter, stringifyFrontMatter } from '../../utils/front-matter';
+import { parseChapterLine, renderChapters } from '../../utils/chapters';
+
+// =====================================================
+// Edit Document
+// =====================================================
+
+/**
+ * Render the episode as front matter + Markdown for editing
+ */
+function renderEpisodeDocument(episode: EpisodeDetails): string {
+  const chapters = episode.chapters.length > 0 ? renderChapters(episode.chapters).split('\n') : [];
+
+  return stringifyFrontMatter(
+    { title: episode.title, cover: '', chapters },
+    episode.shownotes,
+    {
+      title: '单集标题',
+      cover: `填写本地图片路径以替换封面${episode.coverUrl ? ` (当前: ${episode.coverUrl})` : ''}`,
+      chapters: '章节时间轴，每行格式: "mm:ss 标题" 或 "h:mm:ss 标题"；正文为 Markdown 格式的单集简介'
+    }
+  );
+}
+
+/**
+ * Parse the edited document into a patch against the current values
+ * @throws Error when the document is invalid
+ */
+function buildPatch(episode: EpisodeDetails, text: string): EpisodePatch {
+  const { data, body } = parseFrontMatter(text);
+  const patch: EpisodePatch = {};
+
+  const title = typeof data.title === 'string' ? data.title.trim() : '';
+  if (!title) {
+    throw new Error('标题不能为空');
+  }
+  if (title !== episode.title) {
+    patch.title = title;
+  }
+
+  if (body !== episode.shownotes.trim()) {
+    patch.shownotes = body;
+  }
+
+  const chapterLines = Array.isArray(data.chapters) ? data.chapters : data.chapters ? [data.chapters] : [];
+  const chapters: EpisodeChapter[] = chapterLines.map(line => {
+    const chapter = parseChapterLine(line);
+    if (!chapter) {
+      throw new Error(`无效的章节: "${line}" (格式: mm:ss 标题)`);
+    }
+    return chapter;
+  });
+  if (renderChapters(chapters) !== renderChapters(episode.chapters)) {
+    patch.chapters = chapters;
+  }
+
+  const cover = typeof data.cover === 'string' ? data.cover.trim() : '';
+  if (cover) {
+    const coverPath = path.resolve(cover.replace(/^~(?=$|\/)/, os.homedir()));
+    if (!fs.existsSync(coverPath)) {
+      throw new Error(`封面文件不存在: ${cover}`);
+    }
+    patch.coverPath = coverPath;
+  }
+
+  return patch;
+}
+
+/**
+ * Temp file for editing, named after an ID that may come from user input
+ */
+export function editorTempFile(kind: string, id: string): string {
+  return path.join(os.tmpdir(), `xiaoyuzhou-${kind}-${id.replace(/[^\w.-]/g, '_')}.md`);
+}
+
+/**
+ * Split an editor command such as `code --wait` into arguments
+ *
+ * Single and double quotes group words, so paths with spaces still work.
+ */
+function splitCommand(command: string): string[] {
+  const args: string[] = [];
+  for (const match of command.matchAll(/"([^"]*)"|'([^']*)'|(\S+)/g)) {
+    args.push(match[1] ?? match[2] ?? match[3]);
+  }
+  return args;
+}
+
+/**
+ * Open a file in the user's editor and wait for it to close
+ *
+ * The file is passed as its own argument without a shell, so its name is
+ * never interpreted.
+ */
+export function openEditor(file: string): boolean {
+  const [editor, ...args] = splitCommand(process.env.VISUAL || process.env.EDITOR || 'vi');
+  const result = spawnSync(editor || 'vi', [...args, file], { stdio: 'inherit' });
+  return result.status === 0;
+}
+
+/**
+ * Describe the changes in a patch
+ */
+function displayPatch(episode: EpisodeDetails, patch: EpisodePatch): void {
+  console.log(chalk.cyan('\n  待更新内容:\n'));
+
+  if (patch.title !== undefined) {
+    console.log(`  标题: ${chalk.red(episode.title)}`);
+    console.log(`     → ${chalk.green(patch.title)}`);
+  }
+
+  if (patch.shownotes !== undefined) {
+    const before = new Set(episode.shownotes.split('\n'));
+    const after = new Set(patch.shownotes.split('\n'));
+    const added = [...after].filter(line => !before.has(line)).length;
+    const removed = [...before].filter(line => !after.has(line)).length;
+    console.log(`  简介: 已修改 ${chalk.green(`+${added}`)} ${chalk.red(`-${removed}`)} 行`);
+  }
+
+  if (patch.chapters !== undefined) {
+    console.log(`  章节: ${episode.chapters.length} → ${patch.chapters.length} 个`);
+    patch.chapters.forEach(chapter => console.log(chalk.dim(`        ${renderChapters([chapter])}`)));
+  }
+
+  if (patch.coverPath) {
+    console.log(`  封面: ${patch.coverPath}`);
+  }
+
+  console.log();
+}
+
+// =====================================================
+// Episode Commands
+// =====================================================
+
+/**
+ * Edit a published episode in $EDITOR
+ */
+export async function episodeEditCommand(
+  client: XiaoYuzhouClient,
+  episodeId: string,
+  options: { showId: string; yes?: boolean }
+): Promise<void> {
+  console.log(chalk.cyan('\n  小宇宙创作者助手 - 编辑单集\n'));
+
+  if (!client.isAuthenticated()) {
+    console.log(chalk.yellow('  ⚠ 您尚未登录'));
+    console.log(chalk.dim('  请先运行: xiaoyuzhou login\n'));
+    return;
+  }
+
+  const spinner = ora('获取单集信息...').start();
+
+  let episode: EpisodeDetails;
+  try {
+    episode = await client.getEpisode(options.showId, episodeId);
+    spinner.succeed(chalk.green(`已获取: ${episode.title}`));
+  } catch (error) {
+    spinner.fail(chalk.red('获取单集信息失败'));
+    await client.getErrorHandler().handle(error as Error, {
+      module: 'cli',
+      action: 'episode-edit'
+    });
+    return;
+  }
+
+  const file = editorTempFile('episode', episodeId);
+  fs.writeFileSync(file, renderEpisodeDocument(episode), 'utf-8');
+
+  // Re-open the editor until the document parses or the user gives up
+  let patch: EpisodePatch;
+  for (;;) {
+    if (!openEditor(file)) {
+      console.log(chalk.red(`  ✗ 编辑器异常退出，已取消 (文件保留在 ${file})\n`));
+      return;
+    }
+
+    try {
+      patch = buildPatch(episode, fs.readFileSync(file, 'utf-8'));
+      break;
+    } catch (error) {
+      console.log(chalk.red(`  ✗ ${(error as Error).message}`));
+
+      const { retry } = await inquirer.prompt([
+        { type: 'confirm', name: 'retry', message: '重新编辑?', default: true }
+      ]);
+      if (!retry) {
+        console.log(chalk.dim(`  已取消 (文件保留在 ${file})\n`));
+        return;
+      }
+    }
+  }
+
+  if (Object.keys(patch).length === 0) {
+    fs.rmSync(file, { force: true });
+    console.log(chalk.dim('  未做任何修改\n'));
+    return;
+  }
+
+  displayPatch(episode, patch);
+
+  if (!options.yes) {
+    const { confirm } = await inquirer.prompt([
+      { type: 'confirm', name: 'confirm', message: '确认更新单集?', default: true }
+    ]);
+    if (!confirm) {
+      console.log(chalk.dim(`  已取消 (文件保留在 ${file})\n`));
+      return;
+    }
+  }
+
+  const updateSpinner = ora('正在更新单集...').start();
+
+  try {
+    const updated = await client.updateEpisode(options.showId, episodeId, patch);
+    fs.rmSync(file, { force: true });
+    updateSpinner.succeed(chalk.green(`更新成功: ${updated.title}\n`));
+  } catch (error) {
+    updateSpinner.fail(chalk.red(`更新失败 (修改内容保留在 ${file})`));
+    await client.getErrorHandler().handle(error as Error, {
+      module: 'cli',
+      action: 'episode-edit'
+    });
+  }
+}
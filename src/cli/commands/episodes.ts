@@ -0,0 +1,164 @@
+/**
+ * Episodes command implementation - List a show's episodes with pagination
+ */
+
+import chalk from 'chalk';
+import ora from 'ora';
+import { XiaoYuzhouClient } from '../../core/client';
+import { EpisodePage, Resource, ResourceStatus } from '../../core/types';
+import { DEFAULT_EPISODE_PAGE_SIZE, EpisodeListOptions } from '../../adapters/base';
+import { Column, OUTPUT_FORMATS, isOutputFormat, formatOutput, writeOutput } from '../output';
+import { formatDate, formatDuration } from '../../utils/helpers';
+
+// =====================================================
+// Columns
+// =====================================================
+
+const STATUS_LABELS: Record<ResourceStatus, string> = {
+  [ResourceStatus.DRAFT]: '草稿',
+  [ResourceStatus.SCHEDULED]: '定时发布',
+  [ResourceStatus.PUBLISHED]: '已发布'
+};
+
+const EPISODE_COLUMNS: Column<Resource>[] = [
+  { header: 'ID', value: episode => episode.id },
+  { header: '标题', value: episode => episode.title, maxWidth: 48 },
+  { header: '状态', value: episode => STATUS_LABELS[episode.status] },
+  { header: '时长', value: episode => episode.duration ? formatDuration(episode.duration) : '' },
+  { header: '创建时间', value: episode => formatDate(episode.createdAt) }
+];
+
+/**
+ * CSV/JSON exports keep raw values so they can be processed further
+ */
+const EPISODE_EXPORT_COLUMNS: Column<Resource>[] = [
+  { header: 'id', value: episode => episode.id },
+  { header: 'title', value: episode => episode.title },
+  { header: 'status', value: episode => episode.status },
+  { header: 'duration', value: episode => episode.duration },
+  { header: 'createdAt', value: episode => episode.createdAt },
+  { header: 'updatedAt', value: episode => episode.updatedAt },
+  { header: 'audioUrl', value: episode => episode.audioUrl }
+];
+
+// =====================================================
+// Episodes Command
+// =====================================================
+
+/**
+ * Parse CLI options into list options
+ * @returns Error message for invalid input
+ */
+function parseListOptions(options: {
+  status?: string;
+  page?: string;
+  pageSize?: string;
+  all?: boolean;
+  since?: string;
+}): EpisodeListOptions | string {
+  const listOptions: EpisodeListOptions = {};
+
+  const status = options.status || ResourceStatus.PUBLISHED;
+  if (status !== 'all') {
+    if (!(Object.values(ResourceStatus) as string[]).includes(status)) {
+      return `无效的状态: ${status} (可选: ${Object.values(ResourceStatus).join(', ')}, all)`;
+    }
+    listOptions.status = status as ResourceStatus;
+  }
+
+  if (options.all) {
+    listOptions.pageSize = Infinity;
+  } else {
+    listOptions.page = parseInt(options.page || '1', 10);
+    listOptions.pageSize = parseInt(options.pageSize || String(DEFAULT_EPISODE_PAGE_SIZE), 10);
+    if (isNaN(listOptions.page) || listOptions.page < 1) {
+      return `无效的页码: ${options.page}`;
+    }
+    if (isNaN(listOptions.pageSize) || listOptions.pageSize < 1) {
+      return `无效的每页数量: ${options.pageSize}`;
+    }
+  }
+
+  if (options.since) {
+    const since = new Date(options.since);
+    if (isNaN(since.getTime())) {
+      return `无效的日期: ${options.since} (格式: 2026-01-31)`;
+    }
+    listOptions.since = since;
+  }
+
+  return listOptions;
+}
+
+export async function episodesCommand(
+  client: XiaoYuzhouClient,
+  options: {
+    showId: string;
+    status?: string;
+    page?: string;
+    pageSize?: string;
+    all?: boolean;
+    since?: string;
+    format?: string;
+    out?: string;
+  }
+): Promise<void> {
+  const format = options.format || 'table';
+  if (!isOutputFormat(format)) {
+    console.error(chalk.red(`  ✗ 无效的输出格式: ${format} (可选: ${OUTPUT_FORMATS.join(', ')})\n`));
+    return;
+  }
+
+  const listOptions = parseListOptions(options);
+  if (typeof listOptions === 'string') {
+    console.error(chalk.red(`  ✗ ${listOptions}\n`));
+    return;
+  }
+
+  // Machine-readable output on stdout must stay clean, so chrome goes to stderr
+  const machine = format !== 'table' && !options.out;
+  if (!machine) {
+    console.log(chalk.cyan('\n  小宇宙创作者助手 - 单集列表\n'));
+  }
+
+  if (!client.isAuthenticated()) {
+    console.error(chalk.yellow('  ⚠ 您尚未登录'));
+    console.error(chalk.dim('  请先运行: xiaoyuzhou login\n'));
+    return;
+  }
+
+  const spinner = ora('获取单集列表...').start();
+
+  let result: EpisodePage;
+  try {
+    result = await client.listEpisodes(options.showId, listOptions);
+    spinner.succeed(chalk.green(`获取到 ${result.items.length} 个单集`));
+  } catch (error) {
+    spinner.fail(chalk.red('获取单集列表失败'));
+    await client.getErrorHandler().handle(error as Error, {
+      module: 'cli',
+      action: 'episodes'
+    });
+    return;
+  }
+
+  if (format === 'table') {
+    if (result.items.length === 0) {
+      console.log(chalk.dim('\n  没有符合条件的单集\n'));
+      return;
+    }
+    writeOutput(`\n${formatOutput(format, result.items, EPISODE_COLUMNS)}\n`, options.out);
+  } else {
+    writeOutput(formatOutput(format, result.items, EPISODE_EXPORT_COLUMNS, result), options.out);
+  }
+
+  if (!machine) {
+    if (options.out) {
+      console.log(chalk.green(`  ✓ 已导出到 ${options.out}`));
+    }
+    if (result.hasMore) {
+      console.log(chalk.dim(`  还有更多单集，使用 --page ${result.page + 1} 查看下一页`));
+    }
+    console.log();
+  }
+}
@@ -5,3 +5,16 @@
 export * from './login';
 export * from './check';
 export * from './publish';
+export * from './profile';
+export * from './session';
+export * from './upload';
+export * from './episode';
+export * from './episodes';
+export * from './stats';
+export * from './shows';
+export * from './diff';
+export * from './comments';
+export * from './withdraw';
+export * from './title-policy';
+export * from './config';
+export * from './ai';
@@ -5,7 +5,9 @@
 import chalk from 'chalk';
 import ora, { Ora } from 'ora';
 import { XiaoYuzhouClient } from '../../core/client';
-import { LoginMethod } from '../../core/types';
+import { format } from 'date-fns';
+import { LoginMethod, QRCodeChallenge, SessionStatus } from '../../core/types';
+import { renderQRMatrix } from '../../utils/qrcode';
 import * as prompts from '../prompts/auth.prompts';
 
 // =====================================================
@@ -16,11 +18,52 @@ function showBanner(): void {
   console.log(chalk.cyan('\n  小宇宙创作者助手 v1.0.0\n'));
 }
 
+/**
+ * Print the login QR code captured in headless mode
+ */
+function displayQRCode(challenge: QRCodeChallenge): void {
+  console.log(chalk.cyan(challenge.refreshed ? '\n  二维码已刷新，请重新扫码:\n' : '\n  请使用小宇宙 App 扫描二维码登录:\n'));
+
+  if (challenge.matrix.length > 0) {
+    console.log(renderQRMatrix(challenge.matrix));
+  } else {
+    console.log(chalk.yellow('  ⚠ 无法在终端中显示二维码'));
+  }
+
+  if (challenge.imagePath) {
+    console.log(chalk.dim(`\n  二维码图片已保存: ${challenge.imagePath}`));
+  }
+
+  console.log();
+}
+
+/**
+ * Read the first line from stdin (for piping the SMS code in automation)
+ */
+async function readLineFromStdin(): Promise<string> {
+  const readline = await import('readline');
+  const rl = readline.createInterface({ input: process.stdin });
+
+  try {
+    for await (const line of rl) {
+      if (line.trim()) {
+        return line.trim();
+      }
+    }
+    return '';
+  } finally {
+    rl.close();
+  }
+}
+
 // =====================================================
 // Login Command
 // =====================================================
 
-export async function loginCommand(client: XiaoYuzhouClient, options: { force?: boolean; method?: string }): Promise<void> {
+export async function loginCommand(
+  client: XiaoYuzhouClient,
+  options: { force?: boolean; method?: string; saveQr?: boolean; phone?: string; code?: string }
+): Promise<void> {
   showBanner();
 
   // Check if already logged in
@@ -66,6 +109,8 @@ export async function loginCommand(client: XiaoYuzhouClient, options: { force?:
       console.log(chalk.dim('  支持的登录方式: qr (扫码), sms (验证码)\n'));
       return;
     }
+  } else if (options.phone) {
+    method = LoginMethod.PHONE_CODE;
   }
 
   // Perform login
@@ -74,7 +119,34 @@ export async function loginCommand(client: XiaoYuzhouClient, options: { force?:
   try {
     const success = await client.login({
       force: options.force,
-      method
+      method,
+      saveQRImage: options.saveQr,
+      onQRCode: (challenge) => {
+        spinner.stop();
+        displayQRCode(challenge);
+        spinner.start('等待扫码确认...');
+      },
+      phone: options.phone,
+      getPhoneNumber: async () => {
+        spinner.stop();
+        const phone = await prompts.promptPhoneNumber();
+        spinner.start('正在发送验证码...');
+        return phone;
+      },
+      getVerificationCode: async () => {
+        spinner.stop();
+
+        let code = options.code;
+        if (!code && !process.stdin.isTTY) {
+          code = await readLineFromStdin();
+        }
+        if (!code) {
+          code = await prompts.promptVerificationCode();
+        }
+
+        spinner.start('正在验证...');
+        return code;
+      }
     });
 
     if (success) {
@@ -101,6 +173,27 @@ export async function loginCommand(client: XiaoYuzhouClient, options: { force?:
   }
 }
 
+/**
+ * Ask the user to login again whenever the platform rejects the session
+ *
+ * Without an interactive terminal the operation fails with TOKEN_EXPIRED.
+ */
+export function enableReauthPrompt(client: XiaoYuzhouClient): void {
+  client.setReauthHandler(async () => {
+    if (!process.stdin.isTTY) {
+      return false;
+    }
+
+    console.log(chalk.yellow('\n  ⚠ 登录已失效'));
+    if (!await prompts.promptReauth()) {
+      return false;
+    }
+
+    await loginCommand(client, { force: true });
+    return client.isAuthenticated();
+  });
+}
+
 /**
  * Logout command
  */
@@ -120,16 +213,38 @@ export async function logoutCommand(client: XiaoYuzhouClient): Promise<void> {
   }
 }
 
+/**
+ * Session status labels
+ */
+const SESSION_STATUS_LABELS: Record<SessionStatus, string> = {
+  [SessionStatus.VALID]: chalk.green('有效'),
+  [SessionStatus.EXPIRED]: chalk.red('已过期'),
+  [SessionStatus.INVALID]: chalk.red('无效'),
+  [SessionStatus.MISSING]: chalk.yellow('未找到'),
+  [SessionStatus.UNKNOWN]: chalk.yellow('无法验证')
+};
+
 /**
  * Status command
  */
 export async function statusCommand(client: XiaoYuzhouClient): Promise<void> {
   console.log(chalk.cyan('\n  小宇宙创作者助手 - 状态\n'));
 
-  const authenticated = client.isAuthenticated();
   const currentAdapter = client.getCurrentAdapter();
 
+  const spinner = ora('正在验证登录状态...').start();
+  const validation = await client.validateSession();
+  spinner.stop();
+
+  const authenticated = validation.status === SessionStatus.VALID;
+
+  console.log(`  账号配置: ${chalk.dim(client.getProfile())}`);
   console.log(`  认证状态: ${authenticated ? chalk.green('已登录') : chalk.red('未登录')}`);
+  console.log(`  会话状态: ${SESSION_STATUS_LABELS[validation.status]}${validation.errorCode ? chalk.dim(` (${validation.errorCode})`) : ''}`);
+
+  if (validation.error) {
+    console.log(`  ${chalk.dim(validation.error)}`);
+  }
 
   if (authenticated) {
     const userInfo = client.getUserInfo();
@@ -139,5 +254,21 @@ export async function statusCommand(client: XiaoYuzhouClient): Promise<void> {
     }
   }
 
-  console.log(`  当前适配器: ${chalk.dim(currentAdapter)}\n`);
+  if (validation.cookies.length > 0) {
+    console.log(chalk.cyan('\n  Cookie 有效期:\n'));
+
+    validation.cookies.forEach(cookie => {
+      const expiry = cookie.expiresAt
+        ? format(new Date(cookie.expiresAt), 'yyyy-MM-dd HH:mm')
+        : '会话 Cookie';
+      const label = cookie.expired ? chalk.red(`${expiry} (已过期)`) : chalk.dim(expiry);
+      console.log(`  ${cookie.name.padEnd(24)} ${chalk.dim(cookie.domain.padEnd(28))} ${label}`);
+    });
+  }
+
+  if (validation.status === SessionStatus.EXPIRED || validation.status === SessionStatus.INVALID) {
+    console.log(chalk.yellow('\n  ⚠ 请运行 xiaoyuzhou login --force 重新登录'));
+  }
+
+  console.log(`\n  当前适配器: ${chalk.dim(currentAdapter)}\n`);
 }
@@ -0,0 +1,103 @@
+/**
+ * Profile command implementation - Manage account profiles
+ */
+
+import chalk from 'chalk';
+import inquirer from 'inquirer';
+import { XiaoYuzhouClient } from '../../core/client';
+import { AppError } from '../../services/error-handler';
+import { DEFAULT_PROFILE } from '../../storage/profile';
+
+// =====================================================
+// Profile Commands
+// =====================================================
+
+/**
+ * Run a profile operation and report validation errors inline
+ */
+async function runProfileAction(client: XiaoYuzhouClient, action: string, fn: () => void): Promise<void> {
+  try {
+    fn();
+  } catch (error) {
+    if (error instanceof AppError) {
+      console.log(chalk.red(`  ✗ ${error.message}\n`));
+      return;
+    }
+    await client.getErrorHandler().handle(error as Error, {
+      module: 'cli',
+      action
+    });
+  }
+}
+
+/**
+ * List profiles
+ */
+export async function profileListCommand(client: XiaoYuzhouClient): Promise<void> {
+  const manager = client.getProfileManager();
+  const active = manager.getActive();
+
+  console.log(chalk.cyan('\n  账号配置列表:\n'));
+
+  manager.list().forEach(profile => {
+    const marker = profile.name === active ? chalk.green('*') : ' ';
+    const dir = manager.getProfileDir(profile.name);
+    console.log(`  ${marker} ${chalk.bold(profile.name)} ${chalk.dim(dir)}`);
+  });
+
+  console.log();
+}
+
+/**
+ * Add a profile
+ */
+export async function profileAddCommand(client: XiaoYuzhouClient, name: string, options: { use?: boolean } = {}): Promise<void> {
+  await runProfileAction(client, 'profile-add', () => {
+    const manager = client.getProfileManager();
+    manager.add(name);
+    console.log(chalk.green(`  ✓ 已添加账号配置: ${name}`));
+
+    if (options.use) {
+      manager.use(name);
+      console.log(chalk.green(`  ✓ 已切换到: ${name}`));
+    }
+
+    console.log(chalk.dim(`  运行 xiaoyuzhou login --profile ${name} 登录该账号\n`));
+  });
+}
+
+/**
+ * Remove a profile
+ */
+export async function profileRemoveCommand(client: XiaoYuzhouClient, name: string, options: { yes?: boolean } = {}): Promise<void> {
+  if (name !== DEFAULT_PROFILE && !options.yes) {
+    const { confirm } = await inquirer.prompt([
+      {
+        type: 'confirm',
+        name: 'confirm',
+        message: `确认删除账号配置 "${name}" 及其登录信息?`,
+        default: false
+      }
+    ]);
+
+    if (!confirm) {
+      console.log(chalk.dim('  已取消\n'));
+      return;
+    }
+  }
+
+  await runProfileAction(client, 'profile-remove', () => {
+    client.getProfileManager().remove(name);
+    console.log(chalk.green(`  ✓ 已删除账号配置: ${name}\n`));
+  });
+}
+
+/**
+ * Switch active profile
+ */
+export async function profileUseCommand(client: XiaoYuzhouClient, name: string): Promise<void> {
+  await runProfileAction(client, 'profile-use', () => {
+    client.getProfileManager().use(name);
+    console.log(chalk.green(`  ✓ 当前账号配置: ${name}\n`));
+  });
+}
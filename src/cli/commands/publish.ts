@@ -2,11 +2,254 @@
  * Publish command implementation - Publish unpublished resources
  */
 
+import fs from 'fs';
+import path from 'path';
 import chalk from 'chalk';
 import ora, { Ora } from 'ora';
+import inquirer from 'inquirer';
 import { XiaoYuzhouClient } from '../../core/client';
 import { PublishResult } from '../../core/types';
+import type { TitleStrategy } from '../../core/title-policy';
+import type { ResourcePublishOverride } from '../../adapters/base';
+import { readTranscript } from '../../ai/shownotes';
 import * as prompts from '../prompts/auth.prompts';
+import { runAITask } from './ai';
+import { openEditor, editorTempFile } from './episode';
+import { parseFrontMatter, stringifyFrontMatter } from '../../utils/front-matter';
+import { getLocalTimeZone, isValidTimeZone, parseDateTimeInZone, formatInTimeZone } from '../../utils/helpers';
+
+// =====================================================
+// Display Functions
+// =====================================================
+
+/**
+ * Title strategy labels
+ */
+export const TITLE_STRATEGY_LABELS: Record<TitleStrategy, string> = {
+  'unchanged': '未修改',
+  'truncate-end': '截断末尾',
+  'truncate-start': '截断开头',
+  'strip-prefix': '去除前缀',
+  'ai': 'AI 缩写',
+  'rejected': '超长拒绝'
+};
+
+/**
+ * Describe the publish page overrides applied to a result
+ */
+function formatOverrides(result: PublishResult): string {
+  const overrides = result.appliedOverrides;
+  if (!overrides) {
+    return '';
+  }
+
+  const parts: string[] = [];
+  if (overrides.notify !== undefined) {
+    parts.push(overrides.notify ? '已开启订阅通知' : '已关闭订阅通知');
+  }
+  if (overrides.description) {
+    parts.push(overrides.description === 'appended' ? '简介已追加' : '简介已替换');
+  }
+  if (overrides.title) {
+    parts.push(`标题已替换为「${overrides.title}」`);
+  }
+  if (overrides.titleStrategy) {
+    parts.push(`标题已调整（${TITLE_STRATEGY_LABELS[overrides.titleStrategy]}）`);
+  }
+
+  return parts.join(' · ');
+}
+
+// =====================================================
+// AI Shownotes
+// =====================================================
+
+const TRANSCRIPT_EXTENSIONS = ['.txt', '.srt', '.vtt', '.md'];
+
+/**
+ * How AI drafts are approved: asked one by one, all accepted (--yes), or
+ * only printed when nobody can answer (no terminal and no --yes)
+ */
+type AIDraftApproval = 'prompt' | 'accept' | 'print';
+
+/**
+ * Find a resource's transcript in a directory: <resourceId>.<ext> or <title>.<ext>
+ */
+function findTranscript(dir: string, resourceId: string, title?: string): string | undefined {
+  for (const name of [resourceId, title]) {
+    if (!name) {
+      continue;
+    }
+    for (const extension of TRANSCRIPT_EXTENSIONS) {
+      const file = path.join(dir, `${name}${extension}`);
+      if (fs.existsSync(file)) {
+        return file;
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Let the user edit an AI draft as front matter (title) + Markdown (shownotes)
+ * @returns The edited override, or null when the editor failed
+ */
+function editAIDraft(resourceId: string, draft: ResourcePublishOverride): ResourcePublishOverride | null {
+  const file = editorTempFile('publish', resourceId);
+  fs.writeFileSync(file, stringifyFrontMatter(
+    { title: draft.title || '' },
+    draft.description || '',
+    { title: '单集标题 (留空保留草稿标题)；正文为 Markdown 格式的单集简介 (留空保留原简介)' }
+  ), 'utf-8');
+
+  try {
+    if (!openEditor(file)) {
+      return null;
+    }
+    const { data, body } = parseFrontMatter(fs.readFileSync(file, 'utf-8'));
+    const title = typeof data.title === 'string' ? data.title.trim() : '';
+    return { title: title || undefined, description: body.trim() || undefined };
+  } finally {
+    fs.rmSync(file, { force: true });
+  }
+}
+
+/**
+ * Generate a title and shownotes for one resource until the user approves, edits or skips
+ * @returns The approved override, or null to publish the resource unchanged
+ */
+async function approveAIShownotes(
+  client: XiaoYuzhouClient,
+  resourceId: string,
+  title: string | undefined,
+  transcript: string,
+  approval: AIDraftApproval
+): Promise<ResourcePublishOverride | null> {
+  for (;;) {
+    const spinner = ora('AI 正在生成标题和简介...').start();
+    let draft: ResourcePublishOverride;
+
+    try {
+      const result = await runAITask(client, 'shownotes', transcript, { timestamps: true });
+      draft = { title: result.title, description: result.markdown };
+      spinner.stop();
+    } catch (error) {
+      spinner.fail(chalk.red('生成简介失败'));
+      await client.getErrorHandler().handle(error as Error, {
+        module: 'cli',
+        action: 'publish-ai-shownotes'
+      });
+      return null;
+    }
+
+    console.log(`\n  ${chalk.bold('标题:')} ${draft.title}${title ? chalk.dim(` (原标题: ${title})`) : ''}`);
+    console.log(chalk.dim('  简介:'));
+    console.log((draft.description || '').split('\n').map(line => `    ${line}`).join('\n'));
+    console.log();
+
+    if (approval !== 'prompt') {
+      return approval === 'accept' ? draft : null;
+    }
+
+    const { choice } = await inquirer.prompt([
+      {
+        type: 'list',
+        name: 'choice',
+        message: '如何使用 AI 生成的内容?',
+        choices: [
+          { name: '使用标题和简介', value: 'use' },
+          { name: '仅使用简介 (保留原标题)', value: 'notes' },
+          { name: '编辑后使用', value: 'edit' },
+          { name: '重新生成', value: 'retry' },
+          { name: '跳过 (保留原标题和简介)', value: 'skip' }
+        ]
+      }
+    ]);
+
+    switch (choice) {
+      case 'use':
+        return draft;
+      case 'notes':
+        return { description: draft.description };
+      case 'edit': {
+        const edited = editAIDraft(resourceId, draft);
+        if (!edited) {
+          console.log(chalk.red('  ✗ 编辑器异常退出，保留原标题和简介'));
+          return null;
+        }
+        return edited.title || edited.description ? edited : null;
+      }
+      case 'skip':
+        return null;
+    }
+  }
+}
+
+/**
+ * Review AI titles and shownotes for the selected resources
+ * @returns Per-resource overrides, or null when AI is unavailable
+ */
+async function draftAIShownotes(
+  client: XiaoYuzhouClient,
+  resourceIds: string[],
+  titles: Record<string, string>,
+  options: { transcript?: string; transcriptDir?: string },
+  approval: AIDraftApproval
+): Promise<Record<string, ResourcePublishOverride> | null> {
+  try {
+    client.getAIService();
+  } catch (error) {
+    await client.getErrorHandler().handle(error as Error, {
+      module: 'cli',
+      action: 'publish-ai-shownotes'
+    });
+    return null;
+  }
+
+  const overrides: Record<string, ResourcePublishOverride> = {};
+
+  for (const [index, resourceId] of resourceIds.entries()) {
+    const title = titles[resourceId];
+    console.log(chalk.cyan(`\n  [${index + 1}/${resourceIds.length}] ${title || resourceId}`));
+
+    let file = options.transcript
+      || (options.transcriptDir ? findTranscript(options.transcriptDir, resourceId, title) : undefined);
+
+    if (file) {
+      console.log(chalk.dim(`  文字稿: ${file}`));
+    } else if (approval !== 'prompt') {
+      console.log(chalk.yellow('  ⚠ 未找到文字稿，保留原标题和简介'));
+      continue;
+    } else {
+      const answer = await inquirer.prompt([
+        { type: 'input', name: 'file', message: '文字稿文件 (留空跳过):' }
+      ]);
+      file = answer.file.trim();
+    }
+
+    if (!file) {
+      continue;
+    }
+    if (!fs.existsSync(file)) {
+      console.log(chalk.red(`  ✗ 文字稿不存在: ${file}，保留原标题和简介`));
+      continue;
+    }
+
+    const transcript = readTranscript(file);
+    if (!transcript) {
+      console.log(chalk.red(`  ✗ 文字稿为空: ${file}，保留原标题和简介`));
+      continue;
+    }
+
+    const override = await approveAIShownotes(client, resourceId, title, transcript, approval);
+    if (override) {
+      overrides[resourceId] = override;
+    }
+  }
+
+  console.log();
+  return overrides;
+}
 
 // =====================================================
 // Publish Command
@@ -14,10 +257,67 @@ import * as prompts from '../prompts/auth.prompts';
 
 export async function publishCommand(
   client: XiaoYuzhouClient,
-  options: { resourceIds?: string[]; showId?: string; showName?: string; all?: boolean; notify?: boolean }
+  options: {
+    resourceIds?: string[];
+    showId?: string;
+    showName?: string;
+    all?: boolean;
+    notify?: boolean;
+    at?: string;
+    tz?: string;
+    descriptionFile?: string;
+    appendDescription?: boolean;
+    aiShownotes?: boolean;
+    transcript?: string;
+    transcriptDir?: string;
+    yes?: boolean;
+  }
 ): Promise<void> {
   console.log(chalk.cyan('\n  小宇宙创作者助手 - 发布内容\n'));
 
+  if (options.transcript && !fs.existsSync(options.transcript)) {
+    console.log(chalk.red(`✗ 文字稿不存在: ${options.transcript}\n`));
+    return;
+  }
+
+  // Read the shownotes override up front so a bad path fails fast
+  let description: string | undefined;
+  if (options.descriptionFile) {
+    if (!fs.existsSync(options.descriptionFile)) {
+      console.log(chalk.red(`✗ 文件不存在: ${options.descriptionFile}\n`));
+      return;
+    }
+    description = fs.readFileSync(options.descriptionFile, 'utf-8');
+  }
+
+  // Resolve scheduled release time before doing any work
+  let scheduledAt: Date | undefined;
+  let timeZone: string | undefined;
+  if (options.at) {
+    timeZone = options.tz || getLocalTimeZone();
+
+    if (!isValidTimeZone(timeZone)) {
+      console.log(chalk.red(`✗ 无效的时区: ${timeZone}`));
+      console.log(chalk.dim('  示例: --tz Asia/Shanghai\n'));
+      return;
+    }
+
+    const parsed = parseDateTimeInZone(options.at, timeZone);
+    if (!parsed) {
+      console.log(chalk.red(`✗ 无效的发布时间: ${options.at}`));
+      console.log(chalk.dim('  格式: --at "2026-11-01 08:00"\n'));
+      return;
+    }
+
+    if (parsed.getTime() <= Date.now()) {
+      console.log(chalk.red(`✗ 发布时间已过: ${options.at} (${timeZone})\n`));
+      return;
+    }
+
+    scheduledAt = parsed;
+    console.log(chalk.dim(`  定时发布: ${formatInTimeZone(parsed, timeZone)} (${timeZone})\n`));
+  }
+
   // Ensure authenticated
   if (!client.isAuthenticated()) {
     console.log(chalk.yellow('  ⚠ 您尚未登录'));
@@ -40,6 +340,7 @@ export async function publishCommand(
 
   let resourceIds: string[];
   let targetShowId: string | undefined;
+  const expectedTitles: Record<string, string> = {};
 
   // Resolve show ID from either --show-id or --show-name
   if (options.showId) {
@@ -91,6 +392,11 @@ export async function publishCommand(
 
       spinner.succeed(chalk.green(`找到 ${resources.length} 个未发布的内容`));
 
+      // Remember titles so the adapter can verify it publishes the selected episodes
+      resources.forEach(resource => {
+        expectedTitles[resource.id] = resource.title;
+      });
+
       // Select resources to publish
       if (options.all) {
         resourceIds = resources.map(r => r.id);
@@ -118,8 +424,29 @@ export async function publishCommand(
     return;
   }
 
+  if (options.transcript && resourceIds.length > 1) {
+    console.log(chalk.red('✗ --transcript 只能用于单个资源，多个资源请使用 --transcript-dir\n'));
+    return;
+  }
+
+  // Review AI titles and shownotes before the publish confirmation
+  const approval: AIDraftApproval = options.yes ? 'accept' : process.stdin.isTTY ? 'prompt' : 'print';
+  let overrides: Record<string, ResourcePublishOverride> | undefined;
+  if (options.aiShownotes) {
+    const drafted = await draftAIShownotes(client, resourceIds, expectedTitles, options, approval);
+    if (!drafted) {
+      return;
+    }
+    if (approval === 'print') {
+      console.log(chalk.yellow('  ⚠ 非交互环境下只显示 AI 生成的内容，未发布'));
+      console.log(chalk.dim('  确认无误后加 --yes 使用这些标题和简介发布\n'));
+      return;
+    }
+    overrides = drafted;
+  }
+
   // Confirm publish
-  const confirmed = await prompts.promptPublishConfirmation(resourceIds.length);
+  const confirmed = options.yes || await prompts.promptPublishConfirmation(resourceIds.length);
 
   if (!confirmed) {
     console.log(chalk.dim('  已取消发布\n'));
@@ -127,7 +454,8 @@ export async function publishCommand(
   }
 
   // Publish resources
-  const publishSpinner = ora(`正在发布 ${resourceIds.length} 个内容...`).start();
+  const action = scheduledAt ? '定时发布' : '发布';
+  const publishSpinner = ora(`正在${action} ${resourceIds.length} 个内容...`).start();
 
   // Format resource IDs to include showId if available
   const formattedResourceIds = targetShowId
@@ -137,7 +465,13 @@ export async function publishCommand(
   try {
     const results = await client.publishResources(formattedResourceIds, {
       notify: options.notify ?? true,
-      showId: targetShowId
+      showId: targetShowId,
+      expectedTitles,
+      scheduledAt,
+      timeZone,
+      description,
+      descriptionMode: options.appendDescription ? 'append' : 'replace',
+      overrides
     });
 
     // Count successes and failures
@@ -145,7 +479,7 @@ export async function publishCommand(
     const failures = results.filter(r => !r.success);
 
     if (failures.length === 0) {
-      publishSpinner.succeed(chalk.green(`成功发布 ${successes.length} 个内容!`));
+      publishSpinner.succeed(chalk.green(`成功${action} ${successes.length} 个内容!`));
 
       // Display published URLs
       if (options.notify !== false) {
@@ -156,6 +490,14 @@ export async function publishCommand(
           }
         });
       }
+
+      // Display settings changed on the publish page
+      successes.forEach(result => {
+        const overrides = formatOverrides(result);
+        if (overrides) {
+          console.log(chalk.dim(`  ${result.resourceId}: ${overrides}`));
+        }
+      });
       console.log();
 
     } else if (successes.length === 0) {
@@ -0,0 +1,108 @@
+/**
+ * Session command implementation - Move logins between machines
+ */
+
+import fs from 'fs';
+import chalk from 'chalk';
+import inquirer from 'inquirer';
+import { XiaoYuzhouClient } from '../../core/client';
+import { AppError, DecryptionError } from '../../services/error-handler';
+import { promptPassphrase } from '../prompts/auth.prompts';
+
+// =====================================================
+// Session Commands
+// =====================================================
+
+/**
+ * Export the stored session to an encrypted bundle file
+ */
+export async function sessionExportCommand(
+  client: XiaoYuzhouClient,
+  options: { out: string; passphrase?: string }
+): Promise<void> {
+  try {
+    if (!client.hasStoredSession()) {
+      console.log(chalk.yellow('  ⚠ 当前账号配置没有登录信息，请先运行 xiaoyuzhou login\n'));
+      return;
+    }
+
+    const passphrase = options.passphrase || await promptPassphrase(true);
+    const bundle = client.exportSession(passphrase);
+
+    fs.writeFileSync(options.out, bundle, { encoding: 'utf-8', mode: 0o600 });
+
+    console.log(chalk.green(`  ✓ 会话已导出: ${options.out}`));
+    console.log(chalk.dim(`  在目标机器上运行 xiaoyuzhou session import ${options.out}\n`));
+  } catch (error) {
+    await client.getErrorHandler().handle(error as Error, {
+      module: 'cli',
+      action: 'session-export'
+    });
+  }
+}
+
+/**
+ * Check for a stored session; one that cannot be decrypted still counts,
+ * since importing over it replaces it
+ */
+function hasExistingSession(client: XiaoYuzhouClient): boolean {
+  try {
+    return client.hasStoredSession();
+  } catch (error) {
+    if (error instanceof DecryptionError) {
+      return true;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Import a session bundle into the active profile
+ */
+export async function sessionImportCommand(
+  client: XiaoYuzhouClient,
+  file: string,
+  options: { passphrase?: string; yes?: boolean }
+): Promise<void> {
+  if (!fs.existsSync(file)) {
+    console.log(chalk.red(`  ✗ 文件不存在: ${file}\n`));
+    return;
+  }
+
+  try {
+    if (hasExistingSession(client) && !options.yes) {
+      const { confirm } = await inquirer.prompt([
+        {
+          type: 'confirm',
+          name: 'confirm',
+          message: `账号配置 "${client.getProfile()}" 已有登录信息，确认覆盖?`,
+          default: false
+        }
+      ]);
+
+      if (!confirm) {
+        console.log(chalk.dim('  已取消\n'));
+        return;
+      }
+    }
+
+    const passphrase = options.passphrase || await promptPassphrase();
+    const metadata = client.importSession(fs.readFileSync(file, 'utf-8'), passphrase);
+
+    console.log(chalk.green(`  ✓ 会话已导入到账号配置: ${client.getProfile()}`));
+    if (metadata.userName) {
+      console.log(chalk.dim(`  用户: ${metadata.userName}`));
+    }
+    console.log(chalk.dim(`  来源: ${metadata.hostname} (${metadata.exportedAt})`));
+    console.log(chalk.dim('  运行 xiaoyuzhou status 验证会话是否有效\n'));
+  } catch (error) {
+    if (error instanceof AppError) {
+      console.log(chalk.red(`  ✗ ${error.message}\n`));
+      return;
+    }
+    await client.getErrorHandler().handle(error as Error, {
+      module: 'cli',
+      action: 'session-import'
+    });
+  }
+}
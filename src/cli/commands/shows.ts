@@ -0,0 +1,94 @@
+/**
+ * Shows command implementation - List the account's shows
+ */
+
+import chalk from 'chalk';
+import ora from 'ora';
+import { XiaoYuzhouClient } from '../../core/client';
+import { Show } from '../../core/types';
+import { Column, OUTPUT_FORMATS, isOutputFormat, formatOutput, writeOutput } from '../output';
+import { parseCacheOptions, printCacheNote } from '../cache';
+import { formatDate } from '../../utils/helpers';
+
+// =====================================================
+// Columns
+// =====================================================
+
+const SHOW_COLUMNS: Column<Show>[] = [
+  { header: 'ID', value: show => show.id },
+  { header: '节目', value: show => show.title, maxWidth: 40 },
+  { header: '单集数', value: show => show.episodeCount },
+  { header: '创建时间', value: show => formatDate(show.createdAt) }
+];
+
+const SHOW_EXPORT_COLUMNS: Column<Show>[] = [
+  { header: 'id', value: show => show.id },
+  { header: 'title', value: show => show.title },
+  { header: 'description', value: show => show.description },
+  { header: 'episodeCount', value: show => show.episodeCount },
+  { header: 'createdAt', value: show => show.createdAt },
+  { header: 'updatedAt', value: show => show.updatedAt }
+];
+
+// =====================================================
+// Shows Command
+// =====================================================
+
+export async function showsCommand(
+  client: XiaoYuzhouClient,
+  options: { cached?: boolean; maxAge?: string; format?: string; out?: string }
+): Promise<void> {
+  const format = options.format || 'table';
+  if (!isOutputFormat(format)) {
+    console.error(chalk.red(`  ✗ 无效的输出格式: ${format} (可选: ${OUTPUT_FORMATS.join(', ')})\n`));
+    return;
+  }
+
+  const cache = parseCacheOptions(options);
+  if (typeof cache === 'string') {
+    console.error(chalk.red(`  ✗ ${cache}\n`));
+    return;
+  }
+
+  // Machine-readable output on stdout must stay clean
+  const machine = format !== 'table' && !options.out;
+  if (!machine) {
+    console.log(chalk.cyan('\n  小宇宙创作者助手 - 节目列表\n'));
+  }
+
+  if (!client.isAuthenticated()) {
+    console.error(chalk.yellow('  ⚠ 您尚未登录'));
+    console.error(chalk.dim('  请先运行: xiaoyuzhou login\n'));
+    return;
+  }
+
+  const spinner = ora('获取节目列表...').start();
+  const requestedAt = Date.now();
+
+  let shows: Show[];
+  try {
+    shows = await client.getShows(cache);
+    spinner.succeed(chalk.green(`找到 ${shows.length} 个节目`));
+  } catch (error) {
+    spinner.fail(chalk.red('获取节目列表失败'));
+    await client.getErrorHandler().handle(error as Error, {
+      module: 'cli',
+      action: 'shows'
+    });
+    return;
+  }
+
+  if (!machine) {
+    printCacheNote(client.getCatalog().getShows(), requestedAt);
+  }
+
+  if (format === 'table') {
+    writeOutput(`\n${formatOutput(format, shows, SHOW_COLUMNS)}\n`, options.out);
+  } else {
+    writeOutput(formatOutput(format, shows, SHOW_EXPORT_COLUMNS), options.out);
+  }
+
+  if (options.out) {
+    console.log(chalk.green(`  ✓ 已导出到 ${options.out}\n`));
+  }
+}
@@ -0,0 +1,199 @@
+/**
+ * Stats command implementation - Show and episode statistics with export
+ */
+
+import chalk from 'chalk';
+import ora from 'ora';
+import { XiaoYuzhouClient } from '../../core/client';
+import { EpisodeStats, ShowStats, StatsPoint, StatsRange, StatsTotals } from '../../core/types';
+import { Column, OUTPUT_FORMATS, isOutputFormat, formatOutput, writeOutput } from '../output';
+import { formatInTimeZone } from '../../utils/helpers';
+
+// =====================================================
+// Range Parsing
+// =====================================================
+
+/**
+ * The platform reports daily statistics in Beijing time
+ */
+const STATS_TIME_ZONE = 'Asia/Shanghai';
+
+const DEFAULT_STATS_DAYS = 30;
+
+function toDay(date: Date): string {
+  return formatInTimeZone(date, STATS_TIME_ZONE).slice(0, 10);
+}
+
+/**
+ * Build the date range from --days or --from/--to
+ * @returns Error message for invalid input
+ */
+function parseRange(options: { days?: string; from?: string; to?: string }): StatsRange | string {
+  const dayPattern = /^\d{4}-\d{2}-\d{2}$/;
+
+  if (options.from || options.to) {
+    const to = options.to || toDay(new Date());
+    if (!options.from || !dayPattern.test(options.from) || !dayPattern.test(to)) {
+      return '请使用 --from YYYY-MM-DD [--to YYYY-MM-DD] 指定日期范围';
+    }
+    if (options.from > to) {
+      return `开始日期晚于结束日期: ${options.from} > ${to}`;
+    }
+    return { from: options.from, to };
+  }
+
+  const days = parseInt(options.days || String(DEFAULT_STATS_DAYS), 10);
+  if (isNaN(days) || days < 1) {
+    return `无效的天数: ${options.days}`;
+  }
+
+  const now = new Date();
+  return {
+    from: toDay(new Date(now.getTime() - (days - 1) * 24 * 3600 * 1000)),
+    to: toDay(now)
+  };
+}
+
+// =====================================================
+// Display Functions
+// =====================================================
+
+function formatNumber(value?: number): string {
+  return value === undefined ? '-' : Math.round(value).toLocaleString('en-US');
+}
+
+function formatRate(value?: number): string {
+  return value === undefined ? '-' : `${(value * 100).toFixed(1)}%`;
+}
+
+function formatChange(current?: number, previous?: number): string {
+  if (current === undefined || previous === undefined) {
+    return '';
+  }
+  const change = current - previous;
+  if (change === 0) {
+    return chalk.dim('0');
+  }
+  return change > 0 ? chalk.green(`+${formatNumber(change)}`) : chalk.red(`-${formatNumber(-change)}`);
+}
+
+function displayTotals(totals: StatsTotals): void {
+  const parts = [
+    `播放量 ${chalk.bold(formatNumber(totals.plays))}`,
+    `订阅 ${chalk.bold(formatNumber(totals.subscribers))}`,
+    `完播率 ${chalk.bold(formatRate(totals.completionRate))}`
+  ];
+  if (totals.comments !== undefined) {
+    parts.push(`评论 ${chalk.bold(formatNumber(totals.comments))}`);
+  }
+  if (totals.likes !== undefined) {
+    parts.push(`点赞 ${chalk.bold(formatNumber(totals.likes))}`);
+  }
+
+  console.log(`  ${parts.join(chalk.dim('  |  '))}\n`);
+}
+
+/**
+ * Trend table columns; the bar is scaled to the busiest day
+ */
+function trendColumns(daily: StatsPoint[]): Column<StatsPoint>[] {
+  const maxPlays = Math.max(0, ...daily.map(point => point.plays ?? 0));
+  const previous = (point: StatsPoint) => daily[daily.indexOf(point) - 1];
+
+  return [
+    { header: '日期', value: point => point.date },
+    { header: '播放', value: point => formatNumber(point.plays) },
+    { header: '环比', value: point => formatChange(point.plays, previous(point)?.plays) },
+    { header: '新增订阅', value: point => formatNumber(point.newSubscribers) },
+    { header: '订阅总数', value: point => formatNumber(point.subscribers) },
+    { header: '完播率', value: point => formatRate(point.completionRate) },
+    {
+      header: '趋势',
+      value: point => maxPlays > 0 ? chalk.cyan('█'.repeat(Math.round(((point.plays ?? 0) / maxPlays) * 20))) : ''
+    }
+  ];
+}
+
+const EXPORT_COLUMNS: Column<StatsPoint>[] = [
+  { header: 'date', value: point => point.date },
+  { header: 'plays', value: point => point.plays },
+  { header: 'newSubscribers', value: point => point.newSubscribers },
+  { header: 'subscribers', value: point => point.subscribers },
+  { header: 'completionRate', value: point => point.completionRate }
+];
+
+// =====================================================
+// Stats Command
+// =====================================================
+
+export async function statsCommand(
+  client: XiaoYuzhouClient,
+  options: {
+    showId: string;
+    episode?: string;
+    days?: string;
+    from?: string;
+    to?: string;
+    format?: string;
+    out?: string;
+  }
+): Promise<void> {
+  const format = options.format || 'table';
+  if (!isOutputFormat(format)) {
+    console.error(chalk.red(`  ✗ 无效的输出格式: ${format} (可选: ${OUTPUT_FORMATS.join(', ')})\n`));
+    return;
+  }
+
+  const range = parseRange(options);
+  if (typeof range === 'string') {
+    console.error(chalk.red(`  ✗ ${range}\n`));
+    return;
+  }
+
+  // Machine-readable output on stdout must stay clean
+  const machine = format !== 'table' && !options.out;
+  if (!machine) {
+    console.log(chalk.cyan('\n  小宇宙创作者助手 - 数据统计\n'));
+  }
+
+  if (!client.isAuthenticated()) {
+    console.error(chalk.yellow('  ⚠ 您尚未登录'));
+    console.error(chalk.dim('  请先运行: xiaoyuzhou login\n'));
+    return;
+  }
+
+  const spinner = ora(options.episode ? '获取单集数据...' : '获取节目数据...').start();
+
+  let stats: ShowStats | EpisodeStats;
+  try {
+    stats = options.episode
+      ? await client.getEpisodeStats(options.showId, options.episode)
+      : await client.getShowStats(options.showId, range);
+    spinner.succeed(chalk.green(`获取到 ${stats.daily.length} 天的数据`));
+  } catch (error) {
+    spinner.fail(chalk.red('获取数据失败'));
+    await client.getErrorHandler().handle(error as Error, {
+      module: 'cli',
+      action: 'stats'
+    });
+    return;
+  }
+
+  if (format === 'table') {
+    const scope = options.episode ? `单集 ${options.episode}` : `${range.from} ~ ${range.to}`;
+    console.log(chalk.dim(`\n  ${scope}\n`));
+    displayTotals(stats.totals);
+
+    if (stats.daily.length === 0) {
+      console.log(chalk.dim('  没有每日趋势数据\n'));
+      return;
+    }
+    writeOutput(`${formatOutput(format, stats.daily, trendColumns(stats.daily))}\n`, options.out);
+  } else {
+    writeOutput(formatOutput(format, stats.daily, EXPORT_COLUMNS, stats), options.out);
+  }
+
+  if (options.out) {
+    console.log(chalk.green(`  ✓ 已导出到 ${options.out}\n`));
+  }
+}
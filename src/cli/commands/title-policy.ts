@@ -0,0 +1,104 @@
+/**
+ * Title policy command implementation - Configure how over-long titles are handled
+ */
+
+import chalk from 'chalk';
+import { XiaoYuzhouClient } from '../../core/client';
+import { TitlePolicy, TitlePolicyMode, isTitlePolicyMode, normalizeTitle } from '../../core/title-policy';
+
+// =====================================================
+// Display Functions
+// =====================================================
+
+/**
+ * Mode descriptions
+ */
+const MODE_LABELS: Record<TitlePolicyMode, string> = {
+  [TitlePolicyMode.REJECT]: '超长时拒绝发布',
+  [TitlePolicyMode.TRUNCATE_END]: '保留开头，截断末尾',
+  [TitlePolicyMode.TRUNCATE_START]: '保留末尾，截断开头',
+  [TitlePolicyMode.SMART]: '去除编号前缀，必要时 AI 缩写'
+};
+
+function displayPolicy(policy: TitlePolicy, scope: string): void {
+  console.log(chalk.cyan(`\n  标题策略 (${scope}):\n`));
+  console.log(`  模式:     ${chalk.bold(policy.mode)} ${chalk.dim(MODE_LABELS[policy.mode] || '')}`);
+  console.log(`  最大长度: ${policy.maxLength}`);
+  console.log(`  AI 缩写:  ${policy.useAI ? '开启' : '关闭'}`);
+  if (policy.stripPatterns && policy.stripPatterns.length > 0) {
+    console.log(`  前缀规则: ${policy.stripPatterns.join('  ')}`);
+  }
+  console.log();
+}
+
+// =====================================================
+// Title Policy Commands
+// =====================================================
+
+/**
+ * Show the effective title policy
+ */
+export async function titlePolicyGetCommand(
+  client: XiaoYuzhouClient,
+  options: { showId?: string; preview?: string } = {}
+): Promise<void> {
+  const policy = client.getTitlePolicy(options.showId);
+  displayPolicy(policy, options.showId ? `节目 ${options.showId}` : '全局');
+
+  if (options.preview) {
+    const result = await normalizeTitle(options.preview, policy);
+    if (!result.accepted) {
+      console.log(chalk.red(`  ✗ 将被拒绝: ${result.reason}\n`));
+    } else {
+      console.log(`  预览: ${result.changed ? chalk.yellow(result.title) : result.title} ${chalk.dim(`(${result.strategy})`)}\n`);
+    }
+  }
+}
+
+/**
+ * Set the title policy globally or for one show
+ */
+export async function titlePolicySetCommand(
+  client: XiaoYuzhouClient,
+  mode: string,
+  options: { showId?: string; maxLength?: string; ai?: boolean; strip?: string[] } = {}
+): Promise<void> {
+  if (!isTitlePolicyMode(mode)) {
+    console.log(chalk.red(`  ✗ 无效的标题策略: ${mode} (可选: ${Object.values(TitlePolicyMode).join(', ')})\n`));
+    process.exitCode = 1;
+    return;
+  }
+
+  const policy: Partial<TitlePolicy> = { mode };
+
+  if (options.maxLength !== undefined) {
+    const maxLength = parseInt(options.maxLength, 10);
+    if (isNaN(maxLength) || maxLength < 1) {
+      console.log(chalk.red(`  ✗ 无效的最大长度: ${options.maxLength}\n`));
+      process.exitCode = 1;
+      return;
+    }
+    policy.maxLength = maxLength;
+  }
+
+  if (options.ai !== undefined) {
+    policy.useAI = options.ai;
+  }
+
+  if (options.strip) {
+    for (const pattern of options.strip) {
+      try {
+        new RegExp(pattern);
+      } catch {
+        console.log(chalk.red(`  ✗ 无效的正则表达式: ${pattern}\n`));
+        process.exitCode = 1;
+        return;
+      }
+    }
+    policy.stripPatterns = options.strip;
+  }
+
+  client.setTitlePolicy(policy, options.showId);
+  console.log(chalk.green(`  ✓ 已更新${options.showId ? `节目 ${options.showId} 的` : '全局'}标题策略`));
+  displayPolicy(client.getTitlePolicy(options.showId), options.showId ? `节目 ${options.showId}` : '全局');
+}
@@ -0,0 +1,76 @@
+/**
+ * Upload command implementation - Create a new episode from a local audio file
+ */
+
+import fs from 'fs';
+import path from 'path';
+import chalk from 'chalk';
+import ora from 'ora';
+import { XiaoYuzhouClient } from '../../core/client';
+import type { UploadProgress } from '../../adapters/base';
+
+// =====================================================
+// Upload Command
+// =====================================================
+
+/**
+ * Progress stage labels
+ */
+const STAGE_LABELS: Record<UploadProgress['stage'], string> = {
+  uploading: '正在上传音频',
+  transcoding: '正在转码',
+  saving: '正在保存单集信息'
+};
+
+export async function uploadCommand(
+  client: XiaoYuzhouClient,
+  audioPath: string,
+  options: { showId: string; title: string; descriptionFile?: string; cover?: string }
+): Promise<void> {
+  console.log(chalk.cyan('\n  小宇宙创作者助手 - 上传单集\n'));
+
+  if (!client.isAuthenticated()) {
+    console.log(chalk.yellow('  ⚠ 您尚未登录'));
+    console.log(chalk.dim('  请先运行: xiaoyuzhou login\n'));
+    return;
+  }
+
+  // Validate local files before starting the browser flow
+  for (const file of [audioPath, options.descriptionFile, options.cover]) {
+    if (file && !fs.existsSync(file)) {
+      console.log(chalk.red(`  ✗ 文件不存在: ${file}\n`));
+      return;
+    }
+  }
+
+  const description = options.descriptionFile
+    ? fs.readFileSync(options.descriptionFile, 'utf-8')
+    : undefined;
+
+  const spinner = ora(`${STAGE_LABELS.uploading}: ${path.basename(audioPath)}`).start();
+
+  try {
+    const resource = await client.uploadResource({
+      showId: options.showId,
+      audioPath,
+      title: options.title,
+      description,
+      coverPath: options.cover,
+      onProgress: (progress) => {
+        const percent = progress.percent !== undefined ? ` ${progress.percent}%` : '';
+        spinner.text = `${STAGE_LABELS[progress.stage]}${percent}`;
+      }
+    });
+
+    spinner.succeed(chalk.green(`上传完成: ${resource.title}`));
+    console.log(chalk.dim(`  资源ID: ${resource.id}`));
+    console.log(chalk.dim(`  运行 xiaoyuzhou publish --show-id ${options.showId} --resource-id ${resource.id} 发布\n`));
+
+  } catch (error) {
+    spinner.fail(chalk.red('上传失败'));
+    await client.getErrorHandler().handle(error as Error, {
+      module: 'cli',
+      action: 'upload'
+    });
+  }
+}
@@ -0,0 +1,167 @@
+/**
+ * Withdraw command implementation - Unpublish episodes, delete resources, cancel schedules
+ */
+
+import chalk from 'chalk';
+import ora from 'ora';
+import inquirer from 'inquirer';
+import { XiaoYuzhouClient } from '../../core/client';
+import { Resource, ResourceStatus } from '../../core/types';
+
+// =====================================================
+// Shared Flow
+// =====================================================
+
+/**
+ * Destructive operation as shown to the user
+ */
+interface WithdrawAction {
+  name: string;
+  label: string;
+  heading: string;
+  requiredStatus?: ResourceStatus;
+  irreversible?: boolean;
+  run: (client: XiaoYuzhouClient, showId: string, id: string, title?: string) => Promise<void>;
+}
+
+const STATUS_LABELS: Record<ResourceStatus, string> = {
+  [ResourceStatus.DRAFT]: '草稿',
+  [ResourceStatus.SCHEDULED]: '定时发布',
+  [ResourceStatus.PUBLISHED]: '已发布'
+};
+
+/**
+ * Look up the resource for the confirmation prompt
+ *
+ * Drafts that only appear in the resource library may not be listed,
+ * so a missing resource is reported but does not stop the operation.
+ */
+async function findResource(client: XiaoYuzhouClient, showId: string, id: string): Promise<Resource | undefined> {
+  const spinner = ora('获取资源信息...').start();
+
+  try {
+    const resource = (await client.getResources(showId)).find(item => item.id === id);
+    if (resource) {
+      spinner.succeed(`${resource.title} ${chalk.dim(`(${STATUS_LABELS[resource.status]})`)}`);
+    } else {
+      spinner.warn(chalk.yellow(`节目主页未列出资源 ${id}，将直接在平台上查找`));
+    }
+    return resource;
+  } catch {
+    spinner.warn(chalk.yellow('无法获取资源信息，将直接在平台上查找'));
+    return undefined;
+  }
+}
+
+async function runWithdrawAction(
+  client: XiaoYuzhouClient,
+  action: WithdrawAction,
+  id: string,
+  options: { showId: string; yes?: boolean }
+): Promise<void> {
+  console.log(chalk.cyan(`\n  小宇宙创作者助手 - ${action.heading}\n`));
+
+  if (!client.isAuthenticated()) {
+    console.log(chalk.yellow('  ⚠ 您尚未登录'));
+    console.log(chalk.dim('  请先运行: xiaoyuzhou login\n'));
+    return;
+  }
+
+  if (!options.yes && !process.stdin.isTTY) {
+    console.log(chalk.red('  ✗ 非交互环境下请使用 --yes 确认操作\n'));
+    return;
+  }
+
+  const resource = await findResource(client, options.showId, id);
+
+  if (resource && action.requiredStatus && resource.status !== action.requiredStatus) {
+    console.log(chalk.red(`  ✗ 资源当前状态为${STATUS_LABELS[resource.status]}，无法${action.label}\n`));
+    return;
+  }
+
+  if (!options.yes) {
+    const target = resource ? `"${resource.title}"` : id;
+    const { confirm } = await inquirer.prompt([
+      {
+        type: 'confirm',
+        name: 'confirm',
+        message: `确认${action.label} ${target}?${action.irreversible ? ' 此操作不可撤销' : ''}`,
+        default: false
+      }
+    ]);
+
+    if (!confirm) {
+      console.log(chalk.dim('  已取消\n'));
+      return;
+    }
+  }
+
+  const spinner = ora(`正在${action.label}...`).start();
+
+  try {
+    await action.run(client, options.showId, id, resource?.title);
+    spinner.succeed(chalk.green(`已${action.label}: ${resource?.title || id}`));
+    console.log(chalk.dim(`  操作已记录到 ${client.getAuditLog().getLogPath()}\n`));
+  } catch (error) {
+    spinner.fail(chalk.red(`${action.label}失败`));
+    await client.getErrorHandler().handle(error as Error, {
+      module: 'cli',
+      action: action.name
+    });
+  }
+}
+
+// =====================================================
+// Withdraw Commands
+// =====================================================
+
+/**
+ * Withdraw a published episode
+ */
+export async function unpublishCommand(
+  client: XiaoYuzhouClient,
+  episodeId: string,
+  options: { showId: string; yes?: boolean }
+): Promise<void> {
+  await runWithdrawAction(client, {
+    name: 'unpublish',
+    label: '下架',
+    heading: '下架单集',
+    requiredStatus: ResourceStatus.PUBLISHED,
+    run: (c, showId, id, title) => c.unpublishEpisode(showId, id, title)
+  }, episodeId, options);
+}
+
+/**
+ * Delete a resource
+ */
+export async function deleteCommand(
+  client: XiaoYuzhouClient,
+  resourceId: string,
+  options: { showId: string; yes?: boolean }
+): Promise<void> {
+  await runWithdrawAction(client, {
+    name: 'delete',
+    label: '删除',
+    heading: '删除资源',
+    irreversible: true,
+    run: (c, showId, id, title) => c.deleteResource(showId, id, title)
+  }, resourceId, options);
+}
+
+/**
+ * Cancel a scheduled release
+ */
+export async function cancelScheduleCommand(
+  client: XiaoYuzhouClient,
+  resourceId: string,
+  options: { showId: string; yes?: boolean }
+): Promise<void> {
+  await runWithdrawAction(client, {
+    name: 'cancel-schedule',
+    label: '取消定时发布',
+    heading: '取消定时发布',
+    requiredStatus: ResourceStatus.SCHEDULED,
+    run: (c, showId, id, title) => c.cancelSchedule(showId, id, title)
+  }, resourceId, options);
+}
@@ -2,14 +2,33 @@
  * CLI entry point
  */
 
+import fs from 'fs';
 import { Command } from 'commander';
 import chalk from 'chalk';
 import figlet from 'figlet';
 import { XiaoYuzhouClient } from '../core/client';
-import { loginCommand, logoutCommand, statusCommand } from './commands/login';
+import { LogLevel } from '../core/types';
+import { StrategyMode } from '../strategy/engine';
+import { LoadedConfig, loadAppConfig } from '../core/config';
+import type { DataSource } from '../adapters';
+import { loginCommand, logoutCommand, statusCommand, enableReauthPrompt } from './commands/login';
 import { checkCommand } from './commands/check';
 import { publishCommand } from './commands/publish';
+import { uploadCommand } from './commands/upload';
+import { episodeEditCommand } from './commands/episode';
+import { episodesCommand } from './commands/episodes';
+import { statsCommand } from './commands/stats';
+import { showsCommand } from './commands/shows';
+import { diffCommand } from './commands/diff';
+import { commentsListCommand, commentsReplyCommand, commentsPinCommand, commentsDeleteCommand } from './commands/comments';
+import { unpublishCommand, deleteCommand, cancelScheduleCommand } from './commands/withdraw';
+import { profileListCommand, profileAddCommand, profileRemoveCommand, profileUseCommand } from './commands/profile';
+import { sessionExportCommand, sessionImportCommand } from './commands/session';
+import { titlePolicyGetCommand, titlePolicySetCommand } from './commands/title-policy';
+import { configShowCommand } from './commands/config';
+import { aiCommand } from './commands/ai';
 import { startREPL } from './repl';
+import { AppError, getErrorHandler } from '../services/error-handler';
 
 // =====================================================
 // Banner
@@ -44,18 +63,26 @@ export function createCLI(): Command {
   program
     .option('-d, --debug', '启用调试模式')
     .option('-v, --verbose', '详细输出')
-    .option('-i, --interactive', '交互模式 (REPL)');
+    .option('-i, --interactive', '交互模式 (REPL)')
+    .option('-P, --profile <name>', '使用指定的账号配置')
+    .option('--data-source <source>', '数据来源: auto (网络响应优先) | network | dom', 'auto')
+    .option('--strategy <mode>', `操作方式: ${Object.values(StrategyMode).join(' | ')} (默认 playwright, 浏览器不可用时改用 HTTP)`)
+    .option('--base-url <url>', '创作者平台地址 (覆盖 config.json 的 platform.origin 与 XYZ_BASE_URL)');
 
-  // Config command - start web server
-  program
+  // Config commands - web config page (default) and effective settings
+  const config = program
     .command('config')
+    .description('配置管理 (默认启动Web配置界面)');
+
+  config
+    .command('web', { isDefault: true })
     .description('启动Web配置界面')
     .option('-p, --port <port>', '端口号', '3737')
     .action(async (options) => {
       const { startConfigServer } = await import('../web/server');
       const server = await startConfigServer({
         port: parseInt(options.port),
-        storageDir: '.storage'
+        storageDir: loadConfig(program.opts()).config.storageDir
       });
 
       // Keep server running
@@ -66,15 +93,52 @@ export function createCLI(): Command {
       });
     });
 
+  config
+    .command('show')
+    .description('显示生效的配置及其来源')
+    .option('-f, --format <format>', '输出格式: table | json | csv', 'table')
+    .option('-o, --out <file>', '输出到文件')
+    .action(async (options) => {
+      await configShowCommand(loadConfig(program.opts()), options);
+    });
+
+  // Mock server command - local creator site for offline testing
+  program
+    .command('mock-server')
+    .description('启动本地模拟创作者站点 (离线测试)')
+    .option('-p, --port <port>', '端口号', '4310')
+    .option('--seed <file>', '初始数据 JSON 文件 (shows / episodes / comments)')
+    .option('--qr-delay <seconds>', '扫码登录自动完成前的等待秒数 (0 为不自动完成)', '3')
+    .action(async (options) => {
+      const { startMockServer } = await import('../mock/server');
+      const seed = options.seed ? JSON.parse(fs.readFileSync(options.seed, 'utf-8')) : undefined;
+      const server = await startMockServer({
+        port: parseInt(options.port),
+        seed,
+        qrScanDelay: parseFloat(options.qrDelay) * 1000
+      });
+
+      console.log(chalk.cyan('\n  小宇宙创作者助手 - 模拟站点\n'));
+      console.log(`  模拟站点已启动: ${server.getUrl()}`);
+      console.log(chalk.dim(`  使用方式: xiaoyuzhou --base-url ${server.getUrl()} -P mock check\n`));
+
+      process.on('SIGINT', async () => {
+        console.log(chalk.yellow('\n  正在停止模拟站点...'));
+        await server.stop();
+        process.exit(0);
+      });
+    });
+
   // Interactive mode (REPL)
   program
     .command('repl')
     .description('启动交互模式')
     .alias('i')
-    .action(async () => {
+    .option('--headless', '无头模式运行浏览器 (终端扫码登录)')
+    .action(async (options) => {
       showBanner();
 
-      const client = createClient({ debug: false });
+      const client = createClient({ ...program.opts(), debug: false, headless: options.headless });
       try {
         await startREPL(client);
       } finally {
@@ -88,12 +152,16 @@ export function createCLI(): Command {
     .description('登录小宇宙账号')
     .option('-f, --force', '强制重新登录')
     .option('-m, --method <method>', '登录方式 (qr=扫码, sms=验证码)')
+    .option('--headless', '无头模式运行浏览器 (在终端显示二维码)')
+    .option('--save-qr', '同时将二维码保存为 PNG 图片')
+    .option('--phone <phone>', '手机号 (验证码登录)')
+    .option('--code <code>', '短信验证码 (未提供时从标准输入读取或提示输入)')
     .action(async (options) => {
       if (!options.debug) {
         showBanner();
       }
 
-      const client = createClient(options);
+      const client = createClient({ ...program.opts(), ...options });
       try {
         await loginCommand(client, options);
       } finally {
@@ -106,7 +174,7 @@ export function createCLI(): Command {
     .command('logout')
     .description('退出登录')
     .action(async () => {
-      const client = createClient({});
+      const client = createClient(program.opts());
       try {
         await logoutCommand(client);
       } finally {
@@ -119,7 +187,7 @@ export function createCLI(): Command {
     .command('status')
     .description('查看登录状态')
     .action(async () => {
-      const client = createClient({});
+      const client = createClient(program.opts());
       try {
         await statusCommand(client);
       } finally {
@@ -127,6 +195,42 @@ export function createCLI(): Command {
       }
     });
 
+  // Shows command
+  program
+    .command('shows')
+    .description('列出账号下的节目')
+    .option('--cached', '只使用本地缓存，不访问平台')
+    .option('--max-age <duration>', '缓存未超过该时长时使用缓存 (如 30m, 2h, 1d)')
+    .option('-f, --format <format>', '输出格式: table | json | csv', 'table')
+    .option('-o, --out <file>', '输出到文件')
+    .option('--headless', '无头模式运行浏览器')
+    .action(async (options) => {
+      const client = createClient({ ...program.opts(), ...options });
+      try {
+        await showsCommand(client, options);
+      } finally {
+        await client.dispose();
+      }
+    });
+
+  // Diff command
+  program
+    .command('diff')
+    .description('显示自上次同步以来的变化 (新草稿、新发布、标题修改、状态变化)')
+    .option('-s, --show-id <showId>', '只同步指定节目')
+    .option('--peek', '只查看变化，不更新同步基线')
+    .option('-f, --format <format>', '输出格式: table | json | csv', 'table')
+    .option('-o, --out <file>', '输出到文件')
+    .option('--headless', '无头模式运行浏览器')
+    .action(async (options) => {
+      const client = createClient({ ...program.opts(), ...options });
+      try {
+        await diffCommand(client, options);
+      } finally {
+        await client.dispose();
+      }
+    });
+
   // Check command
   program
     .command('check')
@@ -134,12 +238,14 @@ export function createCLI(): Command {
     .option('-s, --show-id <showId>', '指定节目ID')
     .option('-n, --show-name <showName>', '指定节目名称')
     .option('-j, --json', '以JSON格式输出')
+    .option('--cached', '只使用本地缓存，不访问平台')
+    .option('--max-age <duration>', '缓存未超过该时长时使用缓存 (如 30m, 2h, 1d)')
     .action(async (options) => {
       if (!options.debug) {
         showBanner();
       }
 
-      const client = createClient(options);
+      const client = createClient({ ...program.opts(), ...options });
       try {
         await checkCommand(client, options);
       } finally {
@@ -158,28 +264,455 @@ export function createCLI(): Command {
     .option('-n, --show-name <showName>', '指定节目名称')
     .option('-a, --all', '发布所有未发布内容')
     .option('--no-notify', '不通知订阅者')
+    .option('--at <datetime>', '定时发布时间, 如 "2026-11-01 08:00"')
+    .option('--tz <timezone>', '定时发布时间所在时区 (默认系统时区), 如 Asia/Shanghai')
+    .option('--description-file <file>', '用 Markdown 文件替换单集简介')
+    .option('--append-description', '将简介追加到现有内容之后, 而不是替换')
+    .option('--ai-shownotes', '根据文字稿用 AI 生成标题和简介，逐个确认或编辑后发布')
+    .option('--transcript <file>', '文字稿文件 (发布单个资源时)')
+    .option('--transcript-dir <dir>', '文字稿目录，按 <资源ID> 或 <标题> 加 .txt/.srt/.vtt/.md 查找')
+    .option('-y, --yes', '跳过确认 (与 --ai-shownotes 一起使用时直接采用 AI 生成的标题和简介)')
+    .action(async (options) => {
+      const client = createClient({ ...program.opts(), ...options });
+      try {
+        await publishCommand(client, { ...options, resourceIds: options.resourceId });
+      } finally {
+        await client.dispose();
+      }
+    });
+
+  // Upload command
+  program
+    .command('upload <audio>')
+    .description('上传本地音频创建新单集 (保存为草稿)')
+    .requiredOption('-s, --show-id <showId>', '指定节目ID')
+    .requiredOption('-t, --title <title>', '单集标题')
+    .option('--description-file <file>', '单集简介文件 (如 notes.md)')
+    .option('--cover <file>', '单集封面图片')
+    .option('--headless', '无头模式运行浏览器')
+    .action(async (audio: string, options) => {
+      const client = createClient({ ...program.opts(), ...options });
+      try {
+        await uploadCommand(client, audio, options);
+      } finally {
+        await client.dispose();
+      }
+    });
+
+  // Episodes command
+  program
+    .command('episodes')
+    .description('分页列出节目的单集')
+    .requiredOption('-s, --show-id <showId>', '指定节目ID')
+    .option('--status <status>', '单集状态: published | draft | scheduled | all', 'published')
+    .option('-p, --page <n>', '页码', '1')
+    .option('--page-size <n>', '每页数量', '20')
+    .option('-a, --all', '列出全部单集 (忽略分页)')
+    .option('--since <date>', '只列出此日期之后创建的单集 (如 2026-01-01)')
+    .option('-f, --format <format>', '输出格式: table | json | csv', 'table')
+    .option('-o, --out <file>', '输出到文件')
+    .option('--headless', '无头模式运行浏览器')
+    .action(async (options) => {
+      const client = createClient({ ...program.opts(), ...options });
+      try {
+        await episodesCommand(client, options);
+      } finally {
+        await client.dispose();
+      }
+    });
+
+  // Stats command
+  program
+    .command('stats')
+    .description('查看节目或单集的数据统计 (播放量、订阅、完播率)')
+    .requiredOption('-s, --show-id <showId>', '指定节目ID')
+    .option('-e, --episode <episodeId>', '查看单集数据')
+    .option('--days <n>', '统计最近 N 天', '30')
+    .option('--from <date>', '开始日期 (YYYY-MM-DD)')
+    .option('--to <date>', '结束日期 (YYYY-MM-DD，默认今天)')
+    .option('-f, --format <format>', '输出格式: table | json | csv', 'table')
+    .option('-o, --out <file>', '输出到文件')
+    .option('--headless', '无头模式运行浏览器')
+    .action(async (options) => {
+      const client = createClient({ ...program.opts(), ...options });
+      try {
+        await statsCommand(client, options);
+      } finally {
+        await client.dispose();
+      }
+    });
+
+  // AI commands - generate content from a transcript
+  const ai = program
+    .command('ai')
+    .description('根据文字稿生成节目简介、标题和时间轴 (使用 ai-config.json 中的 AI 配置)');
+
+  ai
+    .command('shownotes <transcript>')
+    .description('生成节目简介 (Markdown 可直接用于 publish --description-file)')
+    .option('--tone <tone>', '语气: professional | casual | enthusiastic | educational')
+    .option('--length <length>', '篇幅: short | medium | long')
+    .option('--keywords <keywords>', '需要包含的关键词 (逗号分隔)')
+    .option('--timestamps', '同时生成时间轴')
+    .option('--seo', '附加 SEO 建议')
+    .option('-f, --format <format>', '输出格式: markdown | json', 'markdown')
+    .option('-o, --out <file>', '输出到文件')
+    .action(async (transcript: string, options) => {
+      const client = createClient(program.opts());
+      try {
+        await aiCommand(client, 'shownotes', transcript, options);
+      } finally {
+        await client.dispose();
+      }
+    });
+
+  ai
+    .command('title <transcript>')
+    .description('生成单集标题')
+    .option('--context <text>', '补充说明 (如暂定标题、节目主题)')
+    .option('--description', '同时生成单集描述')
+    .option('--tone <tone>', '描述的语气: professional | casual | enthusiastic | educational')
+    .option('--seo', '附加 SEO 建议')
+    .option('-f, --format <format>', '输出格式: markdown | json', 'markdown')
+    .option('-o, --out <file>', '输出到文件')
+    .action(async (transcript: string, options) => {
+      const client = createClient(program.opts());
+      try {
+        await aiCommand(client, 'title', transcript, options);
+      } finally {
+        await client.dispose();
+      }
+    });
+
+  ai
+    .command('timestamps <transcript>')
+    .description('生成时间轴 (mm:ss 标题，发布后显示为章节)')
+    .option('-f, --format <format>', '输出格式: markdown | json', 'markdown')
+    .option('-o, --out <file>', '输出到文件')
+    .action(async (transcript: string, options) => {
+      const client = createClient(program.opts());
+      try {
+        await aiCommand(client, 'timestamps', transcript, options);
+      } finally {
+        await client.dispose();
+      }
+    });
+
+  ai
+    .command('analyze <transcript>')
+    .description('分析文字稿 (摘要、主题、建议标题和简介)')
+    .option('-f, --format <format>', '输出格式: markdown | json', 'markdown')
+    .option('-o, --out <file>', '输出到文件')
+    .action(async (transcript: string, options) => {
+      const client = createClient(program.opts());
+      try {
+        await aiCommand(client, 'analyze', transcript, options);
+      } finally {
+        await client.dispose();
+      }
+    });
+
+  // Comment commands
+  const comments = program
+    .command('comments')
+    .description('查看和管理听众评论');
+
+  comments
+    .command('list')
+    .description('列出新评论 (默认自上次检查以来，覆盖所有节目)')
+    .option('-s, --show-id <showId>', '仅查看指定节目')
+    .option('--since <time>', '只显示此时间之后的评论 (如 2026-01-31 或 2026-01-31T08:00)')
+    .option('-a, --all', '忽略上次检查位置，显示最近的全部评论')
+    .option('--peek', '仅查看，不更新检查位置')
+    .option('-l, --limit <n>', '每个节目最多获取的评论数 (默认 100)')
+    .option('-f, --format <format>', '输出格式: table | json | csv', 'table')
+    .option('-o, --out <file>', '输出到文件')
+    .option('--headless', '无头模式运行浏览器')
+    .action(async (options) => {
+      const client = createClient({ ...program.opts(), ...options });
+      try {
+        await commentsListCommand(client, options);
+      } finally {
+        await client.dispose();
+      }
+    });
+
+  comments
+    .command('reply <commentId>')
+    .description('回复评论')
+    .requiredOption('-s, --show-id <showId>', '评论所属的节目ID')
+    .option('-m, --message <text>', '回复内容')
+    .option('--ai', '使用 AI 生成回复草稿，确认或修改后发送')
+    .option('-y, --yes', '跳过发送前的确认')
+    .option('--headless', '无头模式运行浏览器')
+    .action(async (commentId: string, options) => {
+      const client = createClient({ ...program.opts(), ...options });
+      try {
+        await commentsReplyCommand(client, commentId, options);
+      } finally {
+        await client.dispose();
+      }
+    });
+
+  comments
+    .command('pin <commentId>')
+    .description('置顶评论')
+    .requiredOption('-s, --show-id <showId>', '评论所属的节目ID')
+    .option('--unpin', '取消置顶')
+    .option('--headless', '无头模式运行浏览器')
+    .action(async (commentId: string, options) => {
+      const client = createClient({ ...program.opts(), ...options });
+      try {
+        await commentsPinCommand(client, commentId, options);
+      } finally {
+        await client.dispose();
+      }
+    });
+
+  comments
+    .command('delete <commentId>')
+    .description('删除评论 (不可撤销)')
+    .requiredOption('-s, --show-id <showId>', '评论所属的节目ID')
+    .option('-y, --yes', '跳过确认')
+    .option('--headless', '无头模式运行浏览器')
+    .action(async (commentId: string, options) => {
+      const client = createClient({ ...program.opts(), ...options });
+      try {
+        await commentsDeleteCommand(client, commentId, options);
+      } finally {
+        await client.dispose();
+      }
+    });
+
+  // Episode commands
+  const episode = program
+    .command('episode')
+    .description('管理已发布的单集');
+
+  episode
+    .command('edit <episodeId>')
+    .description('在 $EDITOR 中编辑单集标题、简介、封面和章节')
+    .requiredOption('-s, --show-id <showId>', '单集所属的节目ID')
+    .option('-y, --yes', '跳过更新前的确认')
+    .option('--headless', '无头模式运行浏览器')
+    .action(async (episodeId: string, options) => {
+      const client = createClient({ ...program.opts(), ...options });
+      try {
+        await episodeEditCommand(client, episodeId, options);
+      } finally {
+        await client.dispose();
+      }
+    });
+
+  // Withdraw commands
+  program
+    .command('unpublish <episodeId>')
+    .description('下架已发布的单集')
+    .requiredOption('-s, --show-id <showId>', '单集所属的节目ID')
+    .option('-y, --yes', '跳过确认')
+    .option('--headless', '无头模式运行浏览器')
+    .action(async (episodeId: string, options) => {
+      const client = createClient({ ...program.opts(), ...options });
+      try {
+        await unpublishCommand(client, episodeId, options);
+      } finally {
+        await client.dispose();
+      }
+    });
+
+  program
+    .command('delete <resourceId>')
+    .description('从资源库删除资源 (不可撤销)')
+    .requiredOption('-s, --show-id <showId>', '资源所属的节目ID')
+    .option('-y, --yes', '跳过确认')
+    .option('--headless', '无头模式运行浏览器')
+    .action(async (resourceId: string, options) => {
+      const client = createClient({ ...program.opts(), ...options });
+      try {
+        await deleteCommand(client, resourceId, options);
+      } finally {
+        await client.dispose();
+      }
+    });
+
+  program
+    .command('cancel-schedule <resourceId>')
+    .description('取消定时发布')
+    .requiredOption('-s, --show-id <showId>', '资源所属的节目ID')
+    .option('-y, --yes', '跳过确认')
+    .option('--headless', '无头模式运行浏览器')
+    .action(async (resourceId: string, options) => {
+      const client = createClient({ ...program.opts(), ...options });
+      try {
+        await cancelScheduleCommand(client, resourceId, options);
+      } finally {
+        await client.dispose();
+      }
+    });
+
+  // Profile commands
+  const profile = program
+    .command('profile')
+    .description('管理多个账号配置');
+
+  profile
+    .command('list')
+    .alias('ls')
+    .description('列出账号配置')
+    .action(async () => {
+      await profileListCommand(createClient(program.opts()));
+    });
+
+  profile
+    .command('add <name>')
+    .description('添加账号配置')
+    .option('-u, --use', '添加后切换到该配置')
+    .action(async (name: string, options) => {
+      await profileAddCommand(createClient({}), name, options);
+    });
+
+  profile
+    .command('remove <name>')
+    .alias('rm')
+    .description('删除账号配置及其登录信息')
+    .option('-y, --yes', '跳过确认')
+    .action(async (name: string, options) => {
+      await profileRemoveCommand(createClient({}), name, options);
+    });
+
+  profile
+    .command('use <name>')
+    .description('切换当前账号配置')
+    .action(async (name: string) => {
+      await profileUseCommand(createClient({}), name);
+    });
+
+  // Session commands
+  const session = program
+    .command('session')
+    .description('导出/导入登录会话');
+
+  session
+    .command('export')
+    .description('将当前账号的登录会话导出为加密文件')
+    .requiredOption('-o, --out <file>', '输出文件路径')
+    .option('--passphrase <passphrase>', '加密口令 (默认交互输入)')
     .action(async (options) => {
-      const client = createClient(options);
+      const client = createClient(program.opts());
+      try {
+        await sessionExportCommand(client, options);
+      } finally {
+        await client.dispose();
+      }
+    });
+
+  session
+    .command('import <file>')
+    .description('从加密文件导入登录会话')
+    .option('--passphrase <passphrase>', '解密口令 (默认交互输入)')
+    .option('-y, --yes', '覆盖已有会话时跳过确认')
+    .action(async (file: string, options) => {
+      const client = createClient(program.opts());
       try {
-        await publishCommand(client, options);
+        await sessionImportCommand(client, file, options);
       } finally {
         await client.dispose();
       }
     });
 
+  // Title policy commands
+  const titlePolicy = program
+    .command('title-policy')
+    .description('配置超长标题的处理策略');
+
+  titlePolicy
+    .command('get')
+    .description('查看当前标题策略')
+    .option('-s, --show-id <id>', '查看指定节目的策略')
+    .option('--preview <title>', '预览标题在发布时的处理结果')
+    .action(async (options) => {
+      await titlePolicyGetCommand(createClient(program.opts()), options);
+    });
+
+  titlePolicy
+    .command('set <mode>')
+    .description('设置标题策略: reject | truncate-end | truncate-start | smart')
+    .option('-s, --show-id <id>', '仅对指定节目生效')
+    .option('--max-length <n>', '标题最大长度 (默认 60)')
+    .option('--ai', 'smart 模式下使用 AI 缩写标题')
+    .option('--no-ai', '不使用 AI 缩写标题')
+    .option('--strip <regex...>', 'smart 模式下额外去除的标题前缀 (正则)')
+    .action(async (mode: string, options) => {
+      await titlePolicySetCommand(createClient(program.opts()), mode, options);
+    });
+
   return program;
 }
 
+/**
+ * Supported --data-source values
+ */
+const DATA_SOURCES: DataSource[] = ['auto', 'network', 'dom'];
+
+/**
+ * Load the effective config with CLI flags as the top layer
+ */
+function loadConfig(options: { debug?: boolean; headless?: boolean; baseUrl?: string }): LoadedConfig {
+  return loadAppConfig({
+    flags: {
+      debug: options.debug,
+      logLevel: options.debug ? LogLevel.DEBUG : undefined,
+      headless: options.headless,
+      apiBaseUrl: options.baseUrl
+    }
+  });
+}
+
 /**
  * Create client instance
  */
-function createClient(options: { debug?: boolean }): XiaoYuzhouClient {
-  return new XiaoYuzhouClient({
-    debug: options.debug || false,
-    logLevel: options.debug ? 0 : 1, // DEBUG or INFO
-    headless: false,
-    slowMo: 50
+function createClient(options: { debug?: boolean; headless?: boolean; profile?: string; dataSource?: string; strategy?: string; baseUrl?: string }): XiaoYuzhouClient {
+  const dataSource = options.dataSource || 'auto';
+  if (!DATA_SOURCES.includes(dataSource as DataSource)) {
+    console.error(chalk.red(`✗ 无效的数据来源: ${dataSource} (可选: ${DATA_SOURCES.join(', ')})\n`));
+    process.exit(1);
+  }
+
+  const strategies: string[] = Object.values(StrategyMode);
+  if (options.strategy && !strategies.includes(options.strategy)) {
+    console.error(chalk.red(`✗ 无效的操作方式: ${options.strategy} (可选: ${strategies.join(', ')})\n`));
+    process.exit(1);
+  }
+
+  const { config } = loadConfig(options);
+  const client = new XiaoYuzhouClient({
+    debug: config.debug,
+    logLevel: config.logLevel,
+    logDir: config.logDir,
+    storageDir: config.storageDir,
+    headless: config.headless,
+    slowMo: config.slowMo,
+    apiTimeout: config.apiTimeout,
+    enableScreenshots: config.enableScreenshots,
+    debugDir: config.debugDir,
+    profile: options.profile,
+    dataSource: dataSource as DataSource,
+    strategyMode: options.strategy as StrategyMode | undefined,
+    // Only an explicit --base-url; the client resolves config.json and XYZ_BASE_URL itself
+    baseUrl: options.baseUrl ? config.apiBaseUrl : undefined
   });
+
+  // Refuse to silently create sessions for a mistyped profile
+  const profile = client.getProfile();
+  if (!client.getProfileManager().exists(profile)) {
+    console.error(chalk.red(`✗ 账号配置不存在: ${profile}`));
+    console.error(chalk.dim('  运行 xiaoyuzhou profile list 查看可用配置\n'));
+    process.exit(1);
+  }
+
+  enableReauthPrompt(client);
+
+  return client;
 }
 
 // =====================================================
@@ -193,7 +726,7 @@ export async function run(argv: string[]): Promise<void> {
   // Check if interactive mode was requested via global option
   const options = program.opts();
   if (options.interactive) {
-    const client = createClient({ debug: options.debug });
+    const client = createClient(options);
     try {
       await startREPL(client);
     } finally {
@@ -204,8 +737,12 @@ export async function run(argv: string[]): Promise<void> {
 
 // Run if executed directly
 if (require.main === module) {
-  run(process.argv).catch(error => {
-    console.error(chalk.red('Fatal error:'), error);
+  run(process.argv).catch(async error => {
+    if (error instanceof AppError) {
+      await getErrorHandler().handle(error, { module: 'cli', action: 'run' });
+    } else {
+      console.error(chalk.red('Fatal error:'), error);
+    }
     process.exit(1);
   });
 }
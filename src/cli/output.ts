@@ -0,0 +1,135 @@
+/**
+ * CLI output helpers - Render records as table, JSON or CSV
+ */
+
+import fs from 'fs';
+import chalk from 'chalk';
+
+// =====================================================
+// Output Types
+// =====================================================
+
+export type OutputFormat = 'table' | 'json' | 'csv';
+
+export const OUTPUT_FORMATS: OutputFormat[] = ['table', 'json', 'csv'];
+
+/**
+ * Column definition
+ */
+export interface Column<T> {
+  header: string;
+  value: (row: T) => string | number | undefined;
+  maxWidth?: number;  // Table only; longer values are truncated
+}
+
+/**
+ * Check if a string is a supported output format
+ */
+export function isOutputFormat(value: string): value is OutputFormat {
+  return (OUTPUT_FORMATS as string[]).includes(value);
+}
+
+// =====================================================
+// Table
+// =====================================================
+
+/**
+ * Terminal display width (CJK and fullwidth characters take two columns)
+ */
+export function displayWidth(text: string): number {
+  let width = 0;
+  for (const char of text) {
+    const code = char.codePointAt(0)!;
+    width += (code >= 0x1100 && code <= 0x115f)
+      || (code >= 0x2e80 && code <= 0xa4cf)
+      || (code >= 0xac00 && code <= 0xd7a3)
+      || (code >= 0xf900 && code <= 0xfaff)
+      || (code >= 0xfe30 && code <= 0xfe4f)
+      || (code >= 0xff00 && code <= 0xff60)
+      || (code >= 0xffe0 && code <= 0xffe6)
+      || (code >= 0x1f300 && code <= 0x1faff)
+      || (code >= 0x20000 && code <= 0x3fffd) ? 2 : 1;
+  }
+  return width;
+}
+
+function fitWidth(text: string, width: number): string {
+  if (displayWidth(text) <= width) {
+    return text + ' '.repeat(width - displayWidth(text));
+  }
+
+  let result = '';
+  for (const char of text) {
+    if (displayWidth(result + char) > width - 1) {
+      break;
+    }
+    result += char;
+  }
+  result += '…';
+  return result + ' '.repeat(Math.max(0, width - displayWidth(result)));
+}
+
+/**
+ * Render rows as an aligned table
+ */
+export function formatTable<T>(rows: T[], columns: Column<T>[]): string {
+  const cells = rows.map(row => columns.map(column => String(column.value(row) ?? '')));
+  const widths = columns.map((column, index) => Math.min(
+    column.maxWidth ?? Infinity,
+    Math.max(displayWidth(column.header), ...cells.map(row => displayWidth(row[index])))
+  ));
+
+  const header = columns.map((column, index) => chalk.bold(fitWidth(column.header, widths[index]))).join('  ');
+  const separator = chalk.dim(widths.map(width => '─'.repeat(width)).join('  '));
+  const lines = cells.map(row => row.map((cell, index) => fitWidth(cell, widths[index])).join('  ').trimEnd());
+
+  return ['  ' + header, '  ' + separator, ...lines.map(line => '  ' + line)].join('\n');
+}
+
+// =====================================================
+// JSON and CSV
+// =====================================================
+
+function escapeCsv(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Render rows as CSV (RFC 4180 quoting)
+ */
+export function formatCsv<T>(rows: T[], columns: Column<T>[]): string {
+  const lines = [
+    columns.map(column => escapeCsv(column.header)),
+    ...rows.map(row => columns.map(column => escapeCsv(String(column.value(row) ?? ''))))
+  ];
+  return lines.map(line => line.join(',')).join('\n');
+}
+
+/**
+ * Render data in the requested format
+ * @param json - Value serialized for the json format (defaults to the rows)
+ */
+export function formatOutput<T>(format: OutputFormat, rows: T[], columns: Column<T>[], json: unknown = rows): string {
+  switch (format) {
+    case 'json':
+      return JSON.stringify(json, null, 2);
+    case 'csv':
+      return formatCsv(rows, columns);
+    case 'table':
+    default:
+      return formatTable(rows, columns);
+  }
+}
+
+/**
+ * Print output, or write it to a file when a path is given
+ */
+export function writeOutput(content: string, file?: string): void {
+  if (file) {
+    // BOM so spreadsheet apps detect UTF-8 in CSV exports
+    const bom = file.toLowerCase().endsWith('.csv') ? '\ufeff' : '';
+    fs.writeFileSync(file, bom + content + '\n', 'utf-8');
+    return;
+  }
+  console.log(content);
+}
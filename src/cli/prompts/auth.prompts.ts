@@ -115,6 +115,31 @@ export async function promptVerificationCode(): Promise<string> {
   return code;
 }
 
+/**
+ * Prompt user for a passphrase (entered twice when confirming)
+ */
+export async function promptPassphrase(confirm: boolean = false): Promise<string> {
+  const answers = await inquirer.prompt<{ passphrase: string; repeat?: string }>([
+    {
+      type: 'password',
+      name: 'passphrase',
+      message: '请输入口令:',
+      mask: '*',
+      validate: (input: string) => input.length >= 8 || '口令至少需要 8 个字符'
+    },
+    {
+      type: 'password',
+      name: 'repeat',
+      message: '请再次输入口令:',
+      mask: '*',
+      when: () => confirm,
+      validate: (input: string, answers?: { passphrase: string }) => input === answers?.passphrase || '两次输入的口令不一致'
+    }
+  ]);
+
+  return answers.passphrase;
+}
+
 /**
  * Prompt user to select a show
  */
@@ -267,6 +292,22 @@ export async function promptRetry(error: string): Promise<boolean> {
   return retry;
 }
 
+/**
+ * Prompt user to login again after the session was rejected
+ */
+export async function promptReauth(): Promise<boolean> {
+  const { retry } = await inquirer.prompt<RetryAnswer>([
+    {
+      type: 'confirm',
+      name: 'retry',
+      message: '登录已失效，是否立即重新登录?',
+      default: true
+    }
+  ]);
+
+  return retry;
+}
+
 /**
  * Prompt user to continue or exit
  */
@@ -2,11 +2,15 @@
  * Interactive REPL Mode - Continuous conversation-based CLI experience
  */
 
+import fs from 'fs';
 import inquirer from 'inquirer';
 import chalk from 'chalk';
-import { XiaoYuzhouClient } from '../core/client';
+import { XiaoYuzhouClient, CacheOptions } from '../core/client';
 import { Show, Resource } from '../core/types';
 import * as prompts from './prompts/auth.prompts';
+import { parseCacheOptions, printCacheNote } from './cache';
+import { AI_TASKS, AITaskResult, isAITask, runAITask } from './commands/ai';
+import { readTranscript } from '../ai/shownotes';
 
 // =====================================================
 // REPL Command Types
@@ -22,6 +26,7 @@ export enum REPLCommand {
   SHOWS = 'shows',
   CHECK = 'check',
   PUBLISH = 'publish',
+  AI = 'ai',
   HELP = 'help',
   EXIT = 'exit',
   CONFIG = 'config'
@@ -162,13 +167,14 @@ export class InteractiveREPL {
   private getPrompt(): string {
     const userInfo = this.client.getUserInfo();
     const authenticated = this.client.isAuthenticated();
+    const profilePart = `[${this.client.getProfile()}]`;
 
     if (authenticated && userInfo) {
       const showPart = this.currentShow ? `/${this.currentShow.title}` : '';
-      return chalk.cyan(`xiaoyuzhou${showPart}> `);
+      return chalk.cyan(`xiaoyuzhou${profilePart}${showPart}> `);
     }
 
-    return chalk.gray('xiaoyuzhou> ');
+    return chalk.gray(`xiaoyuzhou${profilePart}> `);
   }
 
   /**
@@ -209,6 +215,9 @@ export class InteractiveREPL {
       case 'publish':
         command = REPLCommand.PUBLISH;
         break;
+      case 'ai':
+        command = REPLCommand.AI;
+        break;
       case 'h':
       case 'help':
       case '?':
@@ -250,17 +259,21 @@ export class InteractiveREPL {
         break;
 
       case REPLCommand.SHOWS:
-        await this.cmdShows();
+        await this.cmdShows(parsed.args);
         break;
 
       case REPLCommand.CHECK:
-        await this.cmdCheck();
+        await this.cmdCheck(parsed.args);
         break;
 
       case REPLCommand.PUBLISH:
         await this.cmdPublish(parsed.args);
         break;
 
+      case REPLCommand.AI:
+        await this.cmdAI(parsed.args);
+        break;
+
       case REPLCommand.HELP:
         this.cmdHelp();
         break;
@@ -305,16 +318,46 @@ export class InteractiveREPL {
     await statusCommand(this.client);
   }
 
+  /**
+   * Parse "--cached" / "--max-age <duration>" command arguments
+   * @returns null after printing an error for invalid input
+   */
+  private parseCacheArgs(args: string[]): CacheOptions | null {
+    const maxAgeIndex = args.indexOf('--max-age');
+    const cache = parseCacheOptions({
+      cached: args.includes('--cached'),
+      maxAge: maxAgeIndex === -1 ? undefined : args[maxAgeIndex + 1] ?? ''
+    });
+
+    if (typeof cache === 'string') {
+      console.log(chalk.red(`  ✗ ${cache}`));
+      return null;
+    }
+    return cache;
+  }
+
   /**
    * Shows command - list and select show
    */
-  private async cmdShows(): Promise<void> {
+  private async cmdShows(args: string[] = []): Promise<void> {
     if (!this.client.isAuthenticated()) {
       console.log(chalk.yellow('  ⚠ 请先登录'));
       return;
     }
 
-    const shows = await this.client.getShows();
+    const cache = this.parseCacheArgs(args);
+    if (!cache) {
+      return;
+    }
+
+    const requestedAt = Date.now();
+    let shows: Show[];
+    try {
+      shows = await this.client.getShows(cache);
+    } catch (error) {
+      await this.client.getErrorHandler().handle(error as Error, { module: 'repl', action: 'shows' });
+      return;
+    }
 
     if (shows.length === 0) {
       console.log(chalk.yellow('  没有找到任何节目'));
@@ -322,6 +365,7 @@ export class InteractiveREPL {
     }
 
     console.log(chalk.cyan(`\n  找到 ${shows.length} 个节目:\n`));
+    printCacheNote(this.client.getCatalog().getShows(), requestedAt);
 
     const { action } = await inquirer.prompt([
       {
@@ -345,7 +389,7 @@ export class InteractiveREPL {
   /**
    * Check command - check unpublished resources
    */
-  private async cmdCheck(): Promise<void> {
+  private async cmdCheck(args: string[] = []): Promise<void> {
     if (!this.currentShow) {
       console.log(chalk.yellow('  ⚠ 请先选择一个节目 (输入 "shows")'));
       return;
@@ -356,10 +400,22 @@ export class InteractiveREPL {
       return;
     }
 
+    const cache = this.parseCacheArgs(args);
+    if (!cache) {
+      return;
+    }
+
     const spinner = chalk.dim('检查中...');
     console.log(`  ${spinner}\n`);
 
-    this.unpublishedResources = await this.client.getUnpublishedResources(this.currentShow.id);
+    const requestedAt = Date.now();
+    try {
+      this.unpublishedResources = await this.client.getUnpublishedResources(this.currentShow.id, cache);
+    } catch (error) {
+      await this.client.getErrorHandler().handle(error as Error, { module: 'repl', action: 'check' });
+      return;
+    }
+    printCacheNote(this.client.getCatalog().getResources(this.currentShow.id), requestedAt);
 
     if (this.unpublishedResources.length === 0) {
       console.log(chalk.green('  ✓ 所有内容都已发布！\n'));
@@ -413,7 +469,16 @@ export class InteractiveREPL {
     }
 
     // Publish
-    const results = await this.client.publishResources(resourceIds, { notify: true });
+    const expectedTitles: Record<string, string> = {};
+    this.unpublishedResources.forEach(resource => {
+      expectedTitles[resource.id] = resource.title;
+    });
+
+    const results = await this.client.publishResources(resourceIds, {
+      notify: true,
+      showId: this.currentShow?.id,
+      expectedTitles
+    });
 
     const successes = results.filter(r => r.success);
     const failures = results.filter(r => !r.success);
@@ -430,6 +495,82 @@ export class InteractiveREPL {
     }
   }
 
+  /**
+   * AI command - generate shownotes, title or timestamps for a draft of the current show
+   */
+  private async cmdAI(args: string[]): Promise<void> {
+    const [task, transcriptFile] = args;
+    if (!task || !isAITask(task) || !transcriptFile) {
+      console.log(chalk.yellow(`  用法: ai <${AI_TASKS.join('|')}> <文字稿文件>`));
+      return;
+    }
+
+    if (!fs.existsSync(transcriptFile)) {
+      console.log(chalk.red(`  ✗ 文字稿不存在: ${transcriptFile}`));
+      return;
+    }
+
+    const transcript = readTranscript(transcriptFile);
+    if (!transcript) {
+      console.log(chalk.red(`  ✗ 文字稿为空: ${transcriptFile}`));
+      return;
+    }
+
+    // Pick the draft the transcript belongs to
+    if (this.unpublishedResources.length === 0) {
+      if (!this.currentShow) {
+        console.log(chalk.yellow('  ⚠ 请先选择一个节目 (输入 "shows")'));
+        return;
+      }
+      await this.cmdCheck();
+      if (this.unpublishedResources.length === 0) {
+        return;
+      }
+    }
+
+    const { resourceId } = await inquirer.prompt([
+      {
+        type: 'list',
+        name: 'resourceId',
+        message: '选择草稿:',
+        choices: this.unpublishedResources.map(resource => ({ name: resource.title, value: resource.id }))
+      }
+    ]);
+    const draft = this.unpublishedResources.find(resource => resource.id === resourceId)!;
+
+    console.log(`  ${chalk.dim('AI 生成中...')}\n`);
+
+    let result: AITaskResult;
+    try {
+      result = await runAITask(this.client, task, transcript, {
+        context: `暂定标题: ${draft.title}`,
+        timestamps: task === 'shownotes'
+      });
+    } catch (error) {
+      await this.client.getErrorHandler().handle(error as Error, { module: 'repl', action: `ai-${task}` });
+      return;
+    }
+
+    if (result.title && task !== 'title') {
+      console.log(`  ${chalk.bold('建议标题:')} ${result.title}\n`);
+    }
+    console.log(result.markdown.split('\n').map(line => `  ${line}`).join('\n'));
+    console.log();
+
+    const { file } = await inquirer.prompt([
+      {
+        type: 'input',
+        name: 'file',
+        message: '保存为 Markdown 文件 (留空跳过):'
+      }
+    ]);
+
+    if (file.trim()) {
+      fs.writeFileSync(file.trim(), result.markdown + '\n', 'utf-8');
+      console.log(chalk.green(`  ✓ 已保存到 ${file.trim()}\n`));
+    }
+  }
+
   /**
    * Help command
    */
@@ -440,9 +581,10 @@ export class InteractiveREPL {
       { cmd: 'login, l', desc: '登录小宇宙账号' },
       { cmd: 'logout, lo', desc: '退出登录' },
       { cmd: 'status, st', desc: '查看登录状态' },
-      { cmd: 'shows, sh', desc: '查看并选择节目' },
-      { cmd: 'check, c', desc: '检查未发布的内容' },
+      { cmd: 'shows, sh', desc: '查看并选择节目 (--cached / --max-age 1h 使用本地缓存)' },
+      { cmd: 'check, c', desc: '检查未发布的内容 (--cached / --max-age 1h 使用本地缓存)' },
       { cmd: 'publish, p', desc: '发布内容' },
+      { cmd: 'ai', desc: `为当前节目的草稿生成内容 (ai <${AI_TASKS.join('|')}> <文字稿文件>)` },
       { cmd: 'config, cfg', desc: '打开配置界面' },
       { cmd: 'help, h, ?', desc: '显示帮助信息' },
       { cmd: 'exit, e, q', desc: '退出交互模式' }
@@ -462,7 +604,7 @@ export class InteractiveREPL {
     const { startConfigServer } = await import('../web/server');
     const server = await startConfigServer({
       port: 3737,
-      storageDir: '.storage',
+      storageDir: this.client.getStorageDir(),
       logger: this.client.getLogger()
     });
 
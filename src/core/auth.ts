@@ -5,11 +5,16 @@
  * No token extraction or storage - the browser session is the source of truth.
  */
 
-import { Browser, Page, BrowserContext } from 'playwright';
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { Browser, Page, BrowserContext, BrowserContextOptions, ElementHandle } from 'playwright';
 import { Logger } from '../services/logger';
-import { ErrorHandler } from '../services/error-handler';
-import { SessionStorage } from '../storage/session';
-import { LoginMethod, AuthResult } from './types';
+import { ErrorHandler, AppError, DecryptionError } from '../services/error-handler';
+import { SessionStorage, PlaywrightStorageState } from '../storage/session';
+import { buildQRMatrix, GrayImage } from '../utils/qrcode';
+import { LoginMethod, AuthResult, QRCodeChallenge, ErrorCode, SessionStatus, SessionValidationResult, CookieExpiry } from './types';
+import { PlatformDescriptor, DEFAULT_PLATFORM, pageUrl, isPlatformPage } from './platform';
 
 // =====================================================
 // Authentication Configuration
@@ -21,8 +26,80 @@ interface AuthConfig {
   sessionStorage: SessionStorage;
   headless?: boolean;
   slowMo?: number;
+  platform?: PlatformDescriptor;  // Login/dashboard URLs (default: DEFAULT_PLATFORM)
 }
 
+/**
+ * Login options
+ */
+export interface LoginOptions {
+  force?: boolean;
+  method?: LoginMethod;
+  /** Called with the login QR code in headless mode (again whenever it refreshes) */
+  onQRCode?: (challenge: QRCodeChallenge) => void;
+  /** Save the captured QR code as a PNG under the storage directory */
+  saveQRImage?: boolean;
+  /** Phone number for SMS login (otherwise asked through `getPhoneNumber`) */
+  phone?: string;
+  getPhoneNumber?: () => Promise<string>;
+  getVerificationCode?: () => Promise<string>;
+}
+
+/**
+ * Selectors tried (in order) to locate the login QR code
+ */
+const QR_CODE_SELECTORS = [
+  '[class*="qrcode"] img',
+  '[class*="qrcode"] canvas',
+  '[class*="qr-code"] img',
+  '[class*="qr"] img',
+  '[class*="qr"] canvas',
+  'img[src*="qr"]',
+  'canvas'
+];
+
+const PHONE_INPUT_SELECTORS = [
+  'input[type="tel"]',
+  'input[placeholder*="手机"]',
+  'input[name*="phone"]',
+  'input[name*="mobile"]'
+];
+
+const CODE_INPUT_SELECTORS = [
+  'input[placeholder*="验证码"]',
+  'input[name*="code"]',
+  'input[autocomplete="one-time-code"]'
+];
+
+const SEND_CODE_SELECTORS = [
+  'button:has-text("获取验证码")',
+  'button:has-text("发送验证码")',
+  'text=获取验证码',
+  'text=发送验证码'
+];
+
+const LOGIN_BUTTON_SELECTORS = [
+  'button[type="submit"]',
+  'button:has-text("登录")'
+];
+
+const CAPTCHA_SELECTORS = [
+  'iframe[src*="captcha"]',
+  '[class*="captcha"]',
+  '[class*="geetest"]',
+  '[class*="slider-verify"]'
+];
+
+const ERROR_MESSAGE_SELECTORS = [
+  '[role="alert"]',
+  '[class*="toast"]',
+  '[class*="error-message"]',
+  '[class*="form-error"]'
+];
+
+const LOGIN_TIMEOUT = 120000; // 2 minutes
+const QR_POLL_INTERVAL = 2000;
+
 // =====================================================
 // Authentication Manager
 // =====================================================
@@ -39,6 +116,7 @@ export class AuthManager {
   private sessionStorage: SessionStorage;
   private headless: boolean;
   private slowMo: number;
+  private platform: PlatformDescriptor;
 
   // Browser session (not exposed outside)
   private browser: Browser | null = null;
@@ -54,6 +132,7 @@ export class AuthManager {
     this.sessionStorage = config.sessionStorage;
     this.headless = config.headless ?? false;
     this.slowMo = config.slowMo ?? 50;
+    this.platform = config.platform ?? DEFAULT_PLATFORM;
   }
 
   // =====================================================
@@ -66,7 +145,7 @@ export class AuthManager {
    * @param options - Login options
    * @returns Auth result with success flag
    */
-  async login(options: { force?: boolean; method?: LoginMethod } = {}): Promise<AuthResult> {
+  async login(options: LoginOptions = {}): Promise<AuthResult> {
     const { force = false, method = LoginMethod.QR_CODE } = options;
 
     try {
@@ -78,7 +157,7 @@ export class AuthManager {
       });
 
       // Check if already logged in (via saved session)
-      if (!force && this.sessionStorage.hasValidSession()) {
+      if (!force && await this.hasValidSession()) {
         this.logger.info('Valid session found, skipping login', {
           module: 'auth',
           action: 'login'
@@ -102,11 +181,13 @@ export class AuthManager {
 
       switch (method) {
         case LoginMethod.QR_CODE:
-          loginSuccess = await this.loginByQRCode();
+          loginSuccess = this.headless
+            ? await this.loginByQRCodeHeadless(options)
+            : await this.loginByQRCode();
           break;
 
         case LoginMethod.PHONE_CODE:
-          loginSuccess = await this.loginByPhoneCode();
+          loginSuccess = await this.loginByPhoneCode(options);
           break;
 
         default:
@@ -140,7 +221,8 @@ export class AuthManager {
 
       return {
         success: false,
-        error: (error as Error).message || 'Unknown error'
+        error: (error as Error).message || 'Unknown error',
+        errorCode: error instanceof AppError ? error.code : undefined
       };
     }
   }
@@ -156,15 +238,33 @@ export class AuthManager {
       return true;
     }
 
-    // Check if we have saved session data
-    return this.sessionStorage.hasValidSession();
+    // Check if we have saved session data (unreadable data counts as none)
+    try {
+      return this.sessionStorage.hasValidSession();
+    } catch (error) {
+      if (error instanceof DecryptionError) {
+        return false;
+      }
+      throw error;
+    }
   }
 
   /**
    * Get user info
    */
   getUserInfo(): { userId: string; userName: string } | null {
-    return this.userInfo;
+    if (this.userInfo) {
+      return this.userInfo;
+    }
+
+    try {
+      return this.sessionStorage.loadUserInfo();
+    } catch (error) {
+      if (error instanceof DecryptionError) {
+        return null;
+      }
+      throw error;
+    }
   }
 
   /**
@@ -191,6 +291,113 @@ export class AuthManager {
     });
   }
 
+  /**
+   * Validate the stored browser session against the platform
+   *
+   * Loads the saved storage state into a throwaway headless context and
+   * opens the dashboard: being redirected to the login page means the
+   * cookies are no longer accepted.
+   */
+  async validateSession(): Promise<SessionValidationResult> {
+    const checkedAt = new Date().toISOString();
+
+    let state: PlaywrightStorageState | null;
+    let cookies: CookieExpiry[];
+    try {
+      state = this.sessionStorage.loadBrowserState();
+      cookies = this.sessionStorage.getCookieExpiries();
+    } catch (error) {
+      if (!(error instanceof DecryptionError)) {
+        throw error;
+      }
+      return {
+        status: SessionStatus.INVALID,
+        errorCode: error.code,
+        error: error.message,
+        checkedAt,
+        cookies: []
+      };
+    }
+
+    if (!state) {
+      return {
+        status: SessionStatus.MISSING,
+        errorCode: ErrorCode.AUTH_REQUIRED,
+        checkedAt,
+        cookies: []
+      };
+    }
+
+    const anyExpired = cookies.some(cookie => cookie.expired);
+
+    // No need to start a browser if every cookie is past its expiry
+    if (cookies.length > 0 && cookies.every(cookie => cookie.expired)) {
+      return {
+        status: SessionStatus.EXPIRED,
+        errorCode: ErrorCode.TOKEN_EXPIRED,
+        checkedAt,
+        cookies
+      };
+    }
+
+    let browser: Browser | null = null;
+
+    try {
+      // Inside the try: a missing browser makes the result UNKNOWN, not an error
+      const playwright = await import('playwright');
+      browser = await playwright.chromium.launch({ headless: true });
+
+      const context = await browser.newContext({ storageState: state });
+      const page = await context.newPage();
+
+      await page.goto(pageUrl(this.platform, 'dashboard'), {
+        waitUntil: 'domcontentloaded',
+        timeout: 30000
+      });
+
+      // Client-side redirects happen after the initial document loads
+      await page.waitForURL(new RegExp(this.platform.loginPattern), { timeout: 5000 }).catch(() => undefined);
+      const url = page.url();
+
+      let result: SessionValidationResult;
+
+      if (isPlatformPage(this.platform, url, 'login')) {
+        result = anyExpired
+          ? { status: SessionStatus.EXPIRED, errorCode: ErrorCode.TOKEN_EXPIRED, checkedAt, cookies }
+          : { status: SessionStatus.INVALID, errorCode: ErrorCode.TOKEN_INVALID, checkedAt, cookies };
+      } else if (isPlatformPage(this.platform, url, 'dashboard')) {
+        result = { status: SessionStatus.VALID, checkedAt, cookies };
+      } else {
+        result = { status: SessionStatus.INVALID, errorCode: ErrorCode.TOKEN_INVALID, error: `Unexpected page: ${url}`, checkedAt, cookies };
+      }
+
+      this.logger.info(`Session validation: ${result.status}`, {
+        module: 'auth',
+        action: 'validateSession',
+        url
+      });
+
+      return result;
+
+    } catch (error) {
+      this.logger.warn(`Session validation failed: ${(error as Error).message}`, {
+        module: 'auth',
+        action: 'validateSession'
+      });
+
+      return {
+        status: SessionStatus.UNKNOWN,
+        errorCode: ErrorCode.NETWORK_ERROR,
+        error: (error as Error).message,
+        checkedAt,
+        cookies
+      };
+
+    } finally {
+      await browser?.close().catch(() => undefined);
+    }
+  }
+
   /**
    * Dispose of resources
    */
@@ -206,16 +413,37 @@ export class AuthManager {
    * Check if we have a valid saved session
    */
   private async hasValidSession(): Promise<boolean> {
-    // Try to restore session from storage
-    const session = this.sessionStorage.load();
+    const result = await this.validateSession();
 
-    if (!session) {
-      return false;
+    // Fall back to the offline check when the platform could not be reached
+    if (result.status === SessionStatus.UNKNOWN) {
+      return this.sessionStorage.hasValidSession();
     }
 
-    // Try to validate session by attempting to use it
-    // (This would be handled by the adapter when it needs the browser)
-    return true;
+    return result.status === SessionStatus.VALID;
+  }
+
+  /**
+   * Stored browser state to start a login from
+   *
+   * State that cannot be decrypted (e.g. after a passphrase change) is
+   * ignored: a successful login overwrites it.
+   */
+  private loadStoredStateForLogin(): BrowserContextOptions['storageState'] {
+    try {
+      return this.sessionStorage.loadBrowserState() || undefined;
+    } catch (error) {
+      if (!(error instanceof DecryptionError)) {
+        throw error;
+      }
+
+      this.logger.warn('Ignoring stored browser session that cannot be decrypted', {
+        module: 'auth',
+        action: 'login',
+        error: error.message
+      });
+      return undefined;
+    }
   }
 
   /**
@@ -240,13 +468,13 @@ export class AuthManager {
       // Create context with persistent session
       this.context = await this.browser.newContext({
         viewport: null, // Auto-resize
-        storageState: this.sessionStorage.loadBrowserState() as any
+        storageState: this.loadStoredStateForLogin()
       });
 
       this.page = await this.context.newPage();
 
       // Navigate to login page
-      await this.page.goto('https://podcaster.xiaoyuzhoufm.com/login', {
+      await this.page.goto(pageUrl(this.platform, 'login'), {
         waitUntil: 'networkidle'
       });
 
@@ -257,14 +485,14 @@ export class AuthManager {
 
       // Wait for login - check if we reach the dashboard
       const loginSuccess = await this.page.waitForNavigation({
-        url: /https:\/\/podcaster\.xiaoyuzhoufm\.com\/dashboard/,
+        url: new RegExp(this.platform.dashboardPattern),
         timeout: 120000 // 2 minutes
       }).then(() => true).catch(() => false);
 
       if (!loginSuccess) {
         // Check if URL changed to dashboard (might have already navigated)
         const currentUrl = this.page.url();
-        if (currentUrl.includes('dashboard')) {
+        if (isPlatformPage(this.platform, currentUrl, 'dashboard')) {
           return true;
         }
 
@@ -299,10 +527,173 @@ export class AuthManager {
     }
   }
 
+  /**
+   * Login via QR Code without a visible browser window
+   *
+   * Captures the QR code from the login page, hands it to `onQRCode` for
+   * rendering in the terminal and polls until the dashboard is reached.
+   */
+  private async loginByQRCodeHeadless(options: LoginOptions): Promise<boolean> {
+    const playwright = await import('playwright');
+
+    this.logger.info('Starting headless QR code login', {
+      module: 'auth',
+      action: 'loginByQRCodeHeadless'
+    });
+
+    try {
+      this.browser = await playwright.chromium.launch({
+        headless: true,
+        slowMo: this.slowMo
+      });
+
+      this.context = await this.browser.newContext({
+        storageState: this.loadStoredStateForLogin()
+      });
+
+      this.page = await this.context.newPage();
+
+      await this.page.goto(pageUrl(this.platform, 'login'), {
+        waitUntil: 'networkidle'
+      });
+
+      const deadline = Date.now() + LOGIN_TIMEOUT;
+      let lastHash: string | null = null;
+
+      while (Date.now() < deadline) {
+        if (isPlatformPage(this.platform, this.page.url(), 'dashboard')) {
+          await this.extractUserInfo();
+
+          this.logger.info('Headless QR code login successful', {
+            module: 'auth',
+            action: 'loginByQRCodeHeadless',
+            userId: this.userInfo?.userId
+          });
+
+          return true;
+        }
+
+        // Re-capture on every poll so refreshed QR codes are shown again
+        const image = await this.captureQRImage();
+        if (image) {
+          const hash = crypto.createHash('sha256').update(image).digest('hex');
+
+          if (hash !== lastHash) {
+            const challenge = await this.buildQRChallenge(image, lastHash !== null, options.saveQRImage);
+            lastHash = hash;
+
+            if (challenge && options.onQRCode) {
+              options.onQRCode(challenge);
+            }
+          }
+        }
+
+        await this.page.waitForTimeout(QR_POLL_INTERVAL);
+      }
+
+      this.logger.error('Headless QR code login timeout', undefined, {
+        module: 'auth',
+        action: 'loginByQRCodeHeadless'
+      });
+
+      await this.closeBrowser();
+      return false;
+
+    } catch (error) {
+      this.logger.error('Headless QR code login failed', error as Error, {
+        module: 'auth',
+        action: 'loginByQRCodeHeadless'
+      });
+
+      await this.closeBrowser();
+      return false;
+    }
+  }
+
+  /**
+   * Take a screenshot of the QR code element on the login page
+   */
+  private async captureQRImage(): Promise<Buffer | null> {
+    if (!this.page) {
+      return null;
+    }
+
+    for (const selector of QR_CODE_SELECTORS) {
+      const element: ElementHandle | null = await this.page.$(selector).catch(() => null);
+      if (!element || !(await element.isVisible().catch(() => false))) {
+        continue;
+      }
+
+      try {
+        return await element.screenshot({ type: 'png' });
+      } catch {
+        // Element detached while refreshing, try next selector
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Decode a QR screenshot into a module matrix
+   */
+  private async buildQRChallenge(image: Buffer, refreshed: boolean, saveImage?: boolean): Promise<QRCodeChallenge | null> {
+    if (!this.page) {
+      return null;
+    }
+
+    // Decode the PNG inside the page, data URLs never taint the canvas
+    const gray = await this.page.evaluate(async (base64: string) => {
+      const img = new Image();
+      img.src = `data:image/png;base64,${base64}`;
+      await img.decode();
+
+      const canvas = document.createElement('canvas');
+      canvas.width = img.naturalWidth;
+      canvas.height = img.naturalHeight;
+      const ctx = canvas.getContext('2d')!;
+      ctx.drawImage(img, 0, 0);
+
+      const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+      const pixels: number[] = [];
+      for (let i = 0; i < data.length; i += 4) {
+        // Treat transparent pixels as white background
+        const alpha = data[i + 3] / 255;
+        const luminance = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+        pixels.push(Math.round(luminance * alpha + 255 * (1 - alpha)));
+      }
+
+      return { width: canvas.width, height: canvas.height, pixels };
+    }, image.toString('base64')) as GrayImage;
+
+    let imagePath: string | undefined;
+    if (saveImage) {
+      imagePath = path.join(this.sessionStorage.getStorageDir(), 'login-qr.png');
+      fs.writeFileSync(imagePath, image);
+    }
+
+    try {
+      return {
+        matrix: buildQRMatrix(gray),
+        imagePath,
+        refreshed
+      };
+    } catch (error) {
+      this.logger.warn(`Could not decode QR code: ${(error as Error).message}`, {
+        module: 'auth',
+        action: 'buildQRChallenge'
+      });
+      return imagePath ? { matrix: [], imagePath, refreshed } : null;
+    }
+  }
+
   /**
    * Login via Phone + SMS Code
+   *
+   * When phone/code providers are given the whole flow is scripted,
+   * otherwise the user completes the form in the browser window.
    */
-  private async loginByPhoneCode(): Promise<boolean> {
+  private async loginByPhoneCode(options: LoginOptions): Promise<boolean> {
     const playwright = await import('playwright');
 
     this.logger.info('Starting phone code login', {
@@ -321,13 +712,13 @@ export class AuthManager {
       // Create context
       this.context = await this.browser.newContext({
         viewport: null,
-        storageState: this.sessionStorage.loadBrowserState() as any
+        storageState: this.loadStoredStateForLogin()
       });
 
       this.page = await this.context.newPage();
 
       // Navigate to login page
-      await this.page.goto('https://podcaster.xiaoyuzhoufm.com/login', {
+      await this.page.goto(pageUrl(this.platform, 'login'), {
         waitUntil: 'networkidle'
       });
 
@@ -340,29 +731,34 @@ export class AuthManager {
         });
       });
 
-      this.logger.info('Waiting for user to complete phone login', {
-        module: 'auth',
-        action: 'loginByPhoneCode'
-      });
+      const phone = options.phone || (options.getPhoneNumber ? await options.getPhoneNumber() : undefined);
+
+      if (phone) {
+        await this.submitPhoneCode(phone, options);
+      } else {
+        this.logger.info('Waiting for user to complete phone login', {
+          module: 'auth',
+          action: 'loginByPhoneCode'
+        });
+      }
 
       // Wait for login to complete
-      const loginSuccess = await this.page.waitForNavigation({
-        url: /https:\/\/podcaster\.xiaoyuzhoufm\.com\/dashboard/,
-        timeout: 120000
-      }).then(() => true).catch(() => false);
+      const loginSuccess = await this.waitForDashboard(phone ? 30000 : LOGIN_TIMEOUT);
 
       if (!loginSuccess) {
-        const currentUrl = this.page.url();
-        if (currentUrl.includes('dashboard')) {
-          return true;
-        }
+        const message = await this.readPageError();
 
         this.logger.error('Phone code login timeout or failed', undefined, {
           module: 'auth',
-          action: 'loginByPhoneCode'
+          action: 'loginByPhoneCode',
+          message
         });
 
         await this.closeBrowser();
+
+        if (phone) {
+          throw new AppError(ErrorCode.LOGIN_FAILED, message || '验证码登录失败，未能进入创作者后台');
+        }
         return false;
       }
 
@@ -384,10 +780,179 @@ export class AuthManager {
       });
 
       await this.closeBrowser();
+
+      // Typed errors are reported to the caller
+      if (error instanceof AppError) {
+        throw error;
+      }
       return false;
     }
   }
 
+  /**
+   * Fill the phone number, request the SMS code and submit it
+   */
+  private async submitPhoneCode(phone: string, options: LoginOptions): Promise<void> {
+    const page = this.page!;
+
+    const phoneFilled = await this.fillFirst(PHONE_INPUT_SELECTORS, phone);
+    if (!phoneFilled) {
+      throw new AppError(ErrorCode.LOGIN_FAILED, '未找到手机号输入框');
+    }
+
+    const sent = await this.clickFirst(SEND_CODE_SELECTORS);
+    if (!sent) {
+      throw new AppError(ErrorCode.LOGIN_FAILED, '未找到获取验证码按钮');
+    }
+
+    this.logger.info('Verification code requested', {
+      module: 'auth',
+      action: 'submitPhoneCode'
+    });
+
+    await page.waitForTimeout(1500);
+    await this.ensureNoCaptcha();
+
+    // The platform shows a toast when it refuses to send the code
+    const sendError = await this.readPageError();
+    if (sendError) {
+      throw new AppError(ErrorCode.LOGIN_FAILED, sendError);
+    }
+
+    if (!options.getVerificationCode) {
+      throw new AppError(ErrorCode.LOGIN_FAILED, '未提供验证码');
+    }
+
+    const code = await options.getVerificationCode();
+
+    const codeFilled = await this.fillFirst(CODE_INPUT_SELECTORS, code);
+    if (!codeFilled) {
+      throw new AppError(ErrorCode.LOGIN_FAILED, '未找到验证码输入框');
+    }
+
+    // Accept the user agreement if the form requires it
+    await page.evaluate(() => {
+      const checkboxes = Array.from(document.querySelectorAll('input[type="checkbox"]'));
+      for (const checkbox of checkboxes) {
+        const label = checkbox.parentElement?.textContent || '';
+        if ((label.includes('阅读') || label.includes('同意')) && !(checkbox as HTMLInputElement).checked) {
+          (checkbox as HTMLInputElement).click();
+        }
+      }
+    });
+
+    const submitted = await this.clickFirst(LOGIN_BUTTON_SELECTORS);
+    if (!submitted) {
+      throw new AppError(ErrorCode.LOGIN_FAILED, '未找到登录按钮');
+    }
+
+    await page.waitForTimeout(1500);
+    await this.ensureNoCaptcha();
+
+    const loginError = await this.readPageError();
+    if (loginError) {
+      throw new AppError(ErrorCode.LOGIN_FAILED, loginError);
+    }
+  }
+
+  /**
+   * Throw CAPTCHA_REQUIRED if a captcha challenge is visible
+   *
+   * In headed mode the user gets a chance to solve it in the browser first.
+   */
+  private async ensureNoCaptcha(): Promise<void> {
+    if (!(await this.findVisible(CAPTCHA_SELECTORS))) {
+      return;
+    }
+
+    if (!this.headless) {
+      this.logger.warn('Captcha detected, waiting for user to solve it in the browser', {
+        module: 'auth',
+        action: 'ensureNoCaptcha'
+      });
+
+      const deadline = Date.now() + 60000;
+      while (Date.now() < deadline) {
+        await this.page!.waitForTimeout(1000);
+        if (!(await this.findVisible(CAPTCHA_SELECTORS))) {
+          return;
+        }
+      }
+    }
+
+    throw new AppError(ErrorCode.CAPTCHA_REQUIRED, '平台要求完成人机验证');
+  }
+
+  /**
+   * Wait until the dashboard URL is reached
+   */
+  private async waitForDashboard(timeout: number): Promise<boolean> {
+    const page = this.page!;
+
+    const reached = await page.waitForURL(new RegExp(this.platform.dashboardPattern), { timeout })
+      .then(() => true)
+      .catch(() => false);
+
+    return reached || isPlatformPage(this.platform, page.url(), 'dashboard');
+  }
+
+  /**
+   * Fill the first visible input matching one of the selectors
+   */
+  private async fillFirst(selectors: string[], value: string): Promise<boolean> {
+    const element = await this.findVisible(selectors);
+    if (!element) {
+      return false;
+    }
+
+    await element.fill(value);
+    return true;
+  }
+
+  /**
+   * Click the first visible element matching one of the selectors
+   */
+  private async clickFirst(selectors: string[]): Promise<boolean> {
+    const element = await this.findVisible(selectors);
+    if (!element) {
+      return false;
+    }
+
+    await element.click();
+    return true;
+  }
+
+  /**
+   * Find the first visible element matching one of the selectors
+   */
+  private async findVisible(selectors: string[]): Promise<ElementHandle | null> {
+    for (const selector of selectors) {
+      const element = await this.page!.$(selector).catch(() => null);
+      if (element && await element.isVisible().catch(() => false)) {
+        return element;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Read a visible error/toast message from the login page
+   */
+  private async readPageError(): Promise<string | null> {
+    if (!this.page) {
+      return null;
+    }
+
+    const element = await this.findVisible(ERROR_MESSAGE_SELECTORS);
+    const text = element ? (await element.textContent())?.trim() : null;
+
+    // Success toasts (e.g. "验证码已发送") share the same markup
+    if (!text || /已发送|成功/.test(text)) {
+      return null;
+    }
+    return text;
+  }
+
   /**
    * Extract user info from dashboard
    */
@@ -0,0 +1,109 @@
+/**
+ * Catalog Diff - Detect changes between two syncs of shows and resources
+ */
+
+import { Show, Resource, ResourceStatus } from './types';
+
+// =====================================================
+// Diff Types
+// =====================================================
+
+/**
+ * A show and its resources as seen at one sync
+ */
+export interface ShowSnapshot {
+  show: Show;
+  resources: Resource[];
+  takenAt: string;
+}
+
+/**
+ * Kind of change
+ * - added / removed: the show or resource appeared or disappeared
+ * - title: the title was edited
+ * - status: the resource moved between draft, scheduled and published
+ */
+export type CatalogChangeKind = 'added' | 'removed' | 'title' | 'status';
+
+/**
+ * One detected change; resourceId is unset for show-level changes
+ */
+export interface CatalogChange {
+  kind: CatalogChangeKind;
+  showId: string;
+  showTitle: string;
+  resourceId?: string;
+  title: string;  // Current title (last known title for removals)
+  status?: ResourceStatus;  // Current status (last known status for removals)
+  before?: string;  // Previous title or status
+  after?: string;  // New title or status
+}
+
+// =====================================================
+// Diff Functions
+// =====================================================
+
+function diffResources(before: ShowSnapshot, after: ShowSnapshot): CatalogChange[] {
+  const changes: CatalogChange[] = [];
+  const base = { showId: after.show.id, showTitle: after.show.title };
+  const previous = new Map(before.resources.map(resource => [resource.id, resource]));
+  const current = new Set(after.resources.map(resource => resource.id));
+
+  for (const resource of after.resources) {
+    const old = previous.get(resource.id);
+    const item = { ...base, resourceId: resource.id, title: resource.title, status: resource.status };
+
+    if (!old) {
+      changes.push({ ...item, kind: 'added' });
+      continue;
+    }
+    if (old.status !== resource.status) {
+      changes.push({ ...item, kind: 'status', before: old.status, after: resource.status });
+    }
+    if (old.title !== resource.title) {
+      changes.push({ ...item, kind: 'title', before: old.title, after: resource.title });
+    }
+  }
+
+  for (const old of before.resources) {
+    if (!current.has(old.id)) {
+      changes.push({ ...base, kind: 'removed', resourceId: old.id, title: old.title, status: old.status });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Compare two syncs
+ * @param complete - `after` covers every show, so shows missing from it were removed
+ */
+export function diffSnapshots(before: ShowSnapshot[], after: ShowSnapshot[], complete: boolean = true): CatalogChange[] {
+  const changes: CatalogChange[] = [];
+  const previous = new Map(before.map(snapshot => [snapshot.show.id, snapshot]));
+
+  for (const snapshot of after) {
+    const { show } = snapshot;
+    const old = previous.get(show.id);
+
+    if (!old) {
+      changes.push({ kind: 'added', showId: show.id, showTitle: show.title, title: show.title });
+      continue;
+    }
+    if (old.show.title !== show.title) {
+      changes.push({ kind: 'title', showId: show.id, showTitle: show.title, title: show.title, before: old.show.title, after: show.title });
+    }
+    changes.push(...diffResources(old, snapshot));
+  }
+
+  if (complete) {
+    const current = new Set(after.map(snapshot => snapshot.show.id));
+    for (const old of before) {
+      if (!current.has(old.show.id)) {
+        changes.push({ kind: 'removed', showId: old.show.id, showTitle: old.show.title, title: old.show.title });
+      }
+    }
+  }
+
+  return changes;
+}
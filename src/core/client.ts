@@ -2,13 +2,17 @@
  * Core Client - Unified client for all operations
  */
 
-import { Show, Resource, PublishResult, AdapterType, LoginMethod } from './types';
-import type { PublishOptions } from '../adapters/base';
+import { Show, Resource, PublishResult, AdapterType, AdapterResult, ErrorCode, SessionValidationResult, EpisodeDetails, EpisodePage, StatsRange, ShowStats, EpisodeStats, Comment } from './types';
+import type { PublishOptions, DataSource, UploadOptions, EpisodePatch, EpisodeListOptions, CommentListOptions } from '../adapters/base';
 import { Logger } from '../services/logger';
-import { ErrorHandler } from '../services/error-handler';
-import { SessionStorage } from '../storage';
-import { AuthManager } from './auth';
-import { PlaywrightAdapter, HttpAdapter } from '../adapters';
+import { ErrorHandler, AppError } from '../services/error-handler';
+import { SessionStorage, ProfileManager, SessionBundleMetadata, ConfigStorage, AuditLog, AuditAction, CommentCursor, CatalogCache, CachedList, SyncSnapshot } from '../storage';
+import { TitlePolicy, TitleNormalizationResult, TitleShortener, normalizeTitle } from './title-policy';
+import { CatalogChange, ShowSnapshot, diffSnapshots } from './catalog-diff';
+import { PlatformDescriptor, resolvePlatform, platformFromEnv } from './platform';
+import { AIService, createAIService } from '../ai/service';
+import { AuthManager, LoginOptions } from './auth';
+import { PlaywrightAdapter, HttpAdapter, IAdapter } from '../adapters';
 import { StrategyEngine, StrategyMode } from '../strategy/engine';
 
 // =====================================================
@@ -22,13 +26,53 @@ export interface ClientConfig {
   logLevel?: number;
   logDir?: string;
   storageDir?: string;
+  profile?: string;
   debug?: boolean;
   headless?: boolean;
   slowMo?: number;
+  apiTimeout?: number;
+  enableScreenshots?: boolean;
+  debugDir?: string;
   strategyMode?: StrategyMode;
+  dataSource?: DataSource;
   forceLogin?: boolean;
+  baseUrl?: string;  // Platform origin override, e.g. a local mock site for offline testing
 }
 
+/**
+ * How a read may use the local catalog cache
+ * - cached: always answer from the cache, never contact the platform
+ * - maxAge: answer from the cache if it is younger than this (milliseconds)
+ * Without either, data is fetched from the platform and the cache refreshed.
+ */
+export interface CacheOptions {
+  cached?: boolean;
+  maxAge?: number;
+}
+
+/**
+ * Comment listing across shows
+ */
+export interface CommentQuery extends CommentListOptions {
+  showId?: string;  // Default: all shows
+  sinceLastCheck?: boolean;  // Use each show's cursor when `since` is not given
+}
+
+/**
+ * Changes since the last sync
+ */
+export interface SyncDiff {
+  changes: CatalogChange[];
+  since?: Date;  // Oldest baseline compared against
+  firstSync: boolean;  // No baseline existed; the current state became the baseline
+}
+
+/**
+ * Execute options for operations that must not be sent twice: a failure may
+ * come after the platform applied the change, so neither retry nor fall back
+ */
+const SEND_ONCE = { retryOnFailure: false, fallbackToPlaywright: false };
+
 // =====================================================
 // Core Client Class
 // =====================================================
@@ -40,16 +84,27 @@ export class XiaoYuzhouClient {
   private logger: Logger;
   private errorHandler: ErrorHandler;
   private sessionStorage: SessionStorage;
+  private profileManager: ProfileManager;
+  private configStorage: ConfigStorage;
+  private auditLog: AuditLog;
+  private commentCursor: CommentCursor;
+  private catalog: CatalogCache;
+  private platform: PlatformDescriptor;
+  private syncSnapshot: SyncSnapshot;
+  private profile: string;
+  private storageDir: string;
   private authManager: AuthManager;
   private playwrightAdapter: PlaywrightAdapter;
   private httpAdapter: HttpAdapter;
   private strategyEngine: StrategyEngine;
   private initialized: boolean = false;
+  private reauthRequired: boolean = false;
+  private reauthHandler?: () => Promise<boolean>;
 
   constructor(config: ClientConfig = {}) {
     // Initialize logger
     this.logger = new Logger({
-      logLevel: config.logLevel || 1, // INFO
+      logLevel: config.logLevel ?? 1, // INFO
       logDir: config.logDir || '.storage/logs',
       debug: config.debug || false
     });
@@ -60,31 +115,83 @@ export class XiaoYuzhouClient {
       debug: config.debug || false
     });
 
+    // Resolve profile and its storage directory
+    this.storageDir = config.storageDir || '.storage';
+    this.profileManager = new ProfileManager(this.logger, {
+      storageDir: this.storageDir
+    });
+    this.profile = this.profileManager.resolve(config.profile);
+
+    this.auditLog = new AuditLog(this.logger, {
+      storageDir: this.profileManager.getProfileDir(this.profile),
+      profile: this.profile
+    });
+
+    this.catalog = new CatalogCache(this.logger, {
+      storageDir: this.profileManager.getProfileDir(this.profile)
+    });
+
+    this.syncSnapshot = new SyncSnapshot(this.logger, {
+      storageDir: this.profileManager.getProfileDir(this.profile)
+    });
+
+    this.commentCursor = new CommentCursor(this.logger, {
+      storageDir: this.profileManager.getProfileDir(this.profile)
+    });
+
+    // Shared settings live at the storage root, not per profile
+    this.configStorage = new ConfigStorage(this.logger, {
+      storageDir: this.storageDir
+    });
+
     // Initialize storage
     this.sessionStorage = new SessionStorage(this.logger, {
-      storageDir: config.storageDir || '.storage'
+      storageDir: this.profileManager.getProfileDir(this.profile)
     });
 
+    // Platform URLs: defaults < config.json < XYZ_BASE_URL < baseUrl option
+    this.platform = resolvePlatform(
+      this.configStorage.load().platform,
+      platformFromEnv(),
+      config.baseUrl ? { origin: config.baseUrl } : undefined
+    );
+
     // Initialize auth manager
     this.authManager = new AuthManager({
       logger: this.logger,
       errorHandler: this.errorHandler,
       sessionStorage: this.sessionStorage,
       headless: config.headless ?? false,
-      slowMo: config.slowMo ?? 50
+      slowMo: config.slowMo ?? 50,
+      platform: this.platform
     });
 
     // Initialize adapters
+    const onUnauthorized = () => {
+      this.reauthRequired = true;
+    };
+
     this.playwrightAdapter = new PlaywrightAdapter({
       logger: this.logger,
       debug: config.debug || false,
+      sessionStorage: this.sessionStorage,
+      onUnauthorized,
       headless: config.headless ?? false,
-      slowMo: config.slowMo ?? 50
+      slowMo: config.slowMo ?? 50,
+      timeout: config.apiTimeout,
+      enableScreenshots: config.enableScreenshots,
+      debugDir: config.debugDir,
+      dataSource: config.dataSource,
+      platform: this.platform
     });
 
     this.httpAdapter = new HttpAdapter({
       logger: this.logger,
-      debug: config.debug || false
+      debug: config.debug || false,
+      sessionStorage: this.sessionStorage,
+      onUnauthorized,
+      timeout: config.apiTimeout,
+      platform: this.platform
     });
 
     // Initialize strategy engine
@@ -123,14 +230,11 @@ export class XiaoYuzhouClient {
   /**
    * Authenticate the user
    */
-  async login(options: { force?: boolean; method?: LoginMethod } = {}): Promise<boolean> {
+  async login(options: LoginOptions = {}): Promise<boolean> {
     try {
       await this.initialize();
 
-      const result = await this.authManager.login({
-        force: options.force,
-        method: options.method
-      });
+      const result = await this.authManager.login(options);
 
       if (!result.success) {
         this.logger.error('Login failed', undefined, {
@@ -138,6 +242,14 @@ export class XiaoYuzhouClient {
           action: 'login',
           error: result.error
         });
+
+        // Surface typed platform errors (captcha, rejected code, ...)
+        if (result.errorCode) {
+          await this.errorHandler.handle(new AppError(result.errorCode, result.error || 'Login failed'), {
+            module: 'client',
+            action: 'login'
+          });
+        }
         return false;
       }
 
@@ -162,6 +274,34 @@ export class XiaoYuzhouClient {
     return this.authManager.isAuthenticated();
   }
 
+  /**
+   * Probe the stored session against the platform
+   */
+  async validateSession(): Promise<SessionValidationResult> {
+    return this.authManager.validateSession();
+  }
+
+  /**
+   * Export the stored session as a passphrase-encrypted bundle
+   */
+  exportSession(passphrase: string): string {
+    return this.sessionStorage.exportBundle(passphrase, { profile: this.profile });
+  }
+
+  /**
+   * Import a session bundle into the active profile
+   */
+  importSession(data: string, passphrase: string): SessionBundleMetadata {
+    return this.sessionStorage.importBundle(data, passphrase);
+  }
+
+  /**
+   * Check if a browser session is stored for the active profile
+   */
+  hasStoredSession(): boolean {
+    return this.sessionStorage.loadBrowserState() !== null;
+  }
+
   /**
    * Get user info
    */
@@ -172,10 +312,15 @@ export class XiaoYuzhouClient {
   /**
    * Get all shows
    */
-  async getShows(): Promise<Show[]> {
+  async getShows(cache: CacheOptions = {}): Promise<Show[]> {
+    const cached = this.fromCatalog(cache, maxAge => this.catalog.getShows(maxAge), 'shows');
+    if (cached) {
+      return cached;
+    }
+
     await this.ensureAuthenticated();
 
-    return this.strategyEngine.execute(async (adapter) => {
+    const shows = await this.execute(async (adapter) => {
       const result = await adapter.getShows();
 
       if (!result.success) {
@@ -184,15 +329,23 @@ export class XiaoYuzhouClient {
 
       return result.data || [];
     });
+
+    this.catalog.setShows(shows);
+    return shows;
   }
 
   /**
    * Get resources for a show
    */
-  async getResources(showId: string): Promise<Resource[]> {
+  async getResources(showId: string, cache: CacheOptions = {}): Promise<Resource[]> {
+    const cached = this.fromCatalog(cache, maxAge => this.catalog.getResources(showId, maxAge), `resources of show ${showId}`);
+    if (cached) {
+      return cached;
+    }
+
     await this.ensureAuthenticated();
 
-    return this.strategyEngine.execute(async (adapter) => {
+    const resources = await this.execute(async (adapter) => {
       const result = await adapter.getResources(showId);
 
       if (!result.success) {
@@ -201,60 +354,554 @@ export class XiaoYuzhouClient {
 
       return result.data || [];
     });
+
+    this.catalog.setResources(showId, resources);
+    return resources;
   }
 
   /**
    * Get unpublished resources for a show
    */
-  async getUnpublishedResources(showId: string): Promise<Resource[]> {
-    const allResources = await this.getResources(showId);
+  async getUnpublishedResources(showId: string, cache: CacheOptions = {}): Promise<Resource[]> {
+    const allResources = await this.getResources(showId, cache);
     return allResources.filter(r => r.status === 'draft' || r.status === 'scheduled');
   }
 
   /**
-   * Publish a single resource
+   * Get the local catalog cache of shows and resources
    */
-  async publishResource(resourceId: string, options?: PublishOptions): Promise<PublishResult> {
+  getCatalog(): CatalogCache {
+    return this.catalog;
+  }
+
+  /**
+   * Answer a read from the catalog cache when the cache options allow it
+   * @returns null when the data must be fetched from the platform
+   */
+  private fromCatalog<T>(
+    cache: CacheOptions,
+    read: (maxAge?: number) => CachedList<T> | null,
+    what: string
+  ): T[] | null {
+    if (!cache.cached && cache.maxAge === undefined) {
+      return null;
+    }
+
+    const list = read(cache.cached ? undefined : cache.maxAge);
+    if (list) {
+      this.logger.debug(`Using cached ${what} fetched at ${list.fetchedAt.toISOString()}`, {
+        module: 'client',
+        action: 'fromCatalog'
+      });
+      return list.items;
+    }
+
+    if (cache.cached) {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, `No cached ${what}. Run once without --cached to fill the cache.`);
+    }
+    return null;
+  }
+
+  /**
+   * Drop cached catalog data after an operation changed a show
+   * @param showId - Omit when the show is unknown to drop the whole catalog
+   */
+  private invalidateCatalog(showId?: string): void {
+    this.catalog.invalidate(showId);
+  }
+
+  /**
+   * Fetch shows and resources and compare them with the last sync
+   *
+   * The snapshot only moves forward here, so changes made from the web
+   * UI or by this tool since the previous diff are all reported.
+   * @param options.showId - Sync a single show; default: all shows
+   * @param options.save - Store the fetched state as the new baseline (default: true)
+   */
+  async diffSinceLastSync(options: { showId?: string; save?: boolean } = {}): Promise<SyncDiff> {
+    const shows = await this.getShows();
+    const synced = options.showId ? shows.filter(show => show.id === options.showId) : shows;
+
+    if (options.showId && synced.length === 0) {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, `Show not found: ${options.showId}`);
+    }
+
+    const current: ShowSnapshot[] = [];
+    for (const show of synced) {
+      const resources = await this.getResources(show.id);
+      current.push({ show, resources, takenAt: new Date().toISOString() });
+    }
+
+    const complete = !options.showId;
+    const previous = this.syncSnapshot.load().filter(snapshot => complete || snapshot.show.id === options.showId);
+    const firstSync = previous.length === 0;
+
+    if (options.save ?? true) {
+      this.syncSnapshot.save(current, complete);
+    }
+
+    if (firstSync) {
+      return { changes: [], firstSync };
+    }
+
+    const since = new Date(Math.min(...previous.map(snapshot => Date.parse(snapshot.takenAt))));
+    return { changes: diffSnapshots(previous, current, complete), since, firstSync };
+  }
+
+  /**
+   * List a show's episodes page by page
+   */
+  async listEpisodes(showId: string, options: EpisodeListOptions = {}): Promise<EpisodePage> {
     await this.ensureAuthenticated();
 
-    return this.strategyEngine.execute(async (adapter) => {
-      const result = await adapter.publishResource(resourceId, options);
+    return this.execute(async (adapter) => {
+      const result = await adapter.listEpisodes(showId, options);
 
-      if (!result.success) {
-        throw new Error(result.error || 'Failed to publish resource');
+      if (!result.success || !result.data) {
+        throw new AppError(result.errorCode || ErrorCode.INVALID_RESPONSE, result.error || 'Failed to list episodes');
+      }
+
+      return result.data;
+    });
+  }
+
+  /**
+   * Get show statistics for a date range
+   */
+  async getShowStats(showId: string, range: StatsRange): Promise<ShowStats> {
+    await this.ensureAuthenticated();
+
+    return this.execute(async (adapter) => {
+      const result = await adapter.getShowStats(showId, range);
+
+      if (!result.success || !result.data) {
+        throw new AppError(result.errorCode || ErrorCode.INVALID_RESPONSE, result.error || 'Failed to get show statistics');
       }
 
-      return result.data || {
-        success: false,
-        resourceId,
-        error: 'Unknown error'
-      };
+      return result.data;
     });
   }
 
+  /**
+   * Get statistics of a single episode
+   */
+  async getEpisodeStats(showId: string, episodeId: string): Promise<EpisodeStats> {
+    await this.ensureAuthenticated();
+
+    return this.execute(async (adapter) => {
+      const result = await adapter.getEpisodeStats(`${showId}:${episodeId}`);
+
+      if (!result.success || !result.data) {
+        throw new AppError(result.errorCode || ErrorCode.INVALID_RESPONSE, result.error || 'Failed to get episode statistics');
+      }
+
+      return result.data;
+    });
+  }
+
+  /**
+   * Publish a single resource
+   *
+   * Sent once: a publish that failed after the platform accepted it must not
+   * be repeated.
+   */
+  async publishResource(resourceId: string, options?: PublishOptions): Promise<PublishResult> {
+    await this.ensureAuthenticated();
+    const publishOptions = this.withTitlePolicy(options);
+
+    try {
+      return await this.execute(async (adapter) => {
+        const result = await adapter.publishResource(resourceId, publishOptions);
+
+        if (!result.success) {
+          throw new Error(result.error || 'Failed to publish resource');
+        }
+
+        return result.data || {
+          success: false,
+          resourceId,
+          error: 'Unknown error'
+        };
+      }, SEND_ONCE);
+    } finally {
+      // Even a failed publish may have changed the resource on the platform
+      this.invalidateCatalog(options?.showId ?? this.showIdOf(resourceId));
+    }
+  }
+
   /**
    * Publish multiple resources
    */
   async publishResources(resourceIds: string[], options?: PublishOptions): Promise<PublishResult[]> {
     await this.ensureAuthenticated();
+    const publishOptions = this.withTitlePolicy(options);
 
-    return this.strategyEngine.execute(async (adapter) => {
-      const result = await adapter.publishResources(resourceIds, options);
+    try {
+      return await this.execute(async (adapter) => {
+        const result = await adapter.publishResources(resourceIds, publishOptions);
+
+        if (!result.success) {
+          throw new Error(result.error || 'Failed to publish resources');
+        }
+
+        return result.data || [];
+      }, SEND_ONCE);
+    } finally {
+      // The batch may span several shows; one unknown show drops the whole catalog
+      const showIds = new Set(resourceIds.map(resourceId => options?.showId ?? this.showIdOf(resourceId)));
+      if (showIds.has(undefined)) {
+        this.invalidateCatalog();
+      } else {
+        showIds.forEach(showId => this.invalidateCatalog(showId));
+      }
+    }
+  }
 
-      if (!result.success) {
-        throw new Error(result.error || 'Failed to publish resources');
+  /**
+   * Show ID of a "showId:resourceId" reference, if it has one
+   */
+  private showIdOf(ref?: string): string | undefined {
+    const separator = ref?.indexOf(':') ?? -1;
+    return separator > 0 ? ref!.slice(0, separator) : undefined;
+  }
+
+  /**
+   * Get editable metadata of a published episode
+   */
+  async getEpisode(showId: string, episodeId: string): Promise<EpisodeDetails> {
+    await this.ensureAuthenticated();
+
+    return this.execute(async (adapter) => {
+      const result = await adapter.getEpisode(`${showId}:${episodeId}`);
+
+      if (!result.success || !result.data) {
+        throw new AppError(result.errorCode || ErrorCode.UPDATE_FAILED, result.error || 'Failed to get episode');
       }
 
-      return result.data || [];
+      return result.data;
     });
   }
 
+  /**
+   * Update metadata of a published episode
+   */
+  async updateEpisode(showId: string, episodeId: string, patch: EpisodePatch): Promise<EpisodeDetails> {
+    await this.ensureAuthenticated();
+
+    try {
+      return await this.execute(async (adapter) => {
+        const result = await adapter.updateEpisode(`${showId}:${episodeId}`, patch);
+
+        if (!result.success || !result.data) {
+          throw new AppError(result.errorCode || ErrorCode.UPDATE_FAILED, result.error || 'Failed to update episode');
+        }
+
+        return result.data;
+      });
+    } finally {
+      this.invalidateCatalog(showId);
+    }
+  }
+
+  /**
+   * Withdraw a published episode
+   * @param title - Recorded in the audit log
+   */
+  async unpublishEpisode(showId: string, episodeId: string, title?: string): Promise<void> {
+    await this.runAudited('unpublish', showId, episodeId, title, adapter => adapter.unpublishEpisode(`${showId}:${episodeId}`));
+  }
+
+  /**
+   * Delete a resource from the resource library
+   * @param title - Recorded in the audit log
+   */
+  async deleteResource(showId: string, resourceId: string, title?: string): Promise<void> {
+    await this.runAudited('delete', showId, resourceId, title, adapter => adapter.deleteResource(`${showId}:${resourceId}`));
+  }
+
+  /**
+   * Cancel the scheduled release of a resource
+   * @param title - Recorded in the audit log
+   */
+  async cancelSchedule(showId: string, resourceId: string, title?: string): Promise<void> {
+    await this.runAudited('cancel-schedule', showId, resourceId, title, adapter => adapter.cancelSchedule(`${showId}:${resourceId}`));
+  }
+
+  /**
+   * Get the audit log of destructive operations for the current profile
+   */
+  getAuditLog(): AuditLog {
+    return this.auditLog;
+  }
+
+  /**
+   * Run a destructive operation once and record the outcome in the audit log
+   */
+  private async runAudited(
+    action: AuditAction,
+    showId: string,
+    resourceId: string,
+    title: string | undefined,
+    operation: (adapter: IAdapter) => Promise<AdapterResult<void>>
+  ): Promise<void> {
+    await this.ensureAuthenticated();
+
+    try {
+      await this.execute(async (adapter) => {
+        const result = await operation(adapter);
+
+        if (!result.success) {
+          throw new AppError(result.errorCode || ErrorCode.UPDATE_FAILED, result.error || `Failed to ${action} resource`);
+        }
+      }, SEND_ONCE);
+    } catch (error) {
+      this.auditLog.record({ action, showId, resourceId, title, success: false, error: (error as Error).message });
+      throw error;
+    } finally {
+      this.invalidateCatalog(showId);
+    }
+
+    this.auditLog.record({ action, showId, resourceId, title, success: true });
+  }
+
+  // =====================================================
+  // Comments
+  // =====================================================
+
+  /**
+   * List comments of one show or of all shows, newest first
+   */
+  async listComments(query: CommentQuery = {}): Promise<Comment[]> {
+    await this.ensureAuthenticated();
+
+    const { showId, sinceLastCheck, ...options } = query;
+    const showIds = showId ? [showId] : (await this.getShows()).map(show => show.id);
+    const comments: Comment[] = [];
+
+    for (const id of showIds) {
+      const since = options.since ?? (sinceLastCheck ? this.commentCursor.get(id) : undefined);
+
+      const showComments = await this.execute(async (adapter) => {
+        const result = await adapter.listComments(id, { ...options, since });
+
+        if (!result.success || !result.data) {
+          throw new AppError(result.errorCode || ErrorCode.INVALID_RESPONSE, result.error || 'Failed to list comments');
+        }
+
+        return result.data;
+      });
+
+      comments.push(...showComments.map(comment => ({ ...comment, showId: comment.showId ?? id })));
+    }
+
+    return comments.sort((a, b) => Date.parse(b.createdAt) - Date.parse(a.createdAt));
+  }
+
+  /**
+   * Get the time of the newest comment seen for a show
+   */
+  getCommentCursor(showId: string): Date | undefined {
+    return this.commentCursor.get(showId);
+  }
+
+  /**
+   * Move each show's cursor to the newest of the given comments
+   */
+  markCommentsSeen(comments: Comment[]): void {
+    for (const comment of comments) {
+      if (comment.showId) {
+        this.commentCursor.advance(comment.showId, new Date(comment.createdAt));
+      }
+    }
+  }
+
+  /**
+   * Reply to a comment as the creator
+   */
+  async replyComment(showId: string, commentId: string, content: string): Promise<Comment> {
+    await this.ensureAuthenticated();
+
+    // Replies are not idempotent, so they are never retried automatically
+    return this.execute(async (adapter) => {
+      const result = await adapter.replyComment(`${showId}:${commentId}`, content);
+
+      if (!result.success || !result.data) {
+        throw new AppError(result.errorCode || ErrorCode.UPDATE_FAILED, result.error || 'Failed to reply to comment');
+      }
+
+      return result.data;
+    }, SEND_ONCE);
+  }
+
+  /**
+   * Pin or unpin a comment
+   */
+  async pinComment(showId: string, commentId: string, pinned: boolean = true): Promise<void> {
+    await this.ensureAuthenticated();
+
+    await this.execute(async (adapter) => {
+      const result = await adapter.pinComment(`${showId}:${commentId}`, pinned);
+
+      if (!result.success) {
+        throw new AppError(result.errorCode || ErrorCode.UPDATE_FAILED, result.error || 'Failed to pin comment');
+      }
+    });
+  }
+
+  /**
+   * Delete a comment
+   * @param content - Recorded in the audit log
+   */
+  async deleteComment(showId: string, commentId: string, content?: string): Promise<void> {
+    await this.runAudited('delete-comment', showId, commentId, content, adapter => adapter.deleteComment(`${showId}:${commentId}`));
+  }
+
+  /**
+   * Draft a reply to a comment with the AI provider from ai-config.json
+   */
+  async draftCommentReply(comment: Comment): Promise<string> {
+    return this.getAIService().draftCommentReply(comment);
+  }
+
+  // =====================================================
+  // AI
+  // =====================================================
+
+  /**
+   * AI service configured from ai-config.json
+   * @throws AppError when AI is disabled or no provider has an API key
+   */
+  getAIService(): AIService {
+    const aiService = createAIService(this.configStorage.loadAIConfig(), this.logger);
+
+    if (!aiService.isAvailable()) {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, 'AI provider not configured. Please set up an AI provider.');
+    }
+
+    return aiService;
+  }
+
+  // =====================================================
+  // Title Policy
+  // =====================================================
+
+  /**
+   * Get the title policy for a show (falls back to the global policy)
+   */
+  getTitlePolicy(showId?: string): TitlePolicy {
+    return this.configStorage.getTitlePolicy(showId);
+  }
+
+  /**
+   * Store a title policy globally or for one show
+   */
+  setTitlePolicy(policy: Partial<TitlePolicy>, showId?: string): void {
+    this.configStorage.setTitlePolicy(policy, showId);
+  }
+
+  /**
+   * Preview how a title would be normalized on publish (never calls AI)
+   */
+  async previewTitle(title: string, showId?: string): Promise<TitleNormalizationResult> {
+    return normalizeTitle(title, this.getTitlePolicy(showId));
+  }
+
+  /**
+   * Fill in the configured title policy and AI shortener for a publish
+   */
+  private withTitlePolicy(options: PublishOptions = {}): PublishOptions {
+    const titlePolicy = options.titlePolicy ?? this.getTitlePolicy(options.showId);
+    const titleShortener = options.titleShortener
+      ?? (titlePolicy.useAI ? this.createTitleShortener() : undefined);
+
+    return { ...options, titlePolicy, titleShortener };
+  }
+
+  /**
+   * Build an AI title shortener from ai-config.json, if AI is configured
+   */
+  private createTitleShortener(): TitleShortener | undefined {
+    const aiService = createAIService(this.configStorage.loadAIConfig(), this.logger);
+
+    if (!aiService.isAvailable()) {
+      this.logger.warn('Title policy requests AI but no AI provider is configured', {
+        module: 'client',
+        action: 'createTitleShortener'
+      });
+      return undefined;
+    }
+
+    return (title, maxLength) => aiService.shortenTitle(title, maxLength);
+  }
+
+  /**
+   * Upload a local audio file as a new draft resource
+   */
+  async uploadResource(options: UploadOptions): Promise<Resource> {
+    await this.ensureAuthenticated();
+
+    // Uploads are not idempotent, so they are never retried automatically
+    try {
+      return await this.execute(async (adapter) => {
+        const result = await adapter.uploadResource(options);
+
+        if (!result.success || !result.data) {
+          throw new AppError(result.errorCode || ErrorCode.UPLOAD_FAILED, result.error || 'Failed to upload resource');
+        }
+
+        return result.data;
+      }, { retryOnFailure: false });
+    } finally {
+      this.invalidateCatalog(options.showId);
+    }
+  }
+
+  /**
+   * Register the handler asked to re-login when the platform rejects the session
+   * @param handler - Resolves true when the user logged in again
+   */
+  setReauthHandler(handler: () => Promise<boolean>): void {
+    this.reauthHandler = handler;
+  }
+
+  /**
+   * Run an adapter operation, re-authenticating once if the session was rejected
+   */
+  private async execute<T>(
+    operation: (adapter: IAdapter) => Promise<T>,
+    options: { retryOnFailure?: boolean; fallbackToPlaywright?: boolean } = {}
+  ): Promise<T> {
+    // Start the adapters first so one that cannot start is skipped
+    await this.initialize();
+    this.reauthRequired = false;
+
+    try {
+      return await this.strategyEngine.execute(operation, options);
+    } catch (error) {
+      if (!this.reauthRequired) {
+        throw error;
+      }
+
+      this.reauthRequired = false;
+      this.logger.warn('Session rejected by platform, re-authentication required', {
+        module: 'client',
+        action: 'execute'
+      });
+
+      if (this.reauthHandler && await this.reauthHandler()) {
+        return this.strategyEngine.execute(operation, options);
+      }
+
+      throw new AppError(ErrorCode.TOKEN_EXPIRED, 'Session expired. Please login again.');
+    }
+  }
+
   /**
    * Ensure user is authenticated
    */
   private async ensureAuthenticated(): Promise<void> {
     if (!this.isAuthenticated()) {
-      throw new Error('Not authenticated. Please login first.');
+      throw new AppError(ErrorCode.AUTH_REQUIRED, 'Not authenticated. Please login first.');
     }
   }
 
@@ -269,7 +916,7 @@ export class XiaoYuzhouClient {
    * Get current adapter type
    */
   getCurrentAdapter(): AdapterType {
-    return (this.strategyEngine as any).currentAdapter || AdapterType.HTTP;
+    return this.strategyEngine.getCurrentAdapterType() || AdapterType.HTTP;
   }
 
   /**
@@ -279,6 +926,27 @@ export class XiaoYuzhouClient {
     await this.strategyEngine.forceAdapter(adapterType);
   }
 
+  /**
+   * Get active profile name
+   */
+  getProfile(): string {
+    return this.profile;
+  }
+
+  /**
+   * Get the storage root (shared config, profiles)
+   */
+  getStorageDir(): string {
+    return this.storageDir;
+  }
+
+  /**
+   * Get profile manager instance
+   */
+  getProfileManager(): ProfileManager {
+    return this.profileManager;
+  }
+
   /**
    * Get logger instance
    */
@@ -0,0 +1,305 @@
+/**
+ * App Config - Effective settings from defaults, config.json, .env and flags
+ *
+ * Layers (later wins): defaults < config.json < .env < environment < CLI
+ * flags. Every value remembers the layer it came from so `config show` can
+ * explain where a setting is coming from.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import dotenv from 'dotenv';
+import { AppConfig, LogLevel, ErrorCode } from './types';
+import { DEFAULT_PLATFORM } from './platform';
+import { AppError } from '../services/error-handler';
+import type { StoredConfig } from '../storage/config';
+
+// =====================================================
+// Config Types
+// =====================================================
+
+export type ConfigSource = 'default' | 'config.json' | '.env' | 'env' | 'cli';
+
+/**
+ * Effective config with the source of every value
+ */
+export interface LoadedConfig {
+  config: AppConfig;
+  sources: Record<keyof AppConfig, ConfigSource>;
+  envFile?: string;  // .env file that was read, if any
+  configFile: string;
+}
+
+/**
+ * Loader options
+ */
+export interface ConfigLoadOptions {
+  flags?: Partial<AppConfig>;  // CLI flags (undefined values are ignored)
+  env?: NodeJS.ProcessEnv;
+  envFile?: string;  // Default: .env in the working directory
+}
+
+/**
+ * Environment variable of each setting
+ */
+export const CONFIG_ENV_VARS: Record<keyof AppConfig, string> = {
+  debug: 'DEBUG',
+  logLevel: 'LOG_LEVEL',
+  enableScreenshots: 'ENABLE_SCREENSHOTS',
+  headless: 'HEADLESS',
+  slowMo: 'SLOW_MO',
+  apiBaseUrl: 'XYZ_BASE_URL',
+  apiTimeout: 'API_TIMEOUT',
+  storageDir: 'STORAGE_DIR',
+  logDir: 'LOG_DIR',
+  debugDir: 'DEBUG_DIR'
+};
+
+const DEFAULT_STORAGE_DIR = '.storage';
+
+/**
+ * Defaults (logDir follows storageDir unless set explicitly)
+ */
+export function defaultAppConfig(storageDir: string = DEFAULT_STORAGE_DIR): AppConfig {
+  return {
+    debug: false,
+    logLevel: LogLevel.INFO,
+    enableScreenshots: true,
+    headless: false,
+    slowMo: 50,
+    apiBaseUrl: DEFAULT_PLATFORM.origin,
+    apiTimeout: 30000,
+    storageDir,
+    logDir: path.join(storageDir, 'logs'),
+    debugDir: '.debug'
+  };
+}
+
+// =====================================================
+// Value Parsing
+// =====================================================
+
+function invalid(key: keyof AppConfig, value: unknown, source: ConfigSource): AppError {
+  const origin = source === '.env' || source === 'env' ? CONFIG_ENV_VARS[key] : key;
+  return new AppError(ErrorCode.VALIDATION_ERROR, `Invalid ${origin} in ${source}: ${JSON.stringify(value)}`);
+}
+
+function parseBoolean(key: keyof AppConfig, value: unknown, source: ConfigSource): boolean {
+  if (typeof value === 'boolean') {
+    return value;
+  }
+  const text = String(value).trim().toLowerCase();
+  if (['true', '1', 'yes', 'on'].includes(text)) {
+    return true;
+  }
+  if (['false', '0', 'no', 'off', ''].includes(text)) {
+    return false;
+  }
+  throw invalid(key, value, source);
+}
+
+function parseNumber(key: keyof AppConfig, value: unknown, source: ConfigSource): number {
+  const number = typeof value === 'number' ? value : Number(String(value).trim());
+  if (!Number.isInteger(number) || number < 0) {
+    throw invalid(key, value, source);
+  }
+  return number;
+}
+
+function parseLogLevel(value: unknown, source: ConfigSource): LogLevel {
+  if (typeof value === 'string' && value.trim().toUpperCase() in LogLevel) {
+    return LogLevel[value.trim().toUpperCase() as keyof typeof LogLevel];
+  }
+  const level = Number(value);
+  if (Number.isInteger(level) && LogLevel[level] !== undefined) {
+    return level;
+  }
+  throw invalid('logLevel', value, source);
+}
+
+function parseUrl(value: unknown, source: ConfigSource): string {
+  try {
+    const url = new URL(String(value));
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      throw new Error(url.protocol);
+    }
+    return String(value).replace(/\/+$/, '');
+  } catch {
+    throw invalid('apiBaseUrl', value, source);
+  }
+}
+
+/**
+ * Validate one raw value for a setting
+ */
+function parseValue<K extends keyof AppConfig>(key: K, value: unknown, source: ConfigSource): AppConfig[K] {
+  switch (key) {
+    case 'debug':
+    case 'enableScreenshots':
+    case 'headless':
+      return parseBoolean(key, value, source) as AppConfig[K];
+    case 'slowMo':
+    case 'apiTimeout':
+      return parseNumber(key, value, source) as AppConfig[K];
+    case 'logLevel':
+      return parseLogLevel(value, source) as AppConfig[K];
+    case 'apiBaseUrl':
+      return parseUrl(value, source) as AppConfig[K];
+    default:
+      if (typeof value !== 'string' || !value.trim()) {
+        throw invalid(key, value, source);
+      }
+      return value.trim() as AppConfig[K];
+  }
+}
+
+// =====================================================
+// Layers
+// =====================================================
+
+/**
+ * Settings taken from config.json (storageDir cannot come from there)
+ */
+function fromStoredConfig(stored: StoredConfig): Partial<Record<keyof AppConfig, unknown>> {
+  const layer: Partial<Record<keyof AppConfig, unknown>> = {};
+
+  for (const key of Object.keys(CONFIG_ENV_VARS) as Array<keyof AppConfig>) {
+    if (key !== 'storageDir' && stored[key] !== undefined) {
+      layer[key] = stored[key];
+    }
+  }
+  if (stored.platform?.origin) {
+    layer.apiBaseUrl = stored.platform.origin;
+  }
+
+  return layer;
+}
+
+/**
+ * Check if a DEBUG value is meant for this app
+ *
+ * DEBUG is shared with the `debug` package (DEBUG=pw:api for Playwright),
+ * so only boolean values are read; namespace lists are left alone.
+ */
+function isBooleanDebug(value: string): boolean {
+  return ['true', '1', 'yes', 'on', 'false', '0', 'no', 'off'].includes(value.trim().toLowerCase());
+}
+
+/**
+ * Settings taken from environment variables
+ */
+function fromEnv(env: Record<string, string | undefined>): Partial<Record<keyof AppConfig, unknown>> {
+  const layer: Partial<Record<keyof AppConfig, unknown>> = {};
+
+  for (const [key, name] of Object.entries(CONFIG_ENV_VARS) as Array<[keyof AppConfig, string]>) {
+    const value = env[name];
+    if (value === undefined || value === '' || (key === 'debug' && !isBooleanDebug(value))) {
+      continue;
+    }
+    layer[key] = value;
+  }
+
+  return layer;
+}
+
+function readStoredConfig(file: string): StoredConfig {
+  if (!fs.existsSync(file)) {
+    return {};
+  }
+  try {
+    return JSON.parse(fs.readFileSync(file, 'utf-8')) as StoredConfig;
+  } catch (error) {
+    throw new AppError(ErrorCode.PARSE_ERROR, `Failed to parse ${file}: ${(error as Error).message}`);
+  }
+}
+
+// Values an earlier load exported from .env into each environment; a variable
+// still holding the exported value is attributed to .env, not the environment
+const exportedFromEnvFile = new WeakMap<NodeJS.ProcessEnv, Map<string, string>>();
+
+// =====================================================
+// Loader
+// =====================================================
+
+/**
+ * Load and validate the effective app config
+ *
+ * Variables in .env that are not set in the environment are exported to it,
+ * so settings read elsewhere (XYZ_STORAGE_PASSPHRASE) can live in .env too.
+ */
+export function loadAppConfig(options: ConfigLoadOptions = {}): LoadedConfig {
+  const env = options.env ?? process.env;
+  const envFilePath = path.resolve(options.envFile ?? '.env');
+  const envFile = fs.existsSync(envFilePath) ? envFilePath : undefined;
+  const dotenvValues = envFile ? dotenv.parse(fs.readFileSync(envFile)) : {};
+
+  const exported = exportedFromEnvFile.get(env) ?? new Map<string, string>();
+  exportedFromEnvFile.set(env, exported);
+
+  const processValues: Record<string, string | undefined> = {};
+  for (const [name, value] of Object.entries(env)) {
+    if (exported.get(name) !== value) {
+      processValues[name] = value;
+    }
+  }
+
+  const flags: Partial<Record<keyof AppConfig, unknown>> = {};
+  for (const [key, value] of Object.entries(options.flags || {}) as Array<[keyof AppConfig, unknown]>) {
+    if (value !== undefined) {
+      flags[key] = value;
+    }
+  }
+
+  // storageDir first: config.json lives inside it
+  const earlyLayers: Array<[ConfigSource, Partial<Record<keyof AppConfig, unknown>>]> = [
+    ['.env', fromEnv(dotenvValues)],
+    ['env', fromEnv(processValues)],
+    ['cli', flags]
+  ];
+
+  let storageDir: string = DEFAULT_STORAGE_DIR;
+  let storageSource: ConfigSource = 'default';
+  for (const [source, layer] of earlyLayers) {
+    if (layer.storageDir !== undefined) {
+      storageDir = parseValue('storageDir', layer.storageDir, source);
+      storageSource = source;
+    }
+  }
+
+  const configFile = path.join(storageDir, 'config.json');
+  const layers: Array<[ConfigSource, Partial<Record<keyof AppConfig, unknown>>]> = [
+    ['config.json', fromStoredConfig(readStoredConfig(configFile))],
+    ...earlyLayers
+  ];
+
+  const config = defaultAppConfig(storageDir);
+  const sources = {} as Record<keyof AppConfig, ConfigSource>;
+  for (const key of Object.keys(config) as Array<keyof AppConfig>) {
+    sources[key] = 'default';
+  }
+  sources.storageDir = storageSource;
+
+  for (const [source, layer] of layers) {
+    for (const [key, value] of Object.entries(layer) as Array<[keyof AppConfig, unknown]>) {
+      if (key === 'storageDir') {
+        continue;
+      }
+      (config as unknown as Record<string, unknown>)[key] = parseValue(key, value, source);
+      sources[key] = source;
+    }
+  }
+
+  // Follow a relocated storage directory unless logDir was set explicitly
+  if (sources.logDir === 'default') {
+    sources.logDir = storageSource;
+  }
+
+  for (const [name, value] of Object.entries(dotenvValues)) {
+    if (env[name] === undefined) {
+      env[name] = value;
+      exported.set(name, value);
+    }
+  }
+
+  return { config, sources, envFile, configFile };
+}
@@ -4,3 +4,7 @@
 
 export * from './types';
 export * from './client';
+export * from './title-policy';
+export * from './catalog-diff';
+export * from './platform';
+export * from './config';
@@ -0,0 +1,163 @@
+/**
+ * Platform - Where the creator platform lives and how its URLs are built
+ *
+ * Every origin, page path and API endpoint the adapters and the auth
+ * manager use comes from one descriptor, so a staging domain or the local
+ * mock site can be swapped in through config.json or the environment.
+ */
+
+// =====================================================
+// Platform Types
+// =====================================================
+
+/**
+ * API endpoint templates; `{name}` placeholders are filled per request
+ */
+export interface PlatformEndpoints {
+  shows: string;
+  episodes: string;
+  showStats: string;
+  episode: string;
+  episodeStats: string;
+  publish: string;
+  batchPublish: string;
+  unpublish: string;
+  cancelSchedule: string;
+  comments: string;
+  commentReply: string;
+  commentPin: string;
+  commentUnpin: string;
+  comment: string;
+}
+
+export type PlatformEndpoint = keyof PlatformEndpoints;
+
+/**
+ * Browser page paths
+ */
+export interface PlatformPages {
+  login: string;
+  dashboard: string;
+  showHome: string;
+}
+
+/**
+ * Complete platform descriptor
+ */
+export interface PlatformDescriptor {
+  origin: string;
+  pages: PlatformPages;
+  loginPattern: string;  // Regex source matched against URLs of the login page
+  dashboardPattern: string;  // Regex source matched against URLs of the dashboard
+  api: PlatformEndpoints;
+}
+
+/**
+ * Partial descriptor as stored under `platform` in config.json
+ */
+export interface PlatformOverrides {
+  origin?: string;
+  pages?: Partial<PlatformPages>;
+  loginPattern?: string;
+  dashboardPattern?: string;
+  api?: Partial<PlatformEndpoints>;
+}
+
+// =====================================================
+// Default Platform
+// =====================================================
+
+export const DEFAULT_PLATFORM: PlatformDescriptor = {
+  origin: 'https://podcaster.xiaoyuzhoufm.com',
+  pages: {
+    login: '/login',
+    dashboard: '/dashboard',
+    showHome: '/podcasts/{showId}/home'
+  },
+  loginPattern: '/login',
+  dashboardPattern: '/dashboard',
+  // Note: API endpoints are placeholders until the platform documents them
+  api: {
+    shows: '/dashboard/podcasts',
+    episodes: '/dashboard/podcasts/{showId}/episodes',
+    showStats: '/dashboard/podcasts/{showId}/stats',
+    episode: '/dashboard/episodes/{episodeId}',
+    episodeStats: '/dashboard/episodes/{episodeId}/stats',
+    publish: '/dashboard/episodes/{episodeId}/publish',
+    batchPublish: '/dashboard/episodes/batch-publish',
+    unpublish: '/dashboard/episodes/{episodeId}/unpublish',
+    cancelSchedule: '/dashboard/episodes/{episodeId}/cancel-schedule',
+    comments: '/dashboard/podcasts/{showId}/comments',
+    commentReply: '/dashboard/comments/{commentId}/reply',
+    commentPin: '/dashboard/comments/{commentId}/pin',
+    commentUnpin: '/dashboard/comments/{commentId}/unpin',
+    comment: '/dashboard/comments/{commentId}'
+  }
+};
+
+// =====================================================
+// Platform Functions
+// =====================================================
+
+/**
+ * Merge override layers onto the default platform (later layers win)
+ */
+export function resolvePlatform(...layers: Array<PlatformOverrides | undefined>): PlatformDescriptor {
+  let platform = DEFAULT_PLATFORM;
+
+  for (const layer of layers) {
+    if (!layer) {
+      continue;
+    }
+    platform = {
+      origin: layer.origin ? layer.origin.replace(/\/+$/, '') : platform.origin,
+      pages: { ...platform.pages, ...layer.pages },
+      loginPattern: layer.loginPattern || platform.loginPattern,
+      dashboardPattern: layer.dashboardPattern || platform.dashboardPattern,
+      api: { ...platform.api, ...layer.api }
+    };
+  }
+
+  return platform;
+}
+
+/**
+ * Read platform overrides from the environment (XYZ_BASE_URL)
+ */
+export function platformFromEnv(env: NodeJS.ProcessEnv = process.env): PlatformOverrides | undefined {
+  return env.XYZ_BASE_URL ? { origin: env.XYZ_BASE_URL } : undefined;
+}
+
+/**
+ * Fill `{name}` placeholders of a path template
+ */
+export function fillPath(template: string, params: Record<string, string> = {}): string {
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+    const value = params[name];
+    if (value === undefined) {
+      throw new Error(`Missing path parameter "${name}" for ${template}`);
+    }
+    return encodeURIComponent(value);
+  });
+}
+
+/**
+ * Build the absolute URL of a browser page
+ */
+export function pageUrl(platform: PlatformDescriptor, page: keyof PlatformPages, params?: Record<string, string>): string {
+  return `${platform.origin}${fillPath(platform.pages[page], params)}`;
+}
+
+/**
+ * Build the path of an API endpoint (relative to the origin)
+ */
+export function apiPath(platform: PlatformDescriptor, endpoint: PlatformEndpoint, params?: Record<string, string>): string {
+  return fillPath(platform.api[endpoint], params);
+}
+
+/**
+ * Check whether a URL is the login page or the dashboard
+ */
+export function isPlatformPage(platform: PlatformDescriptor, url: string, page: 'login' | 'dashboard'): boolean {
+  return new RegExp(page === 'login' ? platform.loginPattern : platform.dashboardPattern).test(url);
+}
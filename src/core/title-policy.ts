@@ -0,0 +1,191 @@
+/**
+ * Title Policy - Normalize episode titles to the platform's length limit
+ *
+ * Modes:
+ * - reject: refuse titles that are too long
+ * - truncate-end: keep the beginning (episode numbers survive)
+ * - truncate-start: keep the end (previous hard-coded behavior)
+ * - smart: strip numbering prefixes such as "EP123 |", then shorten with AI
+ *   when a shortener is available, then truncate the end
+ */
+
+// =====================================================
+// Title Policy Types
+// =====================================================
+
+/**
+ * Title normalization mode
+ */
+export enum TitlePolicyMode {
+  REJECT = 'reject',
+  TRUNCATE_END = 'truncate-end',
+  TRUNCATE_START = 'truncate-start',
+  SMART = 'smart'
+}
+
+/**
+ * Title policy settings
+ */
+export interface TitlePolicy {
+  mode: TitlePolicyMode;
+  maxLength: number;
+  useAI?: boolean;
+  stripPatterns?: string[];  // Extra prefix regexes for smart mode
+}
+
+/**
+ * How a title was changed
+ */
+export type TitleStrategy = 'unchanged' | 'truncate-end' | 'truncate-start' | 'strip-prefix' | 'ai' | 'rejected';
+
+/**
+ * Title normalization result
+ */
+export interface TitleNormalizationResult {
+  original: string;
+  title: string;
+  strategy: TitleStrategy;
+  changed: boolean;
+  accepted: boolean;
+  reason?: string;
+}
+
+/**
+ * Shortens a title to at most maxLength characters (e.g. via AI)
+ */
+export type TitleShortener = (title: string, maxLength: number) => Promise<string>;
+
+/**
+ * Platform title limit
+ */
+export const MAX_TITLE_LENGTH = 60;
+
+export const DEFAULT_TITLE_POLICY: TitlePolicy = {
+  mode: TitlePolicyMode.TRUNCATE_END,
+  maxLength: MAX_TITLE_LENGTH,
+  useAI: false
+};
+
+/**
+ * Numbering prefixes stripped in smart mode
+ */
+const PREFIX_PATTERNS = [
+  /^\s*(?:EP|Ep|ep|E|Vol\.?|#)\s*\d+\s*[|｜:：\-—–.、]\s*/,
+  /^\s*第\s*[\d一二三四五六七八九十百千]+\s*[期集话回]\s*[|｜:：\-—–.、]?\s*/,
+  /^\s*【[^】]*】\s*/,
+  /^\s*\[[^\]]*\]\s*/
+];
+
+const ELLIPSIS = '…';
+
+// =====================================================
+// Helpers
+// =====================================================
+
+/**
+ * Title length in characters (code points, so emoji count once)
+ */
+export function titleLength(title: string): number {
+  return Array.from(title).length;
+}
+
+/**
+ * Check if a string is a valid title policy mode
+ */
+export function isTitlePolicyMode(value: string): value is TitlePolicyMode {
+  return (Object.values(TitlePolicyMode) as string[]).includes(value);
+}
+
+function truncateEnd(title: string, maxLength: number): string {
+  const chars = Array.from(title);
+  return chars.slice(0, maxLength - 1).join('').trimEnd() + ELLIPSIS;
+}
+
+function truncateStart(title: string, maxLength: number): string {
+  const chars = Array.from(title);
+  return chars.slice(chars.length - maxLength).join('').trimStart();
+}
+
+function stripPrefixes(title: string, extraPatterns: string[] = []): string {
+  const patterns = [...PREFIX_PATTERNS, ...extraPatterns.map(source => new RegExp(source))];
+  let result = title;
+
+  for (const pattern of patterns) {
+    const stripped = result.replace(pattern, '');
+    if (stripped.trim().length > 0) {
+      result = stripped;
+    }
+  }
+
+  return result.trim();
+}
+
+function buildResult(original: string, title: string, strategy: TitleStrategy): TitleNormalizationResult {
+  return {
+    original,
+    title,
+    strategy,
+    changed: title !== original,
+    accepted: true
+  };
+}
+
+// =====================================================
+// Normalization
+// =====================================================
+
+/**
+ * Normalize a title according to a policy
+ * @param shortener - Used by smart mode when the policy enables AI; omit for previews
+ */
+export async function normalizeTitle(
+  title: string,
+  policy: TitlePolicy = DEFAULT_TITLE_POLICY,
+  shortener?: TitleShortener
+): Promise<TitleNormalizationResult> {
+  const original = title.trim();
+  const maxLength = policy.maxLength || MAX_TITLE_LENGTH;
+
+  if (titleLength(original) <= maxLength) {
+    return buildResult(original, original, 'unchanged');
+  }
+
+  switch (policy.mode) {
+    case TitlePolicyMode.REJECT:
+      return {
+        original,
+        title: original,
+        strategy: 'rejected',
+        changed: false,
+        accepted: false,
+        reason: `Title is ${titleLength(original)} characters, limit is ${maxLength}`
+      };
+
+    case TitlePolicyMode.TRUNCATE_START:
+      return buildResult(original, truncateStart(original, maxLength), 'truncate-start');
+
+    case TitlePolicyMode.SMART: {
+      const stripped = stripPrefixes(original, policy.stripPatterns);
+      if (titleLength(stripped) <= maxLength) {
+        return buildResult(original, stripped, 'strip-prefix');
+      }
+
+      if (policy.useAI && shortener) {
+        try {
+          const shortened = (await shortener(original, maxLength)).trim();
+          if (shortened && titleLength(shortened) <= maxLength) {
+            return buildResult(original, shortened, 'ai');
+          }
+        } catch {
+          // Fall back to truncation below
+        }
+      }
+
+      return buildResult(original, truncateEnd(stripped, maxLength), 'truncate-end');
+    }
+
+    case TitlePolicyMode.TRUNCATE_END:
+    default:
+      return buildResult(original, truncateEnd(original, maxLength), 'truncate-end');
+  }
+}
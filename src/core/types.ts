@@ -2,6 +2,8 @@
  * Core type definitions for the Xiaoyuzhou automation tool
  */
 
+import type { TitleStrategy } from './title-policy';
+
 // =====================================================
 // Authentication Types
 // =====================================================
@@ -22,6 +24,48 @@ export interface AuthResult {
   userId?: string;
   userName?: string;
   error?: string;
+  errorCode?: ErrorCode;
+}
+
+/**
+ * QR code captured from the login page (headless login)
+ */
+export interface QRCodeChallenge {
+  matrix: boolean[][];
+  imagePath?: string;
+  refreshed: boolean;
+}
+
+/**
+ * Result of probing the stored browser session
+ */
+export enum SessionStatus {
+  VALID = 'valid',
+  EXPIRED = 'expired',
+  INVALID = 'invalid',
+  MISSING = 'missing',
+  UNKNOWN = 'unknown'
+}
+
+/**
+ * Expiry information of a stored cookie
+ */
+export interface CookieExpiry {
+  name: string;
+  domain: string;
+  expiresAt?: string; // undefined for session cookies
+  expired: boolean;
+}
+
+/**
+ * Session validation result
+ */
+export interface SessionValidationResult {
+  status: SessionStatus;
+  errorCode?: ErrorCode;
+  error?: string;
+  checkedAt: string;
+  cookies: CookieExpiry[];
 }
 
 /**
@@ -66,6 +110,7 @@ export enum ErrorCode {
   LOGIN_FAILED = 'LOGIN_FAILED',
   UPLOAD_FAILED = 'UPLOAD_FAILED',
   PUBLISH_FAILED = 'PUBLISH_FAILED',
+  UPDATE_FAILED = 'UPDATE_FAILED',
 
   // Platform errors
   PLATFORM_ERROR = 'PLATFORM_ERROR',
@@ -186,6 +231,23 @@ export interface Resource {
   updatedAt: string;
 }
 
+/**
+ * Chapter marker in an episode's shownotes
+ */
+export interface EpisodeChapter {
+  start: number; // in seconds
+  title: string;
+}
+
+/**
+ * Editable metadata of a published episode
+ */
+export interface EpisodeDetails extends Resource {
+  showId?: string;
+  shownotes: string; // Markdown, without the chapter list
+  chapters: EpisodeChapter[];
+}
+
 /**
  * Resource status
  */
@@ -195,6 +257,16 @@ export enum ResourceStatus {
   SCHEDULED = 'scheduled'
 }
 
+/**
+ * One page of a show's episode list
+ */
+export interface EpisodePage {
+  items: Resource[];
+  page: number;
+  pageSize: number;
+  hasMore: boolean;  // More matching episodes exist after this page
+}
+
 /**
  * Publish result
  */
@@ -202,9 +274,95 @@ export interface PublishResult {
   success: boolean;
   resourceId: string;
   publishedUrl?: string;
+  scheduledAt?: string;
+  appliedOverrides?: PublishOverrides;
   error?: string;
 }
 
+/**
+ * Publish page settings changed from the platform defaults
+ */
+export interface PublishOverrides {
+  notify?: boolean;
+  description?: 'replaced' | 'appended';
+  titleStrategy?: TitleStrategy;  // Set when the title policy changed the title
+  title?: string;  // Set when a per-resource title replaced the draft's title
+}
+
+// =====================================================
+// Statistics Types
+// =====================================================
+
+/**
+ * Inclusive date range (yyyy-MM-dd)
+ */
+export interface StatsRange {
+  from: string;
+  to: string;
+}
+
+/**
+ * Metrics for one day
+ */
+export interface StatsPoint {
+  date: string;  // yyyy-MM-dd
+  plays?: number;
+  subscribers?: number;  // Total subscribers at the end of the day
+  newSubscribers?: number;
+  completionRate?: number;  // 0-1
+}
+
+/**
+ * Aggregate metrics as shown on the data page
+ */
+export interface StatsTotals {
+  plays?: number;
+  subscribers?: number;
+  completionRate?: number;  // 0-1
+  comments?: number;
+  likes?: number;
+}
+
+/**
+ * Show statistics
+ */
+export interface ShowStats {
+  showId: string;
+  range: StatsRange;
+  totals: StatsTotals;
+  daily: StatsPoint[];
+}
+
+/**
+ * Episode statistics
+ */
+export interface EpisodeStats {
+  episodeId: string;
+  showId?: string;
+  totals: StatsTotals;
+  daily: StatsPoint[];
+}
+
+// =====================================================
+// Comment Types
+// =====================================================
+
+/**
+ * Listener comment on an episode
+ */
+export interface Comment {
+  id: string;
+  showId?: string;
+  episodeId?: string;
+  episodeTitle?: string;
+  author: string;
+  content: string;
+  createdAt: string;
+  likeCount?: number;
+  pinned: boolean;
+  replied: boolean;  // The creator has already replied
+}
+
 // =====================================================
 // Configuration Types
 // =====================================================
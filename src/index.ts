@@ -3,9 +3,14 @@
  */
 
 import { run } from './cli';
+import { AppError, getErrorHandler } from './services/error-handler';
 
 // Run the CLI
-run(process.argv).catch(error => {
-  console.error('Fatal error:', error);
+run(process.argv).catch(async error => {
+  if (error instanceof AppError) {
+    await getErrorHandler().handle(error, { module: 'cli', action: 'run' });
+  } else {
+    console.error('Fatal error:', error);
+  }
   process.exit(1);
 });
@@ -0,0 +1,316 @@
+/**
+ * Mock Data - In-memory state of the local creator site stand-in
+ *
+ * Holds shows, episodes and comments and applies the same transitions the
+ * platform does (publish, schedule, withdraw, delete), so commands run
+ * against the mock see their own changes on the next read.
+ */
+
+import { ResourceStatus } from '../core/types';
+
+// =====================================================
+// Mock Data Types
+// =====================================================
+
+export interface MockShow {
+  id: string;
+  title: string;
+  description: string;
+  createdAt: string;
+}
+
+export interface MockEpisode {
+  id: string;
+  showId: string;
+  title: string;
+  description: string;  // Shownotes HTML
+  duration: number;  // Seconds
+  status: ResourceStatus;
+  createdAt: string;
+  updatedAt: string;
+  pubDate?: string;
+  scheduledAt?: string;
+  notify?: boolean;
+}
+
+export interface MockReply {
+  text: string;
+  createdAt: string;
+}
+
+export interface MockComment {
+  id: string;
+  showId: string;
+  episodeId: string;
+  author: string;
+  text: string;
+  createdAt: string;
+  likeCount: number;
+  pinned: boolean;
+  replies: MockReply[];
+}
+
+/**
+ * Initial state of the mock site
+ */
+export interface MockSeed {
+  shows: MockShow[];
+  episodes: MockEpisode[];
+  comments?: MockComment[];
+}
+
+/**
+ * Publish request as sent by the publish page and HttpAdapter
+ */
+export interface MockPublishRequest {
+  title?: string;
+  description?: string;
+  descriptionMode?: 'replace' | 'append';
+  scheduledAt?: string;
+  notify?: boolean;
+}
+
+// =====================================================
+// Default Seed
+// =====================================================
+
+const DAY = 24 * 3600 * 1000;
+
+function daysAgo(days: number): string {
+  return new Date(Date.now() - days * DAY).toISOString();
+}
+
+/**
+ * Build the default seed: two shows with published episodes, drafts
+ * waiting in the resource library and one scheduled release
+ */
+export function createDefaultSeed(): MockSeed {
+  const episode = (id: string, showId: string, title: string, status: ResourceStatus, age: number): MockEpisode => ({
+    id,
+    showId,
+    title,
+    description: `<p>${title} 的节目简介</p>`,
+    duration: 1800 + age * 60,
+    status,
+    createdAt: daysAgo(age),
+    updatedAt: daysAgo(age),
+    pubDate: status === ResourceStatus.PUBLISHED ? daysAgo(age) : undefined,
+    scheduledAt: status === ResourceStatus.SCHEDULED ? new Date(Date.now() + 7 * DAY).toISOString() : undefined
+  });
+
+  return {
+    shows: [
+      { id: 'mock-show-1', title: '模拟播客：技术闲谈', description: '聊聊软件开发与开源', createdAt: daysAgo(400) },
+      { id: 'mock-show-2', title: '模拟播客：读书会', description: '每周一本书', createdAt: daysAgo(200) }
+    ],
+    episodes: [
+      episode('mock-ep-101', 'mock-show-1', '第 1 期：为什么要写自动化脚本', ResourceStatus.PUBLISHED, 60),
+      episode('mock-ep-102', 'mock-show-1', '第 2 期：浏览器自动化的坑', ResourceStatus.PUBLISHED, 30),
+      episode('mock-ep-103', 'mock-show-1', '第 3 期：离线测试', ResourceStatus.DRAFT, 2),
+      episode('mock-ep-104', 'mock-show-1', '第 4 期：定时发布', ResourceStatus.SCHEDULED, 1),
+      episode('mock-ep-201', 'mock-show-2', '《慢思考》读后感', ResourceStatus.PUBLISHED, 14),
+      episode('mock-ep-202', 'mock-show-2', '《长安的荔枝》', ResourceStatus.DRAFT, 3)
+    ],
+    comments: [
+      {
+        id: 'mock-cm-1',
+        showId: 'mock-show-1',
+        episodeId: 'mock-ep-102',
+        author: '听众甲',
+        text: '讲得很实在，期待下一期！',
+        createdAt: daysAgo(1),
+        likeCount: 3,
+        pinned: false,
+        replies: []
+      },
+      {
+        id: 'mock-cm-2',
+        showId: 'mock-show-1',
+        episodeId: 'mock-ep-101',
+        author: '听众乙',
+        text: '有没有推荐的入门资料？',
+        createdAt: daysAgo(10),
+        likeCount: 0,
+        pinned: false,
+        replies: [{ text: '节目简介里有链接', createdAt: daysAgo(9) }]
+      }
+    ]
+  };
+}
+
+// =====================================================
+// Mock Store Class
+// =====================================================
+
+/**
+ * Mutable state of the mock site
+ */
+export class MockStore {
+  private shows: MockShow[];
+  private episodes: MockEpisode[];
+  private comments: MockComment[];
+
+  constructor(seed: MockSeed = createDefaultSeed()) {
+    const copy = JSON.parse(JSON.stringify(seed)) as MockSeed;
+    this.shows = copy.shows;
+    this.episodes = copy.episodes;
+    this.comments = copy.comments || [];
+  }
+
+  // =====================================================
+  // Shows and Episodes
+  // =====================================================
+
+  listShows(): MockShow[] {
+    return this.shows;
+  }
+
+  getShow(showId: string): MockShow | undefined {
+    return this.shows.find(show => show.id === showId);
+  }
+
+  /**
+   * Episodes of a show, newest first
+   */
+  listEpisodes(showId: string): MockEpisode[] {
+    this.releaseDue();
+    return this.episodes
+      .filter(episode => episode.showId === showId)
+      .sort((a, b) => Date.parse(b.createdAt) - Date.parse(a.createdAt));
+  }
+
+  getEpisode(episodeId: string): MockEpisode | undefined {
+    this.releaseDue();
+    return this.episodes.find(episode => episode.id === episodeId);
+  }
+
+  /**
+   * Publish a draft now or schedule it
+   * @returns Error message when the episode cannot be published
+   */
+  publish(episodeId: string, request: MockPublishRequest): string | null {
+    const episode = this.getEpisode(episodeId);
+    if (!episode) {
+      return `Episode not found: ${episodeId}`;
+    }
+    if (episode.status !== ResourceStatus.DRAFT) {
+      return `Episode is not a draft: ${episodeId}`;
+    }
+    if (request.scheduledAt && Date.parse(request.scheduledAt) <= Date.now()) {
+      return `Scheduled time is in the past: ${request.scheduledAt}`;
+    }
+
+    if (request.title) {
+      episode.title = request.title;
+    }
+    if (request.description !== undefined) {
+      episode.description = request.descriptionMode === 'append'
+        ? `${episode.description}${request.description}`
+        : request.description;
+    }
+
+    episode.notify = request.notify ?? true;
+    episode.updatedAt = new Date().toISOString();
+
+    if (request.scheduledAt) {
+      episode.status = ResourceStatus.SCHEDULED;
+      episode.scheduledAt = new Date(request.scheduledAt).toISOString();
+    } else {
+      episode.status = ResourceStatus.PUBLISHED;
+      episode.pubDate = episode.updatedAt;
+    }
+    return null;
+  }
+
+  /**
+   * Update title and shownotes of an episode
+   */
+  updateEpisode(episodeId: string, patch: { title?: string; shownotes?: string }): MockEpisode | undefined {
+    const episode = this.getEpisode(episodeId);
+    if (!episode) {
+      return undefined;
+    }
+
+    if (patch.title) {
+      episode.title = patch.title;
+    }
+    if (patch.shownotes !== undefined) {
+      episode.description = patch.shownotes;
+    }
+    episode.updatedAt = new Date().toISOString();
+    return episode;
+  }
+
+  /**
+   * Move a published or scheduled episode back to the resource library
+   */
+  withdraw(episodeId: string, from: ResourceStatus): string | null {
+    const episode = this.getEpisode(episodeId);
+    if (!episode) {
+      return `Episode not found: ${episodeId}`;
+    }
+    if (episode.status !== from) {
+      return `Episode is ${episode.status}, not ${from}: ${episodeId}`;
+    }
+
+    episode.status = ResourceStatus.DRAFT;
+    episode.pubDate = undefined;
+    episode.scheduledAt = undefined;
+    episode.updatedAt = new Date().toISOString();
+    return null;
+  }
+
+  deleteEpisode(episodeId: string): boolean {
+    const before = this.episodes.length;
+    this.episodes = this.episodes.filter(episode => episode.id !== episodeId);
+    this.comments = this.comments.filter(comment => comment.episodeId !== episodeId);
+    return this.episodes.length < before;
+  }
+
+  /**
+   * Publish scheduled episodes whose release time has passed
+   */
+  private releaseDue(): void {
+    for (const episode of this.episodes) {
+      if (episode.status === ResourceStatus.SCHEDULED && episode.scheduledAt && Date.parse(episode.scheduledAt) <= Date.now()) {
+        episode.status = ResourceStatus.PUBLISHED;
+        episode.pubDate = episode.scheduledAt;
+        episode.scheduledAt = undefined;
+      }
+    }
+  }
+
+  // =====================================================
+  // Comments
+  // =====================================================
+
+  /**
+   * Comments of a show, newest first
+   */
+  listComments(showId: string, episodeId?: string): MockComment[] {
+    return this.comments
+      .filter(comment => comment.showId === showId && (!episodeId || comment.episodeId === episodeId))
+      .sort((a, b) => Date.parse(b.createdAt) - Date.parse(a.createdAt));
+  }
+
+  getComment(commentId: string): MockComment | undefined {
+    return this.comments.find(comment => comment.id === commentId);
+  }
+
+  reply(commentId: string, text: string): MockReply | undefined {
+    const comment = this.getComment(commentId);
+    if (!comment) {
+      return undefined;
+    }
+
+    const reply = { text, createdAt: new Date().toISOString() };
+    comment.replies.push(reply);
+    return reply;
+  }
+
+  deleteComment(commentId: string): boolean {
+    const before = this.comments.length;
+    this.comments = this.comments.filter(comment => comment.id !== commentId);
+    return this.comments.length < before;
+  }
+}
@@ -0,0 +1,6 @@
+/**
+ * Mock module exports
+ */
+
+export * from './data';
+export * from './server';
@@ -0,0 +1,272 @@
+/**
+ * Mock Pages - HTML of the local creator site stand-in
+ *
+ * The markup mirrors what the Playwright adapter and AuthManager look for
+ * (show cards linking to /podcasts/{id}/home, rows carrying resource IDs,
+ * the publish form controls), not the platform's real page structure.
+ */
+
+import { ResourceStatus } from '../core/types';
+import { MockShow, MockEpisode } from './data';
+
+// =====================================================
+// Helpers
+// =====================================================
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function formatDuration(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
+function statusText(episode: MockEpisode): string {
+  switch (episode.status) {
+    case ResourceStatus.DRAFT:
+      return '草稿';
+    case ResourceStatus.SCHEDULED:
+      return `定时发布 ${episode.scheduledAt ? new Date(episode.scheduledAt).toLocaleString('zh-CN') : ''}`;
+    default:
+      return '已发布';
+  }
+}
+
+/**
+ * Wrap a page body in the site layout
+ */
+function layout(title: string, body: string, script: string = ''): string {
+  return `<!DOCTYPE html>
+<html lang="zh-CN">
+<head>
+  <meta charset="UTF-8">
+  <title>${escapeHtml(title)} - 小宇宙创作者平台 (模拟)</title>
+  <style>
+    body { font-family: -apple-system, sans-serif; margin: 0 auto; max-width: 880px; padding: 24px; color: #222; }
+    nav { display: flex; gap: 16px; margin-bottom: 24px; }
+    ul.list { list-style: none; padding: 0; }
+    ul.list > li { display: flex; gap: 12px; align-items: center; padding: 10px 0; border-bottom: 1px solid #eee; }
+    .status { color: #888; }
+    [hidden] { display: none !important; }
+    [role="alert"] { color: #c00; }
+  </style>
+</head>
+<body>
+${body}
+${script ? `<script>\n${script}\n</script>` : ''}
+</body>
+</html>`;
+}
+
+// =====================================================
+// Login
+// =====================================================
+
+/**
+ * Login page with QR code and phone tabs
+ * @param qrScanDelay - The QR code counts as scanned after this many ms (0: never)
+ */
+export function loginPage(qrScanDelay: number): string {
+  const body = `
+  <h1>登录小宇宙创作者平台</h1>
+  <nav>
+    <button type="button" id="tab-qr">扫码登录</button>
+    <button type="button" id="tab-phone">手机登录</button>
+  </nav>
+  <section id="panel-qr" class="qrcode">
+    <canvas id="qr" width="160" height="160"></canvas>
+    <p>使用小宇宙 App 扫码登录${qrScanDelay > 0 ? ` (模拟站点会在 ${Math.round(qrScanDelay / 1000)} 秒后自动完成扫码)` : ''}</p>
+  </section>
+  <section id="panel-phone" hidden>
+    <p><input type="tel" name="phone" placeholder="请输入手机号"></p>
+    <p>
+      <input name="code" placeholder="请输入验证码" autocomplete="one-time-code">
+      <button type="button" id="send-code">获取验证码</button>
+    </p>
+    <p><label><input type="checkbox" id="agree"> 我已阅读并同意《用户协议》</label></p>
+    <p role="alert" hidden></p>
+    <button type="submit" id="login">登录</button>
+  </section>`;
+
+  const script = `
+  var alertBox = document.querySelector('[role="alert"]');
+  function showAlert(text) { alertBox.textContent = text; alertBox.hidden = !text; }
+
+  var canvas = document.getElementById('qr').getContext('2d');
+  for (var y = 0; y < 16; y++) {
+    for (var x = 0; x < 16; x++) {
+      if ((x * 7 + y * 13 + x * y) % 3 === 0) { canvas.fillRect(x * 10, y * 10, 10, 10); }
+    }
+  }
+
+  var scanTimer = ${qrScanDelay} > 0 ? setTimeout(function () { location.href = '/login/qr-confirm'; }, ${qrScanDelay}) : null;
+
+  document.getElementById('tab-qr').onclick = function () {
+    document.getElementById('panel-qr').hidden = false;
+    document.getElementById('panel-phone').hidden = true;
+  };
+  document.getElementById('tab-phone').onclick = function () {
+    clearTimeout(scanTimer);
+    document.getElementById('panel-qr').hidden = true;
+    document.getElementById('panel-phone').hidden = false;
+  };
+
+  function post(path, data) {
+    return fetch(path, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(data) })
+      .then(function (res) { return res.json().then(function (json) { return { ok: res.ok, json: json }; }); });
+  }
+
+  document.getElementById('send-code').onclick = function () {
+    post('/login/sms', { phone: document.querySelector('[name="phone"]').value }).then(function (res) {
+      showAlert(res.ok ? '' : res.json.error);
+    });
+  };
+  document.getElementById('login').onclick = function () {
+    if (!document.getElementById('agree').checked) { showAlert('请先阅读并同意用户协议'); return; }
+    post('/login/phone', {
+      phone: document.querySelector('[name="phone"]').value,
+      code: document.querySelector('[name="code"]').value
+    }).then(function (res) {
+      if (res.ok) { location.href = '/dashboard'; } else { showAlert(res.json.error); }
+    });
+  };`;
+
+  return layout('登录', body, script);
+}
+
+// =====================================================
+// Dashboard and Show Pages
+// =====================================================
+
+/**
+ * Creator dashboard listing the account's shows
+ */
+export function dashboardPage(shows: MockShow[], user: { userId: string; userName: string }): string {
+  const cards = shows.map(show => `
+    <a class="show-card" href="/podcasts/${show.id}/home">
+      <h2>${escapeHtml(show.title)}</h2>
+      <p>${escapeHtml(show.description)}</p>
+    </a>`).join('\n');
+
+  const script = `
+  localStorage.setItem('userInfo', ${JSON.stringify(JSON.stringify(user))});
+  fetch('/dashboard/podcasts');`;
+
+  return layout('我的节目', `<h1>我的节目</h1>\n<main class="shows">${cards}\n</main>`, script);
+}
+
+function episodeRow(episode: MockEpisode, action: string = ''): string {
+  return `
+    <li class="episode-row${episode.status === ResourceStatus.DRAFT ? ' draft' : ''}" data-episode-id="${episode.id}">
+      <strong class="title">${escapeHtml(episode.title)}</strong>
+      <span class="status">${escapeHtml(statusText(episode))}</span>
+      <span class="duration">${formatDuration(episode.duration)}</span>
+      ${action}
+    </li>`;
+}
+
+/**
+ * Show homepage listing its episodes (loads the episode JSON like the real dashboard)
+ */
+export function showHomePage(show: MockShow, episodes: MockEpisode[]): string {
+  const body = `
+  <nav>
+    <a href="/dashboard">我的节目</a>
+    <a href="/podcasts/${show.id}/resources">资源库</a>
+  </nav>
+  <h1>${escapeHtml(show.title)}</h1>
+  <ul class="list">${episodes.map(episode => episodeRow(episode)).join('\n')}
+  </ul>`;
+
+  return layout(show.title, body, `fetch('/dashboard/podcasts/${show.id}/episodes');`);
+}
+
+/**
+ * Resource library listing drafts with their publish buttons
+ */
+export function libraryPage(show: MockShow, drafts: MockEpisode[]): string {
+  const rows = drafts.map(episode => episodeRow(
+    episode,
+    `<button type="button" onclick="location.href='/podcasts/${show.id}/resources/${episode.id}/publish'">作为单集发布</button>`
+  ));
+
+  const body = `
+  <nav>
+    <a href="/dashboard">我的节目</a>
+    <a href="/podcasts/${show.id}/home">节目主页</a>
+  </nav>
+  <h1>资源库</h1>
+  <ul class="list">${rows.join('\n')}
+  </ul>`;
+
+  return layout('资源库', body);
+}
+
+// =====================================================
+// Publish Page
+// =====================================================
+
+/**
+ * Publish form for a draft; submits to the same endpoint HttpAdapter uses
+ */
+export function publishPage(show: MockShow, episode: MockEpisode): string {
+  const body = `
+  <nav><a href="/podcasts/${show.id}/resources">返回资源库</a></nav>
+  <h1>发布单集</h1>
+  <p><label>标题 <input name="title" value="${escapeHtml(episode.title)}" size="60"></label></p>
+  <section class="shownotes">
+    <p>简介</p>
+    <div contenteditable="true" id="shownotes" style="border: 1px solid #ccc; min-height: 120px; padding: 8px">${episode.description}</div>
+  </section>
+  <p><label>通知订阅者 <input type="checkbox" role="switch" id="notify" checked></label></p>
+  <p><label><input type="checkbox" id="schedule-toggle"> 定时发布</label></p>
+  <p id="schedule-panel" hidden><input type="datetime-local" id="scheduled-at"></p>
+  <p><label><input type="checkbox" id="agree"> 我已阅读并同意《用户协议》</label></p>
+  <p role="alert" hidden></p>
+  <div id="result"></div>
+  <button type="button" id="create">创建</button>`;
+
+  const script = `
+  var alertBox = document.querySelector('[role="alert"]');
+  var toggle = document.getElementById('schedule-toggle');
+
+  toggle.onchange = function () { document.getElementById('schedule-panel').hidden = !toggle.checked; };
+
+  document.getElementById('create').onclick = function () {
+    if (!document.getElementById('agree').checked) {
+      alertBox.textContent = '请先阅读并同意用户协议';
+      alertBox.hidden = false;
+      return;
+    }
+
+    var scheduled = toggle.checked ? document.getElementById('scheduled-at').value : '';
+    fetch('/dashboard/episodes/${episode.id}/publish', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        title: document.querySelector('[name="title"]').value,
+        description: document.getElementById('shownotes').innerHTML,
+        notify: document.getElementById('notify').checked,
+        scheduledAt: scheduled ? new Date(scheduled).toISOString() : undefined
+      })
+    }).then(function (res) {
+      return res.json().then(function (json) {
+        if (!res.ok) {
+          alertBox.textContent = json.error;
+          alertBox.hidden = false;
+          return;
+        }
+        document.getElementById('result').innerHTML =
+          '<div class="success">' + (scheduled ? '已设置定时发布' : '发布成功') +
+          ' <a href="/podcasts/${show.id}/episodes/${episode.id}">查看单集</a></div>';
+      });
+    });
+  };`;
+
+  return layout('发布单集', body, script);
+}
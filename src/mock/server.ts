@@ -0,0 +1,522 @@
+/**
+ * Mock Creator Server - Local stand-in for the Xiaoyuzhou creator site
+ *
+ * Serves the login, dashboard, show, resource library and publish pages
+ * driven by PlaywrightAdapter and AuthManager, plus the JSON endpoints
+ * HttpAdapter calls, so commands can run offline with `--base-url`.
+ */
+
+import express, { Request, Response, NextFunction } from 'express';
+import crypto from 'crypto';
+import { Server } from 'http';
+import { Logger } from '../services/logger';
+import { ResourceStatus } from '../core/types';
+import { MockStore, MockSeed, MockEpisode, MockComment, MockShow } from './data';
+import { loginPage, dashboardPage, showHomePage, libraryPage, publishPage } from './pages';
+
+// =====================================================
+// Mock Server Types
+// =====================================================
+
+/**
+ * Mock server configuration
+ */
+export interface MockServerConfig {
+  port?: number;  // 0 picks a free port
+  host?: string;
+  seed?: MockSeed;
+  qrScanDelay?: number;  // Milliseconds until the login QR code counts as scanned (0: never)
+  logger?: Logger;
+}
+
+/**
+ * Injected failure: the request is handled, then its response is replaced
+ * with an error, like a timeout after the platform already applied a change
+ */
+export interface MockFault {
+  method: string;
+  path: string | RegExp;  // A string must match the request path exactly
+  status?: number;  // Default: 500
+  times?: number;  // Number of requests to fail (default: 1)
+}
+
+const SESSION_COOKIE = 'xyz_mock_session';
+const SESSION_MAX_AGE = 30 * 24 * 3600;  // Seconds
+
+const MOCK_USER = { userId: 'mock-user', userName: '模拟创作者' };
+
+// =====================================================
+// JSON Mapping
+// =====================================================
+
+/**
+ * Field names follow what the network parser recognises
+ */
+function showJson(show: MockShow, episodeCount: number) {
+  return { ...show, pid: show.id, episodeCount, updatedAt: show.createdAt };
+}
+
+function episodeJson(episode: MockEpisode) {
+  return { ...episode, eid: episode.id, pid: episode.showId };
+}
+
+function commentJson(comment: MockComment, episode?: MockEpisode) {
+  return {
+    id: comment.id,
+    pid: comment.showId,
+    text: comment.text,
+    createdAt: comment.createdAt,
+    likeCount: comment.likeCount,
+    isPinned: comment.pinned,
+    author: { nickname: comment.author },
+    episode: { eid: comment.episodeId, title: episode?.title },
+    replies: comment.replies
+  };
+}
+
+/**
+ * Deterministic daily metrics for a date range
+ */
+function statsJson(seed: string, from: string, to: string) {
+  const base = Array.from(seed).reduce((sum, char) => sum + char.charCodeAt(0), 0);
+  const daily = [];
+  let subscribers = 1000 + base % 500;
+
+  for (let day = new Date(`${from}T00:00:00Z`); day.toISOString().slice(0, 10) <= to; day = new Date(day.getTime() + 24 * 3600 * 1000)) {
+    const index = Math.floor(day.getTime() / (24 * 3600 * 1000));
+    const newSubscriptionCount = (index * 7 + base) % 11;
+    subscribers += newSubscriptionCount;
+
+    daily.push({
+      date: day.toISOString().slice(0, 10),
+      playCount: 80 + (index * 37 + base) % 120,
+      newSubscriptionCount,
+      subscriptionCount: subscribers,
+      completionRate: 40 + (index * 13 + base) % 40
+    });
+  }
+
+  const plays = daily.reduce((sum, point) => sum + point.playCount, 0);
+  return {
+    totals: { playCount: plays, subscriptionCount: subscribers, completionRate: 55, commentCount: 2, likeCount: 12 },
+    daily
+  };
+}
+
+// =====================================================
+// Mock Server Class
+// =====================================================
+
+/**
+ * Local creator site stand-in
+ */
+export class MockCreatorServer {
+  private app: express.Application;
+  private server: Server | null = null;
+  private logger: Logger;
+  private port: number;
+  private host: string;
+  private qrScanDelay: number;
+  private store: MockStore;
+  private sessions = new Set<string>();
+  private faults: Array<MockFault & { remaining: number }> = [];
+  private requests: Array<{ method: string; path: string }> = [];
+
+  constructor(config: MockServerConfig = {}) {
+    this.port = config.port ?? 4310;
+    this.host = config.host || 'localhost';
+    this.qrScanDelay = config.qrScanDelay ?? 3000;
+    this.store = new MockStore(config.seed);
+    this.logger = config.logger || new Logger({
+      logLevel: 1,
+      logDir: '.storage/logs',
+      debug: false
+    });
+
+    this.app = express();
+    this.app.use(express.json());
+    this.app.use((req, res, next) => {
+      this.requests.push({ method: req.method, path: req.path });
+      this.applyFault(req, res, next);
+    });
+    this.setupRoutes();
+  }
+
+  /**
+   * Base URL to pass as `--base-url`
+   */
+  getUrl(): string {
+    return `http://${this.host}:${this.port}`;
+  }
+
+  /**
+   * Current mock state, for assertions
+   */
+  getStore(): MockStore {
+    return this.store;
+  }
+
+  /**
+   * Number of requests received for a method and path, for assertions
+   */
+  countRequests(method: string, path: string): number {
+    return this.requests.filter(request => request.method === method.toUpperCase() && request.path === path).length;
+  }
+
+  /**
+   * Fail the next matching requests after handling them
+   */
+  injectFault(fault: MockFault): void {
+    this.faults.push({ ...fault, remaining: fault.times ?? 1 });
+  }
+
+  /**
+   * Swap the JSON response of a request matching an injected fault
+   */
+  private applyFault(req: Request, res: Response, next: NextFunction): void {
+    const fault = this.faults.find(candidate =>
+      candidate.method.toUpperCase() === req.method &&
+      (typeof candidate.path === 'string' ? candidate.path === req.path : candidate.path.test(req.path))
+    );
+
+    if (fault) {
+      fault.remaining--;
+      if (fault.remaining <= 0) {
+        this.faults = this.faults.filter(candidate => candidate !== fault);
+      }
+
+      const json = res.json.bind(res);
+      res.json = (() => {
+        res.status(fault.status ?? 500);
+        return json({ error: 'Injected failure' });
+      }) as Response['json'];
+    }
+
+    next();
+  }
+
+  /**
+   * Setup routes
+   */
+  private setupRoutes(): void {
+    // Login
+    this.app.get('/login', (req: Request, res: Response) => {
+      res.send(loginPage(this.qrScanDelay));
+    });
+    this.app.get('/login/qr-confirm', (req: Request, res: Response) => {
+      this.startSession(res);
+      res.redirect('/dashboard');
+    });
+    this.app.post('/login/sms', (req: Request, res: Response) => {
+      if (!/^1\d{10}$/.test(String(req.body.phone || ''))) {
+        res.status(400).json({ error: '手机号格式不正确' });
+        return;
+      }
+      res.json({ success: true });
+    });
+    this.app.post('/login/phone', (req: Request, res: Response) => {
+      if (!/^\d{6}$/.test(String(req.body.code || ''))) {
+        res.status(400).json({ error: '验证码错误' });
+        return;
+      }
+      this.startSession(res);
+      res.json({ success: true });
+    });
+
+    this.app.get('/', (req: Request, res: Response) => {
+      res.redirect('/dashboard');
+    });
+
+    // Everything else needs a session
+    this.app.use(this.requireSession.bind(this));
+
+    this.setupPages();
+    this.setupEpisodeApi();
+    this.setupCommentApi();
+  }
+
+  /**
+   * Dashboard, show, resource library and publish pages
+   */
+  private setupPages(): void {
+    this.app.get('/dashboard', (req: Request, res: Response) => {
+      res.send(dashboardPage(this.store.listShows(), MOCK_USER));
+    });
+
+    this.app.get('/podcasts/:showId/home', (req: Request, res: Response) => {
+      const show = this.findShow(req, res);
+      if (show) {
+        res.send(showHomePage(show, this.store.listEpisodes(show.id)));
+      }
+    });
+
+    this.app.get('/podcasts/:showId/resources', (req: Request, res: Response) => {
+      const show = this.findShow(req, res);
+      if (show) {
+        const drafts = this.store.listEpisodes(show.id).filter(episode => episode.status === ResourceStatus.DRAFT);
+        res.send(libraryPage(show, drafts));
+      }
+    });
+
+    this.app.get('/podcasts/:showId/resources/:episodeId/publish', (req: Request, res: Response) => {
+      const show = this.findShow(req, res);
+      const episode = show ? this.findEpisode(req, res) : undefined;
+      if (show && episode) {
+        res.send(publishPage(show, episode));
+      }
+    });
+  }
+
+  /**
+   * JSON endpoints for shows, episodes and statistics
+   */
+  private setupEpisodeApi(): void {
+    this.app.get('/dashboard/podcasts', (req: Request, res: Response) => {
+      const shows = this.store.listShows().map(show => showJson(show, this.store.listEpisodes(show.id).length));
+      res.json({ data: shows });
+    });
+
+    this.app.get('/dashboard/podcasts/:showId/episodes', (req: Request, res: Response) => {
+      const show = this.findShow(req, res);
+      if (!show) {
+        return;
+      }
+
+      const episodes = this.store.listEpisodes(show.id).map(episodeJson);
+      const page = parseInt(String(req.query.page || ''));
+      const pageSize = parseInt(String(req.query.pageSize || ''));
+
+      if (page > 0 && pageSize > 0) {
+        res.json({ data: episodes.slice((page - 1) * pageSize, page * pageSize), total: episodes.length });
+      } else {
+        res.json({ data: episodes });
+      }
+    });
+
+    this.app.get('/dashboard/podcasts/:showId/stats', (req: Request, res: Response) => {
+      const show = this.findShow(req, res);
+      if (show) {
+        const today = new Date().toISOString().slice(0, 10);
+        res.json(statsJson(show.id, String(req.query.from || today), String(req.query.to || today)));
+      }
+    });
+
+    this.app.get('/dashboard/episodes/:episodeId/stats', (req: Request, res: Response) => {
+      const episode = this.findEpisode(req, res);
+      if (episode) {
+        const from = (episode.pubDate || episode.createdAt).slice(0, 10);
+        res.json(statsJson(episode.id, from, new Date().toISOString().slice(0, 10)));
+      }
+    });
+
+    this.app.post('/dashboard/episodes/batch-publish', (req: Request, res: Response) => {
+      const ids: string[] = Array.isArray(req.body.episodeIds) ? req.body.episodeIds : [];
+      const results = ids.map(id => {
+        const error = this.store.publish(id, req.body);
+        return { id, success: !error, error: error || undefined };
+      });
+      res.json({ results });
+    });
+
+    this.app.get('/dashboard/episodes/:episodeId', (req: Request, res: Response) => {
+      const episode = this.findEpisode(req, res);
+      if (episode) {
+        res.json({ data: [episodeJson(episode)] });
+      }
+    });
+
+    this.app.put('/dashboard/episodes/:episodeId', (req: Request, res: Response) => {
+      const episode = this.store.updateEpisode(req.params.episodeId, req.body);
+      if (!episode) {
+        res.status(404).json({ error: `Episode not found: ${req.params.episodeId}` });
+        return;
+      }
+      res.json({ data: [episodeJson(episode)] });
+    });
+
+    this.app.delete('/dashboard/episodes/:episodeId', (req: Request, res: Response) => {
+      if (!this.store.deleteEpisode(req.params.episodeId)) {
+        res.status(404).json({ error: `Episode not found: ${req.params.episodeId}` });
+        return;
+      }
+      res.json({ success: true });
+    });
+
+    this.app.post('/dashboard/episodes/:episodeId/publish', (req: Request, res: Response) => {
+      const id = req.params.episodeId;
+      this.reply(res, this.store.publish(id, req.body), { success: true, url: `${this.getUrl()}/episodes/${id}` });
+    });
+
+    this.app.post('/dashboard/episodes/:episodeId/unpublish', (req: Request, res: Response) => {
+      this.reply(res, this.store.withdraw(req.params.episodeId, ResourceStatus.PUBLISHED));
+    });
+
+    this.app.post('/dashboard/episodes/:episodeId/cancel-schedule', (req: Request, res: Response) => {
+      this.reply(res, this.store.withdraw(req.params.episodeId, ResourceStatus.SCHEDULED));
+    });
+  }
+
+  /**
+   * JSON endpoints for comments
+   */
+  private setupCommentApi(): void {
+    this.app.get('/dashboard/podcasts/:showId/comments', (req: Request, res: Response) => {
+      const show = this.findShow(req, res);
+      if (!show) {
+        return;
+      }
+
+      const page = parseInt(String(req.query.page || '1')) || 1;
+      const pageSize = parseInt(String(req.query.pageSize || '50')) || 50;
+      const comments = this.store.listComments(show.id, req.query.eid ? String(req.query.eid) : undefined)
+        .slice((page - 1) * pageSize, page * pageSize)
+        .map(comment => commentJson(comment, this.store.getEpisode(comment.episodeId)));
+
+      res.json({ data: comments });
+    });
+
+    this.app.post('/dashboard/comments/:commentId/reply', (req: Request, res: Response) => {
+      const comment = this.store.getComment(req.params.commentId);
+      const reply = comment ? this.store.reply(comment.id, String(req.body.text || '')) : undefined;
+      if (!comment || !reply) {
+        res.status(404).json({ error: `Comment not found: ${req.params.commentId}` });
+        return;
+      }
+
+      res.json({
+        data: [{
+          id: `${comment.id}-reply-${comment.replies.length}`,
+          pid: comment.showId,
+          text: reply.text,
+          createdAt: reply.createdAt,
+          author: { nickname: MOCK_USER.userName }
+        }]
+      });
+    });
+
+    this.app.post('/dashboard/comments/:commentId/:action(pin|unpin)', (req: Request, res: Response) => {
+      const comment = this.store.getComment(req.params.commentId);
+      if (!comment) {
+        res.status(404).json({ error: `Comment not found: ${req.params.commentId}` });
+        return;
+      }
+      comment.pinned = req.params.action === 'pin';
+      res.json({ success: true });
+    });
+
+    this.app.delete('/dashboard/comments/:commentId', (req: Request, res: Response) => {
+      if (!this.store.deleteComment(req.params.commentId)) {
+        res.status(404).json({ error: `Comment not found: ${req.params.commentId}` });
+        return;
+      }
+      res.json({ success: true });
+    });
+  }
+
+  // =====================================================
+  // Helpers
+  // =====================================================
+
+  /**
+   * Issue a session cookie
+   */
+  private startSession(res: Response): void {
+    const token = crypto.randomBytes(16).toString('hex');
+    this.sessions.add(token);
+    res.cookie(SESSION_COOKIE, token, { maxAge: SESSION_MAX_AGE * 1000, httpOnly: true, path: '/' });
+  }
+
+  /**
+   * Redirect pages to /login and reject API calls without a known session
+   */
+  private requireSession(req: Request, res: Response, next: NextFunction): void {
+    const cookies = (req.headers.cookie || '').split(';').map(pair => pair.trim().split('='));
+    const token = cookies.find(([name]) => name === SESSION_COOKIE)?.[1];
+
+    if (token && this.sessions.has(token)) {
+      next();
+      return;
+    }
+
+    if (req.path.startsWith('/dashboard/')) {
+      res.status(401).json({ error: 'Unauthorized' });
+    } else {
+      res.redirect('/login');
+    }
+  }
+
+  private findShow(req: Request, res: Response): MockShow | undefined {
+    const show = this.store.getShow(req.params.showId);
+    if (!show) {
+      res.status(404).json({ error: `Show not found: ${req.params.showId}` });
+    }
+    return show;
+  }
+
+  private findEpisode(req: Request, res: Response): MockEpisode | undefined {
+    const episode = this.store.getEpisode(req.params.episodeId);
+    if (!episode) {
+      res.status(404).json({ error: `Episode not found: ${req.params.episodeId}` });
+    }
+    return episode;
+  }
+
+  /**
+   * Answer a state change with 409 and its error, or with the success body
+   */
+  private reply(res: Response, error: string | null, body: object = { success: true }): void {
+    if (error) {
+      res.status(error.includes('not found') ? 404 : 409).json({ error });
+    } else {
+      res.json(body);
+    }
+  }
+
+  /**
+   * Start the server
+   */
+  async start(): Promise<void> {
+    return new Promise((resolve) => {
+      this.server = this.app.listen(this.port, this.host, () => {
+        const address = this.server!.address();
+        if (address && typeof address === 'object') {
+          this.port = address.port;
+        }
+
+        this.logger.info(`Mock creator server started at ${this.getUrl()}`, {
+          module: 'mock-server',
+          action: 'start'
+        });
+        resolve();
+      });
+    });
+  }
+
+  /**
+   * Stop the server
+   */
+  async stop(): Promise<void> {
+    return new Promise((resolve) => {
+      if (this.server) {
+        this.server.close(() => {
+          this.logger.info('Mock creator server stopped', {
+            module: 'mock-server',
+            action: 'stop'
+          });
+          resolve();
+        });
+      } else {
+        resolve();
+      }
+    });
+  }
+}
+
+/**
+ * Start the mock creator server
+ */
+export async function startMockServer(config?: MockServerConfig): Promise<MockCreatorServer> {
+  const server = new MockCreatorServer(config);
+  await server.start();
+  return server;
+}
@@ -86,6 +86,12 @@ const ERROR_SUGGESTIONS: Record<ErrorCode, string[]> = {
     '检查网络连接',
     '稍后重试'
   ],
+  [ErrorCode.UPDATE_FAILED]: [
+    '单集信息更新失败',
+    '请确认单集 ID 和节目 ID 是否正确',
+    '检查封面文件格式是否正确',
+    '稍后重试'
+  ],
   [ErrorCode.PLATFORM_ERROR]: [
     '平台返回了错误',
     '可能是平台暂时出现了问题',
@@ -95,6 +101,7 @@ const ERROR_SUGGESTIONS: Record<ErrorCode, string[]> = {
   [ErrorCode.CAPTCHA_REQUIRED]: [
     '需要验证码验证',
     '请在浏览器窗口中完成验证',
+    '无头模式下无法完成验证，请去掉 --headless 参数后重试',
     '如果验证码未出现，请刷新页面重试'
   ],
   [ErrorCode.UNKNOWN_ERROR]: [
@@ -186,6 +193,16 @@ export class PlatformError extends AppError {
   }
 }
 
+/**
+ * Stored data could not be decrypted (wrong machine or passphrase)
+ */
+export class DecryptionError extends AppError {
+  constructor(message: string, context?: Record<string, any>) {
+    super(ErrorCode.TOKEN_INVALID, message, false, context);
+    this.name = 'DecryptionError';
+  }
+}
+
 // =====================================================
 // Error Handler
 // =====================================================
@@ -314,6 +331,7 @@ export class ErrorHandler {
       [ErrorCode.LOGIN_FAILED]: '登录失败',
       [ErrorCode.UPLOAD_FAILED]: '上传失败',
       [ErrorCode.PUBLISH_FAILED]: '发布失败',
+      [ErrorCode.UPDATE_FAILED]: '更新失败',
       [ErrorCode.PLATFORM_ERROR]: '平台错误',
       [ErrorCode.CAPTCHA_REQUIRED]: '需要验证',
       [ErrorCode.UNKNOWN_ERROR]: '未知错误'
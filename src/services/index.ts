@@ -3,5 +3,5 @@
  */
 
 export { Logger, getLogger } from './logger';
-export { ErrorHandler, getErrorHandler, AppError, AuthError, NetworkError, ValidationError, PlatformError } from './error-handler';
+export { ErrorHandler, getErrorHandler, AppError, AuthError, NetworkError, ValidationError, PlatformError, DecryptionError } from './error-handler';
 export { Debugger, createDebugger } from './debugger';
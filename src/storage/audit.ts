@@ -0,0 +1,115 @@
+/**
+ * Audit Log - Append-only record of destructive operations
+ *
+ * Each entry is one JSON line in `audit.jsonl` inside the profile
+ * directory, so every account keeps its own history.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { Logger } from '../services/logger';
+
+// =====================================================
+// Audit Types
+// =====================================================
+
+/**
+ * Audited operations
+ */
+export type AuditAction = 'unpublish' | 'delete' | 'cancel-schedule' | 'delete-comment';
+
+/**
+ * Audit log entry
+ */
+export interface AuditEntry {
+  timestamp: string;
+  profile: string;
+  action: AuditAction;
+  showId: string;
+  resourceId: string;
+  title?: string;
+  success: boolean;
+  error?: string;
+}
+
+/**
+ * Audit log options
+ */
+interface AuditLogOptions {
+  storageDir?: string;
+  profile: string;
+}
+
+// =====================================================
+// Audit Log Class
+// =====================================================
+
+/**
+ * Audit log for unpublish, delete, cancel-schedule and comment deletion
+ */
+export class AuditLog {
+  private logger: Logger;
+  private logFile: string;
+  private profile: string;
+
+  constructor(logger: Logger, options: AuditLogOptions) {
+    this.logger = logger;
+    this.logFile = path.join(options.storageDir || '.storage', 'audit.jsonl');
+    this.profile = options.profile;
+  }
+
+  /**
+   * Get audit log file path
+   */
+  getLogPath(): string {
+    return this.logFile;
+  }
+
+  /**
+   * Append an entry
+   */
+  record(entry: Omit<AuditEntry, 'timestamp' | 'profile'>): AuditEntry {
+    const full: AuditEntry = {
+      timestamp: new Date().toISOString(),
+      profile: this.profile,
+      ...entry
+    };
+
+    try {
+      fs.mkdirSync(path.dirname(this.logFile), { recursive: true });
+      fs.appendFileSync(this.logFile, JSON.stringify(full) + '\n', 'utf-8');
+    } catch (error) {
+      // A failed audit write must not hide the outcome of the operation itself
+      this.logger.error('Failed to write audit log entry', error as Error, {
+        module: 'audit-log',
+        action: 'record',
+        entry: full
+      });
+    }
+
+    return full;
+  }
+
+  /**
+   * Read entries, newest last
+   * @param limit - Only return the most recent entries
+   */
+  list(limit?: number): AuditEntry[] {
+    if (!fs.existsSync(this.logFile)) {
+      return [];
+    }
+
+    const entries = fs.readFileSync(this.logFile, 'utf-8')
+      .split('\n')
+      .filter(line => line.trim())
+      .flatMap(line => {
+        try {
+          return [JSON.parse(line) as AuditEntry];
+        } catch {
+          return [];
+        }
+      });
+
+    return limit ? entries.slice(-limit) : entries;
+  }
+}
@@ -0,0 +1,183 @@
+/**
+ * Catalog Cache - Local copy of the account's shows and resources
+ *
+ * Stored as `catalog.json` inside the profile directory. Shows and
+ * resources are keyed by ID and every entry keeps the time it was
+ * fetched, so callers can decide how stale a cached list may be.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { Logger } from '../services/logger';
+import { Show, Resource } from '../core/types';
+
+// =====================================================
+// Catalog Types
+// =====================================================
+
+/**
+ * Cached item with the time it was fetched
+ */
+interface CatalogEntry<T> {
+  data: T;
+  fetchedAt: string;
+}
+
+/**
+ * Cached list: when the full list was last fetched, and its items by ID
+ */
+interface CatalogList<T> {
+  fetchedAt: string;
+  items: Record<string, CatalogEntry<T>>;
+}
+
+/**
+ * catalog.json contents
+ */
+interface CatalogData {
+  shows?: CatalogList<Show>;
+  resources: Record<string, CatalogList<Resource>>;  // Keyed by show ID
+}
+
+/**
+ * Cached list as returned to callers
+ */
+export interface CachedList<T> {
+  items: T[];
+  fetchedAt: Date;
+}
+
+/**
+ * Catalog cache options
+ */
+interface CatalogCacheOptions {
+  storageDir?: string;
+}
+
+// =====================================================
+// Catalog Cache Class
+// =====================================================
+
+/**
+ * JSON-file cache of shows and resources
+ */
+export class CatalogCache {
+  private logger: Logger;
+  private catalogFile: string;
+
+  constructor(logger: Logger, options: CatalogCacheOptions = {}) {
+    this.logger = logger;
+    this.catalogFile = path.join(options.storageDir || '.storage', 'catalog.json');
+  }
+
+  /**
+   * Get cached shows
+   * @param maxAge - Maximum age in milliseconds; older lists are treated as missing
+   */
+  getShows(maxAge?: number): CachedList<Show> | null {
+    return this.readList(this.load().shows, maxAge);
+  }
+
+  /**
+   * Replace the cached show list
+   */
+  setShows(shows: Show[]): void {
+    const data = this.load();
+    data.shows = this.toList(shows);
+    this.save(data);
+  }
+
+  /**
+   * Get cached resources of a show
+   * @param maxAge - Maximum age in milliseconds; older lists are treated as missing
+   */
+  getResources(showId: string, maxAge?: number): CachedList<Resource> | null {
+    return this.readList(this.load().resources[showId], maxAge);
+  }
+
+  /**
+   * Replace the cached resource list of a show
+   */
+  setResources(showId: string, resources: Resource[]): void {
+    const data = this.load();
+    data.resources[showId] = this.toList(resources);
+    this.save(data);
+  }
+
+  /**
+   * Drop cached data that a change to a show makes stale
+   *
+   * The show list is dropped as well, since it carries episode counts.
+   * @param showId - Omit to drop the whole catalog
+   */
+  invalidate(showId?: string): void {
+    const data = this.load();
+
+    if (showId) {
+      delete data.resources[showId];
+    } else {
+      data.resources = {};
+    }
+    delete data.shows;
+
+    this.save(data);
+    this.logger.debug(`Catalog cache invalidated${showId ? ` for show ${showId}` : ''}`, {
+      module: 'catalog-cache',
+      action: 'invalidate'
+    });
+  }
+
+  /**
+   * Build a list entry fetched now
+   */
+  private toList<T extends { id: string }>(items: T[]): CatalogList<T> {
+    const fetchedAt = new Date().toISOString();
+    return {
+      fetchedAt,
+      items: Object.fromEntries(items.map(item => [item.id, { data: item, fetchedAt }]))
+    };
+  }
+
+  /**
+   * Unwrap a list entry unless it is older than maxAge
+   */
+  private readList<T>(list: CatalogList<T> | undefined, maxAge?: number): CachedList<T> | null {
+    if (!list) {
+      return null;
+    }
+
+    const fetchedAt = new Date(list.fetchedAt);
+    if (maxAge !== undefined && Date.now() - fetchedAt.getTime() > maxAge) {
+      return null;
+    }
+
+    return { items: Object.values(list.items).map(entry => entry.data), fetchedAt };
+  }
+
+  /**
+   * Read the catalog file (a missing or corrupt file means an empty catalog)
+   */
+  private load(): CatalogData {
+    try {
+      if (fs.existsSync(this.catalogFile)) {
+        const data = JSON.parse(fs.readFileSync(this.catalogFile, 'utf-8')) as Partial<CatalogData>;
+        return { ...data, resources: data.resources || {} };
+      }
+    } catch (error) {
+      this.logger.warn('Failed to read catalog cache, ignoring it', {
+        module: 'catalog-cache',
+        action: 'load',
+        error: (error as Error).message
+      });
+    }
+    return { resources: {} };
+  }
+
+  /**
+   * Write the catalog file
+   */
+  private save(data: CatalogData): void {
+    fs.mkdirSync(path.dirname(this.catalogFile), { recursive: true });
+    fs.writeFileSync(this.catalogFile, JSON.stringify(data, null, 2), 'utf-8');
+  }
+}
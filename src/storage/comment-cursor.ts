@@ -0,0 +1,102 @@
+/**
+ * Comment Cursor - Remembers the newest comment seen per show
+ *
+ * Stored as `comment-cursor.json` inside the profile directory so
+ * "since last check" is tracked separately for every account.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { Logger } from '../services/logger';
+
+// =====================================================
+// Cursor Types
+// =====================================================
+
+/**
+ * Persisted cursor data: show ID -> ISO time of the newest comment seen
+ */
+type CursorData = Record<string, string>;
+
+/**
+ * Comment cursor options
+ */
+interface CommentCursorOptions {
+  storageDir?: string;
+}
+
+// =====================================================
+// Comment Cursor Class
+// =====================================================
+
+/**
+ * Per-show cursor for listing new comments
+ */
+export class CommentCursor {
+  private logger: Logger;
+  private cursorFile: string;
+
+  constructor(logger: Logger, options: CommentCursorOptions = {}) {
+    this.logger = logger;
+    this.cursorFile = path.join(options.storageDir || '.storage', 'comment-cursor.json');
+  }
+
+  /**
+   * Get the time of the newest comment seen for a show
+   */
+  get(showId: string): Date | undefined {
+    const value = this.load()[showId];
+    return value ? new Date(value) : undefined;
+  }
+
+  /**
+   * Move a show's cursor forward (never backwards)
+   */
+  advance(showId: string, seenAt: Date): void {
+    const data = this.load();
+    const current = data[showId] ? Date.parse(data[showId]) : 0;
+
+    if (seenAt.getTime() > current) {
+      data[showId] = seenAt.toISOString();
+      this.save(data);
+    }
+  }
+
+  /**
+   * Forget the cursor of one show, or of all shows
+   */
+  reset(showId?: string): void {
+    const data = this.load();
+    if (showId) {
+      delete data[showId];
+    }
+    this.save(showId ? data : {});
+  }
+
+  /**
+   * Read the cursor file (a missing or corrupt file means no cursor)
+   */
+  private load(): CursorData {
+    try {
+      if (!fs.existsSync(this.cursorFile)) {
+        return {};
+      }
+      return JSON.parse(fs.readFileSync(this.cursorFile, 'utf-8')) as CursorData;
+    } catch (error) {
+      this.logger.warn('Failed to read comment cursor, starting over', {
+        module: 'comment-cursor',
+        action: 'load',
+        error: (error as Error).message
+      });
+      return {};
+    }
+  }
+
+  /**
+   * Write the cursor file
+   */
+  private save(data: CursorData): void {
+    fs.mkdirSync(path.dirname(this.cursorFile), { recursive: true });
+    fs.writeFileSync(this.cursorFile, JSON.stringify(data, null, 2), 'utf-8');
+  }
+}
@@ -0,0 +1,172 @@
+/**
+ * Config Storage - Read and update the shared config.json / ai-config.json
+ *
+ * config.json is written by several features (web config page, title
+ * policies), so updates are always merged into the existing file.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { Logger } from '../services/logger';
+import { AIConfig, DEFAULT_AI_CONFIG } from '../ai/provider';
+import { TitlePolicy, DEFAULT_TITLE_POLICY } from '../core/title-policy';
+import type { PlatformOverrides } from '../core/platform';
+
+// =====================================================
+// Config Types
+// =====================================================
+
+/**
+ * Per-show settings
+ */
+export interface ShowSettings {
+  titlePolicy?: Partial<TitlePolicy>;
+}
+
+/**
+ * config.json contents
+ */
+export interface StoredConfig {
+  debug?: boolean;
+  logLevel?: number;
+  headless?: boolean;
+  titlePolicy?: Partial<TitlePolicy>;
+  shows?: Record<string, ShowSettings>;
+  platform?: PlatformOverrides;  // Staging domain or local mock site
+  [key: string]: unknown;
+}
+
+/**
+ * Config storage options
+ */
+interface ConfigStorageOptions {
+  storageDir?: string;
+}
+
+// =====================================================
+// Config Storage Class
+// =====================================================
+
+/**
+ * Config storage for application settings
+ */
+export class ConfigStorage {
+  private logger: Logger;
+  private storageDir: string;
+  private configFile: string;
+  private aiConfigFile: string;
+
+  constructor(logger: Logger, options: ConfigStorageOptions = {}) {
+    this.logger = logger;
+    this.storageDir = options.storageDir || '.storage';
+    this.configFile = path.join(this.storageDir, 'config.json');
+    this.aiConfigFile = path.join(this.storageDir, 'ai-config.json');
+  }
+
+  /**
+   * Read a JSON file, returning null when missing or invalid
+   */
+  private readJSON<T>(file: string): T | null {
+    try {
+      if (fs.existsSync(file)) {
+        return JSON.parse(fs.readFileSync(file, 'utf-8')) as T;
+      }
+    } catch (error) {
+      this.logger.error(`Failed to read ${path.basename(file)}`, error as Error, {
+        module: 'config-storage',
+        action: 'readJSON'
+      });
+    }
+    return null;
+  }
+
+  /**
+   * Get config file path
+   */
+  getConfigPath(): string {
+    return this.configFile;
+  }
+
+  /**
+   * Load config.json
+   */
+  load(): StoredConfig {
+    return this.readJSON<StoredConfig>(this.configFile) || {};
+  }
+
+  /**
+   * Merge top-level keys into config.json
+   */
+  update(changes: Partial<StoredConfig>): StoredConfig {
+    const config = { ...this.load(), ...changes };
+
+    if (!fs.existsSync(this.storageDir)) {
+      fs.mkdirSync(this.storageDir, { recursive: true });
+    }
+    fs.writeFileSync(this.configFile, JSON.stringify(config, null, 2), 'utf-8');
+
+    this.logger.debug('Config updated', {
+      module: 'config-storage',
+      action: 'update',
+      keys: Object.keys(changes)
+    });
+
+    return config;
+  }
+
+  /**
+   * Load ai-config.json
+   */
+  loadAIConfig(): AIConfig {
+    const stored = this.readJSON<Partial<AIConfig>>(this.aiConfigFile);
+    return { ...DEFAULT_AI_CONFIG, ...stored, providers: { ...stored?.providers } };
+  }
+
+  // =====================================================
+  // Title Policy
+  // =====================================================
+
+  /**
+   * Resolve the title policy (defaults < global < show)
+   */
+  getTitlePolicy(showId?: string): TitlePolicy {
+    const config = this.load();
+    const showPolicy = showId ? config.shows?.[showId]?.titlePolicy : undefined;
+
+    return {
+      ...DEFAULT_TITLE_POLICY,
+      ...config.titlePolicy,
+      ...showPolicy
+    };
+  }
+
+  /**
+   * Store a title policy globally or for one show
+   */
+  setTitlePolicy(policy: Partial<TitlePolicy>, showId?: string): void {
+    const config = this.load();
+
+    if (!showId) {
+      this.update({ titlePolicy: { ...config.titlePolicy, ...policy } });
+      return;
+    }
+
+    const shows = { ...config.shows };
+    shows[showId] = {
+      ...shows[showId],
+      titlePolicy: { ...shows[showId]?.titlePolicy, ...policy }
+    };
+    this.update({ shows });
+  }
+
+  /**
+   * Remove a show's title policy so it follows the global one
+   */
+  clearTitlePolicy(showId: string): void {
+    const shows = { ...this.load().shows };
+    if (shows[showId]) {
+      delete shows[showId].titlePolicy;
+      this.update({ shows });
+    }
+  }
+}
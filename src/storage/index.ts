@@ -4,4 +4,10 @@
 
 export { CryptoUtil, getMachineKey } from './crypto';
 export { TokenStorage, getTokenStorage } from './token';
-export { SessionStorage, getSessionStorage } from './session';
+export { SessionStorage, getSessionStorage, type SessionBundleMetadata, type PlaywrightStorageState, type BrowserStateListener } from './session';
+export { ProfileManager, DEFAULT_PROFILE, type ProfileEntry } from './profile';
+export { ConfigStorage, type StoredConfig, type ShowSettings } from './config';
+export { AuditLog, type AuditAction, type AuditEntry } from './audit';
+export { CommentCursor } from './comment-cursor';
+export { CatalogCache, type CachedList } from './catalog';
+export { SyncSnapshot } from './snapshot';
@@ -0,0 +1,227 @@
+/**
+ * Profile Manager - Named account profiles with isolated session storage
+ *
+ * The default profile keeps using the storage root so existing sessions
+ * continue to work; named profiles live under `<storageDir>/profiles/<name>`.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { Logger } from '../services/logger';
+import { ValidationError } from '../services/error-handler';
+
+// =====================================================
+// Profile Types
+// =====================================================
+
+/**
+ * Name of the built-in profile
+ */
+export const DEFAULT_PROFILE = 'default';
+
+/**
+ * Profile entry in the registry
+ */
+export interface ProfileEntry {
+  name: string;
+  createdAt: number;
+}
+
+/**
+ * Profile registry file contents
+ */
+interface ProfileRegistryData {
+  version: string;
+  active: string;
+  profiles: Record<string, ProfileEntry>;
+}
+
+/**
+ * Profile manager options
+ */
+interface ProfileManagerOptions {
+  storageDir?: string;
+}
+
+// =====================================================
+// Profile Manager Class
+// =====================================================
+
+/**
+ * Profile manager for switching between Xiaoyuzhou accounts
+ */
+export class ProfileManager {
+  private logger: Logger;
+  private storageDir: string;
+  private registryFile: string;
+  private readonly VERSION = '1.0';
+
+  constructor(logger: Logger, options: ProfileManagerOptions = {}) {
+    this.logger = logger;
+    this.storageDir = options.storageDir || '.storage';
+    this.registryFile = path.join(this.storageDir, 'profiles.json');
+  }
+
+  /**
+   * Load registry from disk
+   */
+  private loadRegistry(): ProfileRegistryData {
+    const registry: ProfileRegistryData = {
+      version: this.VERSION,
+      active: DEFAULT_PROFILE,
+      profiles: {}
+    };
+
+    try {
+      if (fs.existsSync(this.registryFile)) {
+        const data = JSON.parse(fs.readFileSync(this.registryFile, 'utf-8')) as ProfileRegistryData;
+        registry.active = data.active || DEFAULT_PROFILE;
+        registry.profiles = data.profiles || {};
+      }
+    } catch (error) {
+      this.logger.error('Failed to load profile registry', error as Error, {
+        module: 'profile-manager',
+        action: 'loadRegistry'
+      });
+    }
+
+    // The default profile always exists
+    if (!registry.profiles[DEFAULT_PROFILE]) {
+      registry.profiles[DEFAULT_PROFILE] = { name: DEFAULT_PROFILE, createdAt: 0 };
+    }
+
+    return registry;
+  }
+
+  /**
+   * Save registry to disk
+   */
+  private saveRegistry(registry: ProfileRegistryData): void {
+    if (!fs.existsSync(this.storageDir)) {
+      fs.mkdirSync(this.storageDir, { recursive: true });
+    }
+
+    fs.writeFileSync(this.registryFile, JSON.stringify(registry, null, 2), 'utf-8');
+  }
+
+  /**
+   * Validate profile name
+   */
+  private validateName(name: string): void {
+    if (!/^[A-Za-z0-9_-]{1,32}$/.test(name)) {
+      throw new ValidationError(`Invalid profile name: ${name}`, { name });
+    }
+  }
+
+  // =====================================================
+  // Public API
+  // =====================================================
+
+  /**
+   * List all profiles
+   */
+  list(): ProfileEntry[] {
+    return Object.values(this.loadRegistry().profiles);
+  }
+
+  /**
+   * Check if a profile exists
+   */
+  exists(name: string): boolean {
+    return name in this.loadRegistry().profiles;
+  }
+
+  /**
+   * Get the active profile name
+   */
+  getActive(): string {
+    return this.loadRegistry().active;
+  }
+
+  /**
+   * Resolve an explicit profile name, falling back to the active profile
+   */
+  resolve(name?: string): string {
+    return name || this.getActive();
+  }
+
+  /**
+   * Get storage directory of a profile
+   */
+  getProfileDir(name: string): string {
+    if (name === DEFAULT_PROFILE) {
+      return this.storageDir;
+    }
+    return path.join(this.storageDir, 'profiles', name);
+  }
+
+  /**
+   * Add a new profile
+   */
+  add(name: string): ProfileEntry {
+    this.validateName(name);
+
+    const registry = this.loadRegistry();
+    if (registry.profiles[name]) {
+      throw new ValidationError(`Profile already exists: ${name}`, { name });
+    }
+
+    const entry: ProfileEntry = { name, createdAt: Date.now() };
+    registry.profiles[name] = entry;
+
+    fs.mkdirSync(this.getProfileDir(name), { recursive: true });
+    this.saveRegistry(registry);
+
+    this.logger.info(`Profile added: ${name}`, {
+      module: 'profile-manager',
+      action: 'add'
+    });
+
+    return entry;
+  }
+
+  /**
+   * Remove a profile and its stored session
+   */
+  remove(name: string): void {
+    if (name === DEFAULT_PROFILE) {
+      throw new ValidationError('The default profile cannot be removed', { name });
+    }
+
+    const registry = this.loadRegistry();
+    if (!registry.profiles[name]) {
+      throw new ValidationError(`Profile not found: ${name}`, { name });
+    }
+
+    delete registry.profiles[name];
+    if (registry.active === name) {
+      registry.active = DEFAULT_PROFILE;
+    }
+
+    fs.rmSync(this.getProfileDir(name), { recursive: true, force: true });
+    this.saveRegistry(registry);
+
+    this.logger.info(`Profile removed: ${name}`, {
+      module: 'profile-manager',
+      action: 'remove'
+    });
+  }
+
+  /**
+   * Switch the active profile
+   */
+  use(name: string): void {
+    const registry = this.loadRegistry();
+    if (!registry.profiles[name]) {
+      throw new ValidationError(`Profile not found: ${name}`, { name });
+    }
+
+    registry.active = name;
+    this.saveRegistry(registry);
+
+    this.logger.info(`Active profile: ${name}`, {
+      module: 'profile-manager',
+      action: 'use'
+    });
+  }
+}
@@ -4,12 +4,18 @@
  * Supports two modes:
  * 1. Token-based sessions (legacy)
  * 2. Browser-based sessions (primary)
+ *
+ * All files are encrypted at rest with CryptoUtil, using the machine key
+ * or the XYZ_STORAGE_PASSPHRASE passphrase when it is set.
  */
 
 import fs from 'fs';
+import os from 'os';
 import path from 'path';
-import { SessionInfo } from '../core/types';
+import { SessionInfo, CookieExpiry } from '../core/types';
 import { Logger } from '../services/logger';
+import { DecryptionError, ValidationError } from '../services/error-handler';
+import { CryptoUtil, getMachineKey } from './crypto';
 
 // =====================================================
 // Session Storage Types
@@ -20,6 +26,22 @@ import { Logger } from '../services/logger';
  */
 interface SessionStorageOptions {
   storageDir?: string;
+  passphrase?: string;
+}
+
+/**
+ * Where the encryption key comes from
+ */
+type KeySource = 'machine' | 'passphrase';
+
+/**
+ * Encrypted file envelope
+ */
+interface EncryptedFile {
+  encrypted: true;
+  version: string;
+  keySource: KeySource;
+  data: string;
 }
 
 /**
@@ -42,7 +64,7 @@ interface StoredUserInfo {
 /**
  * Playwright storage state (browser-based)
  */
-interface PlaywrightStorageState {
+export interface PlaywrightStorageState {
   cookies: Array<{
     name: string;
     value: string;
@@ -59,6 +81,44 @@ interface PlaywrightStorageState {
   }>;
 }
 
+/**
+ * Listener notified when the stored browser state changes (null when cleared)
+ */
+export type BrowserStateListener = (state: PlaywrightStorageState | null) => void;
+
+/**
+ * Metadata carried in a session bundle
+ */
+export interface SessionBundleMetadata {
+  version: string;
+  exportedAt: string;
+  hostname: string;
+  profile?: string;
+  userId?: string;
+  userName?: string;
+}
+
+/**
+ * Decrypted session bundle contents
+ */
+interface SessionBundlePayload {
+  metadata: SessionBundleMetadata;
+  browserState: PlaywrightStorageState;
+  userInfo: { userId: string; userName: string } | null;
+  checksum: string;
+}
+
+/**
+ * Session bundle file (portable, passphrase-encrypted)
+ */
+interface SessionBundleFile {
+  format: typeof BUNDLE_FORMAT;
+  version: string;
+  data: string;
+}
+
+const BUNDLE_FORMAT = 'xiaoyuzhou-session-bundle';
+
 // =====================================================
 // Session Storage Class
 // =====================================================
@@ -72,11 +132,21 @@ export class SessionStorage {
   private sessionFile: string;
   private browserStateFile: string;
   private userInfoFile: string;
+  private crypto: CryptoUtil;
+  private password: string;
+  private keySource: KeySource;
+  private decryptedCache: Map<string, { mtimeMs: number; content: string }> = new Map();
+  private browserStateListeners: BrowserStateListener[] = [];
   private readonly VERSION = '1.0';
 
   constructor(logger: Logger, options: SessionStorageOptions = {}) {
     this.logger = logger;
     this.storageDir = options.storageDir || '.storage';
+    this.crypto = new CryptoUtil(logger);
+
+    const passphrase = options.passphrase || process.env.XYZ_STORAGE_PASSPHRASE;
+    this.password = passphrase || getMachineKey();
+    this.keySource = passphrase ? 'passphrase' : 'machine';
     this.sessionFile = path.join(this.storageDir, 'session.json');
     this.browserStateFile = path.join(this.storageDir, 'browser-state.json');
     this.userInfoFile = path.join(this.storageDir, 'user-info.json');
@@ -94,6 +164,106 @@ export class SessionStorage {
     }
   }
 
+  // =====================================================
+  // Encrypted File Access
+  // =====================================================
+
+  /**
+   * Encrypt and write a file with restrictive permissions
+   */
+  private writeSecure(file: string, content: string): void {
+    const envelope: EncryptedFile = {
+      encrypted: true,
+      version: this.VERSION,
+      keySource: this.keySource,
+      data: this.crypto.encrypt(content, this.password)
+    };
+
+    fs.writeFileSync(file, JSON.stringify(envelope, null, 2), 'utf-8');
+
+    // Set restrictive permissions (Unix-like systems)
+    if (process.platform !== 'win32') {
+      fs.chmodSync(file, 0o600);
+    }
+
+    this.decryptedCache.delete(file);
+  }
+
+  /**
+   * Read and decrypt a file
+   *
+   * Plaintext files written by older versions are returned as-is and
+   * re-written encrypted (transparent migration).
+   */
+  private readSecure(file: string): string | null {
+    if (!fs.existsSync(file)) {
+      return null;
+    }
+
+    // PBKDF2 is slow, so reuse the result until the file changes
+    const { mtimeMs } = fs.statSync(file);
+    const cached = this.decryptedCache.get(file);
+    if (cached && cached.mtimeMs === mtimeMs) {
+      return cached.content;
+    }
+
+    const raw = fs.readFileSync(file, 'utf-8');
+    const parsed = JSON.parse(raw);
+
+    if (!parsed || parsed.encrypted !== true || typeof parsed.data !== 'string') {
+      this.logger.info(`Migrating plaintext file to encrypted storage: ${path.basename(file)}`, {
+        module: 'session-storage',
+        action: 'migrate'
+      });
+
+      this.writeSecure(file, raw);
+      return raw;
+    }
+
+    const envelope = parsed as EncryptedFile;
+    let content: string;
+
+    try {
+      content = this.crypto.decrypt(envelope.data, this.password);
+    } catch {
+      throw new DecryptionError(this.getDecryptionErrorMessage(file, envelope.keySource), {
+        file,
+        keySource: envelope.keySource
+      });
+    }
+
+    this.decryptedCache.set(file, { mtimeMs: fs.statSync(file).mtimeMs, content });
+    return content;
+  }
+
+  /**
+   * Explain why a file could not be decrypted
+   */
+  private getDecryptionErrorMessage(file: string, fileKeySource: KeySource): string {
+    const name = path.basename(file);
+
+    if (fileKeySource === 'passphrase' && this.keySource === 'machine') {
+      return `${name} 使用口令加密，请设置环境变量 XYZ_STORAGE_PASSPHRASE 后重试`;
+    }
+
+    if (fileKeySource === 'machine' && this.keySource === 'passphrase') {
+      return `${name} 使用本机密钥加密，请取消 XYZ_STORAGE_PASSPHRASE 或重新登录 (xiaoyuzhou login --force)`;
+    }
+
+    if (fileKeySource === 'passphrase') {
+      return `无法解密 ${name}：XYZ_STORAGE_PASSPHRASE 与加密时使用的口令不一致`;
+    }
+
+    return `无法解密 ${name}：该文件可能是在另一台机器上创建的，请重新登录 (xiaoyuzhou login --force)`;
+  }
+
+  /**
+   * Get storage directory
+   */
+  getStorageDir(): string {
+    return this.storageDir;
+  }
+
   /**
    * Check if session file exists
    */
@@ -112,12 +282,7 @@ export class SessionStorage {
       };
 
       const data = JSON.stringify(storedSession, null, 2);
-      fs.writeFileSync(this.sessionFile, data, 'utf-8');
-
-      // Set restrictive permissions (Unix-like systems)
-      if (process.platform !== 'win32') {
-        fs.chmodSync(this.sessionFile, 0o600);
-      }
+      this.writeSecure(this.sessionFile, data);
 
       this.logger.info('Session saved successfully', {
         module: 'session-storage',
@@ -143,7 +308,11 @@ export class SessionStorage {
         return null;
       }
 
-      const data = fs.readFileSync(this.sessionFile, 'utf-8');
+      const data = this.readSecure(this.sessionFile);
+      if (!data) {
+        return null;
+      }
+
       const storedSession = JSON.parse(data) as StoredSessionData;
 
       // Validate version
@@ -169,6 +338,10 @@ export class SessionStorage {
       return sessionInfo;
 
     } catch (error) {
+      if (error instanceof DecryptionError) {
+        throw error;
+      }
+
       this.logger.error('Failed to load session', error as Error, {
         module: 'session-storage',
         action: 'load'
@@ -372,10 +545,41 @@ export class SessionStorage {
   // =====================================================
 
   /**
-   * Check if we have a valid browser session
+   * Check if we have a usable browser session (offline check)
+   *
+   * Requires the stored files and at least one cookie that has not expired.
+   * Use AuthManager.validateSession() to probe the platform.
    */
   hasValidSession(): boolean {
-    return fs.existsSync(this.browserStateFile) && fs.existsSync(this.userInfoFile);
+    if (!fs.existsSync(this.browserStateFile) || !fs.existsSync(this.userInfoFile)) {
+      return false;
+    }
+
+    const cookies = this.getCookieExpiries();
+    return cookies.some(cookie => !cookie.expired);
+  }
+
+  /**
+   * Get expiry times of the stored browser cookies
+   */
+  getCookieExpiries(): CookieExpiry[] {
+    const state = this.loadBrowserState();
+    if (!state) {
+      return [];
+    }
+
+    const now = Date.now() / 1000;
+
+    return state.cookies.map(cookie => {
+      // Playwright stores -1 for session cookies
+      const persistent = cookie.expires > 0;
+      return {
+        name: cookie.name,
+        domain: cookie.domain,
+        expiresAt: persistent ? new Date(cookie.expires * 1000).toISOString() : undefined,
+        expired: persistent && cookie.expires < now
+      };
+    });
   }
 
   /**
@@ -384,11 +588,7 @@ export class SessionStorage {
   saveBrowserState(state: PlaywrightStorageState): void {
     try {
       const data = JSON.stringify(state, null, 2);
-      fs.writeFileSync(this.browserStateFile, data, 'utf-8');
-
-      if (process.platform !== 'win32') {
-        fs.chmodSync(this.browserStateFile, 0o600);
-      }
+      this.writeSecure(this.browserStateFile, data);
 
       this.logger.info('Browser state saved', {
         module: 'session-storage',
@@ -401,6 +601,35 @@ export class SessionStorage {
       });
       throw new Error('Failed to save browser state');
     }
+
+    this.notifyBrowserStateChange(state);
+  }
+
+  /**
+   * Subscribe to browser state changes
+   * @returns Function that removes the listener
+   */
+  onBrowserStateChange(listener: BrowserStateListener): () => void {
+    this.browserStateListeners.push(listener);
+    return () => {
+      this.browserStateListeners = this.browserStateListeners.filter(l => l !== listener);
+    };
+  }
+
+  /**
+   * Notify listeners of a browser state change
+   */
+  private notifyBrowserStateChange(state: PlaywrightStorageState | null): void {
+    for (const listener of this.browserStateListeners) {
+      try {
+        listener(state);
+      } catch (error) {
+        this.logger.error('Browser state listener failed', error as Error, {
+          module: 'session-storage',
+          action: 'notifyBrowserStateChange'
+        });
+      }
+    }
   }
 
   /**
@@ -408,13 +637,13 @@ export class SessionStorage {
    */
   loadBrowserState(): PlaywrightStorageState | null {
     try {
-      if (!fs.existsSync(this.browserStateFile)) {
-        return null;
+      const data = this.readSecure(this.browserStateFile);
+      return data ? JSON.parse(data) as PlaywrightStorageState : null;
+    } catch (error) {
+      if (error instanceof DecryptionError) {
+        throw error;
       }
 
-      const data = fs.readFileSync(this.browserStateFile, 'utf-8');
-      return JSON.parse(data) as PlaywrightStorageState;
-    } catch (error) {
       this.logger.error('Failed to load browser state', error as Error, {
         module: 'session-storage',
         action: 'loadBrowserState'
@@ -428,20 +657,7 @@ export class SessionStorage {
    */
   saveUserInfo(userInfo: { userId: string; userName: string }): void {
     try {
-      const storedUserInfo: StoredUserInfo = {
-        ...userInfo,
-        createdAt: Date.now(),
-        updatedAt: Date.now()
-      };
-
-      const data = JSON.stringify(storedUserInfo, null, 2);
-      fs.writeFileSync(this.userInfoFile, data, 'utf-8');
-
-      this.logger.info('User info saved', {
-        module: 'session-storage',
-        action: 'saveUserInfo',
-        userId: userInfo.userId
-      });
+      this.writeUserInfo(userInfo);
     } catch (error) {
       this.logger.error('Failed to save user info', error as Error, {
         module: 'session-storage',
@@ -450,16 +666,35 @@ export class SessionStorage {
     }
   }
 
+  /**
+   * Write user info, throwing on failure
+   */
+  private writeUserInfo(userInfo: { userId: string; userName: string }): void {
+    const storedUserInfo: StoredUserInfo = {
+      ...userInfo,
+      createdAt: Date.now(),
+      updatedAt: Date.now()
+    };
+
+    this.writeSecure(this.userInfoFile, JSON.stringify(storedUserInfo, null, 2));
+
+    this.logger.info('User info saved', {
+      module: 'session-storage',
+      action: 'saveUserInfo',
+      userId: userInfo.userId
+    });
+  }
+
   /**
    * Load user info (browser-based)
    */
   loadUserInfo(): { userId: string; userName: string } | null {
     try {
-      if (!fs.existsSync(this.userInfoFile)) {
+      const data = this.readSecure(this.userInfoFile);
+      if (!data) {
         return null;
       }
 
-      const data = fs.readFileSync(this.userInfoFile, 'utf-8');
       const userInfo = JSON.parse(data) as StoredUserInfo;
 
       return {
@@ -467,6 +702,10 @@ export class SessionStorage {
         userName: userInfo.userName
       };
     } catch (error) {
+      if (error instanceof DecryptionError) {
+        throw error;
+      }
+
       this.logger.error('Failed to load user info', error as Error, {
         module: 'session-storage',
         action: 'loadUserInfo'
@@ -475,6 +714,102 @@ export class SessionStorage {
     }
   }
 
+  // =====================================================
+  // Session Bundles (moving logins between machines)
+  // =====================================================
+
+  /**
+   * Checksum over the bundled session data
+   */
+  private bundleChecksum(browserState: PlaywrightStorageState, userInfo: SessionBundlePayload['userInfo']): string {
+    return this.crypto.hash(JSON.stringify({ browserState, userInfo }));
+  }
+
+  /**
+   * Export browser state and user info as a passphrase-encrypted bundle
+   */
+  exportBundle(passphrase: string, metadata: { profile?: string } = {}): string {
+    const browserState = this.loadBrowserState();
+    if (!browserState) {
+      throw new Error('No browser session to export. Please login first.');
+    }
+
+    const userInfo = this.loadUserInfo();
+
+    const payload: SessionBundlePayload = {
+      metadata: {
+        version: this.VERSION,
+        exportedAt: new Date().toISOString(),
+        hostname: os.hostname(),
+        profile: metadata.profile,
+        userId: userInfo?.userId,
+        userName: userInfo?.userName
+      },
+      browserState,
+      userInfo,
+      checksum: this.bundleChecksum(browserState, userInfo)
+    };
+
+    const bundle: SessionBundleFile = {
+      format: BUNDLE_FORMAT,
+      version: this.VERSION,
+      data: this.crypto.encrypt(JSON.stringify(payload), passphrase)
+    };
+
+    this.logger.info('Session bundle exported', {
+      module: 'session-storage',
+      action: 'exportBundle',
+      userId: userInfo?.userId
+    });
+
+    return JSON.stringify(bundle, null, 2);
+  }
+
+  /**
+   * Import a session bundle, replacing the stored browser session
+   */
+  importBundle(data: string, passphrase: string): SessionBundleMetadata {
+    let bundle: SessionBundleFile;
+    try {
+      bundle = JSON.parse(data) as SessionBundleFile;
+    } catch {
+      throw new ValidationError('Invalid session bundle: not JSON');
+    }
+
+    if (bundle.format !== BUNDLE_FORMAT || typeof bundle.data !== 'string') {
+      throw new ValidationError('Invalid session bundle format');
+    }
+
+    let payload: SessionBundlePayload;
+    try {
+      payload = JSON.parse(this.crypto.decrypt(bundle.data, passphrase)) as SessionBundlePayload;
+    } catch {
+      throw new DecryptionError('无法解密会话包：口令错误或文件已损坏');
+    }
+
+    if (payload.checksum !== this.bundleChecksum(payload.browserState, payload.userInfo)) {
+      throw new ValidationError('Session bundle checksum mismatch');
+    }
+
+    // Write failures must reach the caller: a half-imported session is not a success
+    this.saveBrowserState(payload.browserState);
+    if (payload.userInfo) {
+      this.writeUserInfo(payload.userInfo);
+    } else if (fs.existsSync(this.userInfoFile)) {
+      // Don't leave the previous account's user info next to the new cookies
+      fs.unlinkSync(this.userInfoFile);
+    }
+
+    this.logger.info('Session bundle imported', {
+      module: 'session-storage',
+      action: 'importBundle',
+      userId: payload.metadata.userId,
+      exportedAt: payload.metadata.exportedAt
+    });
+
+    return payload.metadata;
+  }
+
   /**
    * Clear browser session data
    */
@@ -498,6 +833,8 @@ export class SessionStorage {
         action: 'clearBrowserSession'
       });
     }
+
+    this.notifyBrowserStateChange(null);
   }
 }
 
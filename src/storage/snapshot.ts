@@ -0,0 +1,66 @@
+/**
+ * Sync Snapshot - Shows and resources as seen at the last `diff`
+ *
+ * Unlike the catalog cache, the snapshot is never invalidated by this
+ * tool's own operations: it only moves forward when a diff is taken, so
+ * every change since then (from here or from the web UI) is reported.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { Logger } from '../services/logger';
+import { ShowSnapshot } from '../core/catalog-diff';
+
+/**
+ * Sync snapshot options
+ */
+interface SyncSnapshotOptions {
+  storageDir?: string;
+}
+
+// =====================================================
+// Sync Snapshot Class
+// =====================================================
+
+/**
+ * Per-profile snapshot used as the baseline for change detection
+ */
+export class SyncSnapshot {
+  private logger: Logger;
+  private snapshotFile: string;
+
+  constructor(logger: Logger, options: SyncSnapshotOptions = {}) {
+    this.logger = logger;
+    this.snapshotFile = path.join(options.storageDir || '.storage', 'sync-snapshot.json');
+  }
+
+  /**
+   * Load the snapshot of every show synced so far
+   */
+  load(): ShowSnapshot[] {
+    try {
+      if (fs.existsSync(this.snapshotFile)) {
+        return JSON.parse(fs.readFileSync(this.snapshotFile, 'utf-8')) as ShowSnapshot[];
+      }
+    } catch (error) {
+      this.logger.warn('Failed to read sync snapshot, starting a new baseline', {
+        module: 'sync-snapshot',
+        action: 'load',
+        error: (error as Error).message
+      });
+    }
+    return [];
+  }
+
+  /**
+   * Store synced shows
+   * @param complete - The shows cover the whole account; others are dropped
+   */
+  save(snapshots: ShowSnapshot[], complete: boolean): void {
+    const synced = new Set(snapshots.map(snapshot => snapshot.show.id));
+    const kept = complete ? [] : this.load().filter(snapshot => !synced.has(snapshot.show.id));
+
+    fs.mkdirSync(path.dirname(this.snapshotFile), { recursive: true });
+    fs.writeFileSync(this.snapshotFile, JSON.stringify([...kept, ...snapshots], null, 2), 'utf-8');
+  }
+}
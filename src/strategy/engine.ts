@@ -8,6 +8,7 @@ import { IAdapter } from '../adapters/base';
 import { PlaywrightAdapter } from '../adapters/playwright.adapter';
 import { HttpAdapter } from '../adapters/http.adapter';
 import { Logger } from '../services/logger';
+import { AppError } from '../services/error-handler';
 
 // =====================================================
 // Strategy Types
@@ -101,12 +102,38 @@ export class StrategyEngine {
       mode: this.config.mode
     });
 
-    // Initialize adapters
-    await this.playwrightAdapter.initialize();
-    await this.httpAdapter.initialize();
+    // Initialize adapters; one that cannot start (e.g. no browser installed)
+    // is marked unhealthy so selection falls back to the other
+    const initErrors = new Map<AdapterType, unknown>();
+    for (const [type, state] of this.adapters) {
+      try {
+        await state.adapter.initialize();
+      } catch (error) {
+        state.healthy = false;
+        initErrors.set(type, error);
+        this.logger.warn(`Adapter failed to initialize: ${type}`, {
+          module: 'strategy-engine',
+          action: 'initialize',
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    }
 
-    // Select initial adapter
-    await this.selectBestAdapter();
+    // Select initial adapter; when it could not start either, no candidate
+    // could, so report every adapter's error rather than only the last one
+    const selected = await this.selectBestAdapter();
+    const selectedError = initErrors.get(selected);
+    if (selectedError !== undefined) {
+      if (initErrors.size === 1) {
+        throw selectedError;
+      }
+
+      const details = [...initErrors]
+        .map(([type, error]) => `${type}: ${error instanceof Error ? error.message : String(error)}`)
+        .join('; ');
+      const message = `All adapters failed to initialize (${details})`;
+      throw selectedError instanceof AppError ? new AppError(selectedError.code, message) : new Error(message);
+    }
 
     // Start health check timer
     this.startHealthCheck();
@@ -192,6 +219,13 @@ export class StrategyEngine {
     return state.adapter;
   }
 
+  /**
+   * Get the type of the selected adapter, null before initialization
+   */
+  getCurrentAdapterType(): AdapterType | null {
+    return this.currentAdapter;
+  }
+
   /**
    * Execute operation with automatic fallback
    */
@@ -223,8 +257,8 @@ export class StrategyEngine {
 
         this.recordFailure(this.currentAdapter!);
 
-        // Try fallback to Playwright if configured
-        if (fallbackToPlaywright && this.currentAdapter === AdapterType.HTTP) {
+        // Try fallback to Playwright if configured and the mode allows it
+        if (fallbackToPlaywright && this.currentAdapter === AdapterType.HTTP && this.config.mode !== StrategyMode.HTTP_ONLY) {
           this.logger.info('Falling back to Playwright adapter', {
             module: 'strategy-engine',
             action: 'execute'
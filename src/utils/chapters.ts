@@ -0,0 +1,114 @@
+/**
+ * Chapter helpers - Chapter markers kept as a timestamp list in the shownotes
+ *
+ * The platform turns "mm:ss Title" lines in the shownotes into clickable
+ * chapter markers, so chapters are stored as a block of such lines.
+ */
+
+import type { EpisodeChapter } from '../core/types';
+
+/**
+ * A shownotes line starting with a timestamp
+ */
+const CHAPTER_LINE_PATTERN = /^\s*(?:[-*+]\s+)?\(?((?:\d{1,2}:)?\d{1,2}:\d{2})\)?\s*[-–—|｜:：]?\s*(.+?)\s*$/;
+
+/**
+ * Format seconds as mm:ss or h:mm:ss
+ */
+export function formatTimestamp(seconds: number): string {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = Math.floor(seconds % 60);
+  const mmss = `${minutes.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+
+  return hours > 0 ? `${hours}:${mmss}` : mmss;
+}
+
+/**
+ * Parse mm:ss or h:mm:ss into seconds
+ * @returns null when the text is not a valid timestamp
+ */
+export function parseTimestamp(text: string): number | null {
+  const match = text.trim().match(/^(?:(\d{1,2}):)?(\d{1,2}):(\d{2})$/);
+  if (!match) {
+    return null;
+  }
+
+  const [, hours, minutes, seconds] = match;
+  if (parseInt(seconds) >= 60 || (hours !== undefined && parseInt(minutes) >= 60)) {
+    return null;
+  }
+
+  return (hours ? parseInt(hours) * 3600 : 0) + parseInt(minutes) * 60 + parseInt(seconds);
+}
+
+/**
+ * Parse a single "mm:ss Title" line
+ */
+export function parseChapterLine(line: string): EpisodeChapter | null {
+  const match = line.match(CHAPTER_LINE_PATTERN);
+  if (!match) {
+    return null;
+  }
+
+  const start = parseTimestamp(match[1]);
+  return start === null ? null : { start, title: match[2] };
+}
+
+/**
+ * Render chapters as shownotes lines
+ */
+export function renderChapters(chapters: EpisodeChapter[]): string {
+  return [...chapters]
+    .sort((a, b) => a.start - b.start)
+    .map(chapter => `${formatTimestamp(chapter.start)} ${chapter.title}`)
+    .join('\n');
+}
+
+/**
+ * Split shownotes Markdown into body and chapters
+ *
+ * Only the last block of consecutive timestamp lines (two or more) is
+ * treated as the chapter list; timestamps mentioned in prose are kept.
+ */
+export function extractChapters(markdown: string): { body: string; chapters: EpisodeChapter[] } {
+  const lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+
+  let end = lines.length;
+  while (end > 0 && lines[end - 1].trim() === '') {
+    end--;
+  }
+
+  let start = end;
+  while (start > 0 && parseChapterLine(lines[start - 1])) {
+    start--;
+  }
+
+  if (end - start < 2) {
+    return { body: markdown.trim(), chapters: [] };
+  }
+
+  const chapters = lines.slice(start, end).map(line => parseChapterLine(line)!);
+
+  // Drop a heading directly above the chapter list, e.g. "## 时间轴"
+  let bodyEnd = start;
+  while (bodyEnd > 0 && lines[bodyEnd - 1].trim() === '') {
+    bodyEnd--;
+  }
+  if (bodyEnd > 0 && /^(#{1,6}\s*)?(时间轴|章节|时间线|Chapters|Timestamps)[:：]?\s*$/i.test(lines[bodyEnd - 1].trim())) {
+    bodyEnd--;
+  }
+
+  return { body: lines.slice(0, bodyEnd).join('\n').trim(), chapters };
+}
+
+/**
+ * Combine shownotes body and chapters into the Markdown sent to the platform
+ */
+export function composeShownotes(body: string, chapters: EpisodeChapter[]): string {
+  if (chapters.length === 0) {
+    return body.trim();
+  }
+
+  return [body.trim(), `## 时间轴\n\n${renderChapters(chapters)}`].filter(Boolean).join('\n\n');
+}
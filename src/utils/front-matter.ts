@@ -0,0 +1,136 @@
+/**
+ * Front matter helpers - YAML front matter + Markdown body documents
+ *
+ * Supports the YAML subset needed for editable metadata: string scalars
+ * (plain or double-quoted) and lists of strings. Comments are ignored.
+ */
+
+// =====================================================
+// Front Matter Types
+// =====================================================
+
+export type FrontMatterValue = string | string[];
+
+/**
+ * Parsed front matter document
+ */
+export interface FrontMatterDocument {
+  data: Record<string, FrontMatterValue>;
+  body: string;
+}
+
+const DELIMITER = '---';
+
+// =====================================================
+// Serialization
+// =====================================================
+
+/**
+ * Quote a scalar when plain YAML would change its meaning
+ */
+function formatScalar(value: string): string {
+  if (value === '' || /^[\s\-?:,[\]{}#&*!|>'"%@`]|[:#]\s|\s#|\s$|^(true|false|null|~|[\d.+-]+)$/i.test(value)) {
+    return JSON.stringify(value);
+  }
+  return value;
+}
+
+function parseScalar(raw: string): string {
+  const value = raw.trim();
+
+  if (value.startsWith('"')) {
+    try {
+      return JSON.parse(value);
+    } catch {
+      return value.slice(1, value.endsWith('"') ? -1 : undefined);
+    }
+  }
+  if (value.startsWith("'")) {
+    return value.slice(1, value.endsWith("'") ? -1 : undefined).replace(/''/g, "'");
+  }
+
+  // Strip trailing comments from plain scalars
+  return value.replace(/\s+#.*$/, '');
+}
+
+/**
+ * Build a document from front matter data and a Markdown body
+ * @param comments - Optional comment lines written above each key
+ */
+export function stringifyFrontMatter(
+  data: Record<string, FrontMatterValue>,
+  body: string,
+  comments: Record<string, string> = {}
+): string {
+  const lines = [DELIMITER];
+
+  for (const [key, value] of Object.entries(data)) {
+    if (comments[key]) {
+      lines.push(`# ${comments[key]}`);
+    }
+
+    if (Array.isArray(value)) {
+      lines.push(value.length > 0 ? `${key}:` : `${key}: []`);
+      value.forEach(item => lines.push(`  - ${formatScalar(item)}`));
+    } else {
+      lines.push(`${key}: ${formatScalar(value)}`);
+    }
+  }
+
+  lines.push(DELIMITER, '');
+  return `${lines.join('\n')}\n${body.trim()}\n`;
+}
+
+/**
+ * Parse a front matter document
+ * @throws Error when the front matter block is missing or malformed
+ */
+export function parseFrontMatter(text: string): FrontMatterDocument {
+  const lines = text.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').split('\n');
+
+  if (lines[0].trim() !== DELIMITER) {
+    throw new Error('Missing front matter: the document must start with ---');
+  }
+
+  const end = lines.indexOf(DELIMITER, 1);
+  if (end === -1) {
+    throw new Error('Unterminated front matter: closing --- not found');
+  }
+
+  const data: Record<string, FrontMatterValue> = {};
+  let currentList: string[] | null = null;
+
+  lines.slice(1, end).forEach((line, index) => {
+    if (line.trim() === '' || line.trim().startsWith('#')) {
+      return;
+    }
+
+    const item = line.match(/^\s+-\s*(.*)$/);
+    if (item) {
+      if (!currentList) {
+        throw new Error(`Unexpected list item on front matter line ${index + 2}`);
+      }
+      currentList.push(parseScalar(item[1]));
+      return;
+    }
+
+    const entry = line.match(/^([A-Za-z_][\w-]*):\s*(.*)$/);
+    if (!entry) {
+      throw new Error(`Invalid front matter line ${index + 2}: ${line}`);
+    }
+
+    const [, key, rawValue] = entry;
+    if (rawValue.trim() === '' || rawValue.trim() === '[]') {
+      currentList = [];
+      data[key] = currentList;
+    } else {
+      currentList = null;
+      data[key] = parseScalar(rawValue);
+    }
+  });
+
+  return {
+    data,
+    body: lines.slice(end + 1).join('\n').trim()
+  };
+}
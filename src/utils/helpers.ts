@@ -226,6 +226,109 @@ export function getRelativeTime(date: Date | string): string {
   }
 }
 
+/**
+ * Parse a duration such as "30s", "10m", "2h" or "1d" (plain numbers are minutes)
+ * @returns Milliseconds, or null for invalid input
+ */
+export function parseDuration(input: string): number | null {
+  const match = input.trim().match(/^(\d+(?:\.\d+)?)\s*([smhd]?)$/i);
+  if (!match) {
+    return null;
+  }
+
+  const units: Record<string, number> = { s: 1000, m: 60 * 1000, h: 3600 * 1000, d: 24 * 3600 * 1000 };
+  return parseFloat(match[1]) * units[(match[2] || 'm').toLowerCase()];
+}
+
+/**
+ * Get the system time zone (IANA name)
+ */
+export function getLocalTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+/**
+ * Check if a string is a valid IANA time zone
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Get wall-clock parts of a date in a time zone
+ */
+function getZonedParts(date: Date, timeZone: string): Record<'year' | 'month' | 'day' | 'hour' | 'minute' | 'second', number> {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  }).formatToParts(date);
+
+  const get = (type: string) => parseInt(parts.find(p => p.type === type)?.value || '0');
+  return {
+    year: get('year'),
+    month: get('month'),
+    day: get('day'),
+    hour: get('hour'),
+    minute: get('minute'),
+    second: get('second')
+  };
+}
+
+/**
+ * Offset of a time zone from UTC at a given instant, in milliseconds
+ */
+function getZoneOffset(timestamp: number, timeZone: string): number {
+  const p = getZonedParts(new Date(timestamp), timeZone);
+  const asUTC = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return asUTC - Math.floor(timestamp / 1000) * 1000;
+}
+
+/**
+ * Format a date as "yyyy-MM-dd HH:mm" wall-clock time in a time zone
+ */
+export function formatInTimeZone(date: Date, timeZone: string): string {
+  const p = getZonedParts(date, timeZone);
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return `${p.year}-${pad(p.month)}-${pad(p.day)} ${pad(p.hour)}:${pad(p.minute)}`;
+}
+
+/**
+ * Parse "yyyy-MM-dd HH:mm[:ss]" as wall-clock time in a time zone
+ * @returns The instant, or null if the input is not a valid date/time
+ */
+export function parseDateTimeInZone(input: string, timeZone: string): Date | null {
+  const match = input.trim().match(/^(\d{4})-(\d{1,2})-(\d{1,2})[ T](\d{1,2}):(\d{2})(?::(\d{2}))?$/);
+  if (!match || !isValidTimeZone(timeZone)) {
+    return null;
+  }
+
+  const [year, month, day, hour, minute, second = 0] = match.slice(1).map(v => parseInt(v || '0'));
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute, second);
+
+  // Resolve the offset twice so times next to a DST change land correctly
+  let timestamp = wallClock - getZoneOffset(wallClock, timeZone);
+  timestamp = wallClock - getZoneOffset(timestamp, timeZone);
+
+  // Reject dates that do not exist (e.g. 2026-02-30)
+  const check = getZonedParts(new Date(timestamp), timeZone);
+  if (check.year !== year || check.month !== month || check.day !== day || check.hour !== hour || check.minute !== minute) {
+    return null;
+  }
+
+  return new Date(timestamp);
+}
+
 // =====================================================
 // File System Helpers
 // =====================================================
@@ -4,3 +4,7 @@
 
 export * from './retry';
 export * from './helpers';
+export * from './qrcode';
+export * from './markdown';
+export * from './chapters';
+export * from './front-matter';
@@ -0,0 +1,219 @@
+/**
+ * Markdown helpers - Convert shownotes Markdown into the editor's HTML
+ *
+ * Supports the subset used in shownotes: headings, paragraphs, bold,
+ * italic, inline code, links, bullet/numbered lists, quotes and rules.
+ */
+
+// =====================================================
+// Inline Formatting
+// =====================================================
+
+/**
+ * Escape HTML special characters
+ */
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Convert inline Markdown (code, links, bold, italic) to HTML
+ */
+function renderInline(text: string): string {
+  const codeSpans: string[] = [];
+
+  // Protect code spans from further formatting
+  let html = escapeHtml(text).replace(/`([^`]+)`/g, (_, code: string) => {
+    codeSpans.push(`<code>${code}</code>`);
+    return `\u0000${codeSpans.length - 1}\u0000`;
+  });
+
+  html = html
+    .replace(/\[([^\]]+)\]\(([^)\s]+)\)/g, '<a href="$2">$1</a>')
+    .replace(/(^|[\s(])(https?:\/\/[^\s<)]+)/g, '$1<a href="$2">$2</a>')
+    .replace(/\*\*([^*]+)\*\*/g, '<strong>$1</strong>')
+    .replace(/__([^_]+)__/g, '<strong>$1</strong>')
+    .replace(/\*([^*]+)\*/g, '<em>$1</em>')
+    .replace(/(^|\W)_([^_]+)_(?=\W|$)/g, '$1<em>$2</em>');
+
+  return html.replace(/\u0000(\d+)\u0000/g, (_, index: string) => codeSpans[parseInt(index)]);
+}
+
+// =====================================================
+// Block Conversion
+// =====================================================
+
+/**
+ * Convert Markdown to HTML
+ */
+export function markdownToHtml(markdown: string): string {
+  const lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: string[] = [];
+  let paragraph: string[] = [];
+  let list: { type: 'ul' | 'ol'; items: string[] } | null = null;
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) {
+      blocks.push(`<p>${paragraph.map(renderInline).join('<br>')}</p>`);
+      paragraph = [];
+    }
+  };
+
+  const flushList = () => {
+    if (list) {
+      blocks.push(`<${list.type}>${list.items.map(item => `<li>${renderInline(item)}</li>`).join('')}</${list.type}>`);
+      list = null;
+    }
+  };
+
+  for (const line of lines) {
+    const trimmed = line.trim();
+
+    if (trimmed === '') {
+      flushParagraph();
+      flushList();
+      continue;
+    }
+
+    const heading = trimmed.match(/^(#{1,6})\s+(.*)$/);
+    if (heading) {
+      flushParagraph();
+      flushList();
+      const level = heading[1].length;
+      blocks.push(`<h${level}>${renderInline(heading[2])}</h${level}>`);
+      continue;
+    }
+
+    if (/^(-{3,}|\*{3,})$/.test(trimmed)) {
+      flushParagraph();
+      flushList();
+      blocks.push('<hr>');
+      continue;
+    }
+
+    const quote = trimmed.match(/^>\s?(.*)$/);
+    if (quote) {
+      flushParagraph();
+      flushList();
+      blocks.push(`<blockquote>${renderInline(quote[1])}</blockquote>`);
+      continue;
+    }
+
+    const bullet = trimmed.match(/^[-*+]\s+(.*)$/);
+    const numbered = trimmed.match(/^\d+[.)]\s+(.*)$/);
+    if (bullet || numbered) {
+      flushParagraph();
+      const type = bullet ? 'ul' : 'ol';
+      if (list && list.type !== type) {
+        flushList();
+      }
+      list = list || { type, items: [] };
+      list.items.push((bullet || numbered)![1]);
+      continue;
+    }
+
+    flushList();
+    paragraph.push(trimmed);
+  }
+
+  flushParagraph();
+  flushList();
+
+  return blocks.join('\n');
+}
+
+/**
+ * Strip Markdown formatting, keeping the plain text
+ */
+export function markdownToText(markdown: string): string {
+  return markdown
+    .replace(/\r\n?/g, '\n')
+    .replace(/^#{1,6}\s+/gm, '')
+    .replace(/^>\s?/gm, '')
+    .replace(/^[-*+]\s+/gm, '• ')
+    .replace(/\[([^\]]+)\]\(([^)\s]+)\)/g, '$1 ($2)')
+    .replace(/(\*\*|__)(.+?)\1/g, '$2')
+    .replace(/`([^`]+)`/g, '$1')
+    .trim();
+}
+
+// =====================================================
+// HTML to Markdown
+// =====================================================
+
+/**
+ * Decode the HTML entities produced by rich text editors
+ */
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&#(\d+);/g, (_, code: string) => String.fromCodePoint(parseInt(code)))
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Convert inline HTML to Markdown
+ */
+function inlineToMarkdown(html: string): string {
+  return decodeEntities(
+    html
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<a\s[^>]*href="([^"]*)"[^>]*>(.*?)<\/a>/gi, (_, href: string, text: string) =>
+        text.replace(/<[^>]+>/g, '') === href ? href : `[${text}](${href})`)
+      .replace(/<(strong|b)>(.*?)<\/\1>/gi, '**$2**')
+      .replace(/<(em|i)>(.*?)<\/\1>/gi, '*$2*')
+      .replace(/<code>(.*?)<\/code>/gi, '`$1`')
+      .replace(/<[^>]+>/g, '')
+  );
+}
+
+/**
+ * Convert shownotes HTML (as produced by the editor) back to Markdown
+ */
+export function htmlToMarkdown(html: string): string {
+  const blocks: string[] = [];
+  const blockPattern = /<(h[1-6]|p|blockquote|ul|ol|div|hr)\b[^>]*>(?:([\s\S]*?)<\/\1>)?/gi;
+  let match: RegExpExecArray | null;
+  let lastIndex = 0;
+
+  const pushText = (text: string) => {
+    const markdown = inlineToMarkdown(text).trim();
+    if (markdown) {
+      blocks.push(markdown);
+    }
+  };
+
+  while ((match = blockPattern.exec(html)) !== null) {
+    pushText(html.slice(lastIndex, match.index));
+    lastIndex = blockPattern.lastIndex;
+
+    const tag = match[1].toLowerCase();
+    const inner = match[2] || '';
+
+    if (tag === 'hr') {
+      blocks.push('---');
+    } else if (tag.startsWith('h')) {
+      blocks.push(`${'#'.repeat(parseInt(tag[1]))} ${inlineToMarkdown(inner).trim()}`);
+    } else if (tag === 'blockquote') {
+      blocks.push(inlineToMarkdown(inner).trim().split('\n').map(line => `> ${line}`).join('\n'));
+    } else if (tag === 'ul' || tag === 'ol') {
+      const items = Array.from(inner.matchAll(/<li\b[^>]*>([\s\S]*?)<\/li>/gi))
+        .map((item, index) => `${tag === 'ol' ? `${index + 1}.` : '-'} ${inlineToMarkdown(item[1]).trim()}`);
+      blocks.push(items.join('\n'));
+    } else {
+      pushText(inner);
+    }
+  }
+
+  pushText(html.slice(lastIndex));
+
+  return blocks.join('\n\n');
+}
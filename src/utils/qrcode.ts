@@ -0,0 +1,148 @@
+/**
+ * QR code helpers - Convert a captured QR image into a terminal-printable code
+ */
+
+// =====================================================
+// QR Code Types
+// =====================================================
+
+/**
+ * Grayscale image (one luminance value 0-255 per pixel, row-major)
+ */
+export interface GrayImage {
+  width: number;
+  height: number;
+  pixels: number[];
+}
+
+/**
+ * Terminal rendering options
+ */
+export interface QRRenderOptions {
+  quietZone?: number;
+  invert?: boolean;
+}
+
+// =====================================================
+// Matrix Extraction
+// =====================================================
+
+/**
+ * Convert a grayscale QR image into a module matrix (true = dark module)
+ *
+ * The module size is derived from the top-left finder pattern, which is
+ * always 7 modules wide, so the image does not need to be pixel-aligned.
+ */
+export function buildQRMatrix(image: GrayImage): boolean[][] {
+  const { width, height, pixels } = image;
+
+  if (width === 0 || height === 0 || pixels.length < width * height) {
+    throw new Error('Invalid QR image');
+  }
+
+  // Threshold halfway between the darkest and lightest pixel
+  let min = 255;
+  let max = 0;
+  for (const value of pixels) {
+    if (value < min) min = value;
+    if (value > max) max = value;
+  }
+  const threshold = (min + max) / 2;
+  const isDark = (x: number, y: number): boolean => pixels[y * width + x] < threshold;
+
+  // Find bounding box of dark pixels
+  let left = width;
+  let top = height;
+  let right = -1;
+  let bottom = -1;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (isDark(x, y)) {
+        if (x < left) left = x;
+        if (x > right) right = x;
+        if (y < top) top = y;
+        if (y > bottom) bottom = y;
+      }
+    }
+  }
+
+  if (right < 0) {
+    throw new Error('No QR code found in image');
+  }
+
+  // Measure the first dark run of the finder pattern
+  let run = 0;
+  const sampleRow = top + 1 < bottom ? top + 1 : top;
+  while (left + run <= right && isDark(left + run, sampleRow)) {
+    run++;
+  }
+
+  const moduleSize = run / 7;
+  if (moduleSize < 1) {
+    throw new Error('QR image resolution too low');
+  }
+
+  const count = Math.round((right - left + 1) / moduleSize);
+  const matrix: boolean[][] = [];
+
+  for (let row = 0; row < count; row++) {
+    const line: boolean[] = [];
+    const y = Math.min(bottom, Math.floor(top + (row + 0.5) * moduleSize));
+
+    for (let col = 0; col < count; col++) {
+      const x = Math.min(right, Math.floor(left + (col + 0.5) * moduleSize));
+      line.push(isDark(x, y));
+    }
+
+    matrix.push(line);
+  }
+
+  return matrix;
+}
+
+// =====================================================
+// Terminal Rendering
+// =====================================================
+
+/**
+ * Render a module matrix using Unicode half blocks (two rows per line)
+ *
+ * Light modules are drawn as blocks so the code scans on dark terminals;
+ * pass `invert` for terminals with a light background.
+ */
+export function renderQRMatrix(matrix: boolean[][], options: QRRenderOptions = {}): string {
+  const quietZone = options.quietZone ?? 2;
+  const invert = options.invert ?? false;
+  const size = matrix.length + quietZone * 2;
+
+  const isLight = (row: number, col: number): boolean => {
+    const r = row - quietZone;
+    const c = col - quietZone;
+    const dark = r >= 0 && c >= 0 && r < matrix.length && c < matrix.length ? matrix[r][c] : false;
+    return invert ? dark : !dark;
+  };
+
+  const lines: string[] = [];
+
+  for (let row = 0; row < size; row += 2) {
+    let line = '';
+    for (let col = 0; col < size; col++) {
+      const upper = isLight(row, col);
+      const lower = row + 1 < size ? isLight(row + 1, col) : !invert;
+
+      if (upper && lower) {
+        line += '█';
+      } else if (upper) {
+        line += '▀';
+      } else if (lower) {
+        line += '▄';
+      } else {
+        line += ' ';
+      }
+    }
+    lines.push(line);
+  }
+
+  return lines.join('\n');
+}
@@ -7,6 +7,7 @@ import fs from 'fs';
 import path from 'path';
 import { Logger } from '../services/logger';
 import { AIConfig, AIProvider, DEFAULT_AI_CONFIG } from '../ai/provider';
+import { ConfigStorage } from '../storage/config';
 
 // =====================================================
 // Web Server Types
@@ -55,6 +56,7 @@ export class ConfigWebServer {
   private storageDir: string;
   private configPath: string;
   private aiConfigPath: string;
+  private configStorage: ConfigStorage;
 
   constructor(config: WebServerConfig = {}) {
     this.port = config.port || 3737;
@@ -68,6 +70,7 @@ export class ConfigWebServer {
 
     this.configPath = path.join(this.storageDir, 'config.json');
     this.aiConfigPath = path.join(this.storageDir, 'ai-config.json');
+    this.configStorage = new ConfigStorage(this.logger, { storageDir: this.storageDir });
 
     this.app = express();
     this.setupMiddleware();
@@ -131,7 +134,7 @@ export class ConfigWebServer {
     try {
       const data = req.body as ConfigFormData;
 
-      // Save general config
+      // Save general config (merged so other settings such as title policies survive)
       const config = {
         debug: data.debug,
         logLevel: parseInt(data.logLevel) || 1,
@@ -162,7 +165,7 @@ export class ConfigWebServer {
       }
 
       // Write config files
-      fs.writeFileSync(this.configPath, JSON.stringify(config, null, 2));
+      this.configStorage.update(config);
       fs.writeFileSync(this.aiConfigPath, JSON.stringify(aiConfig, null, 2));
 
       this.logger.info('Configuration saved from web interface', {
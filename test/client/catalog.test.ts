@@ -0,0 +1,52 @@
+/**
+ * Client tests - Catalog cache after publishing
+ */
+
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { startMockServer, MockCreatorServer } from '../../src/mock/server';
+import { XiaoYuzhouClient } from '../../src/core/client';
+import { StrategyMode } from '../../src/strategy/engine';
+import { LogLevel } from '../../src/core/types';
+import { seedSession, silentLogger } from '../helpers/mock-session';
+
+describe('catalog cache', () => {
+  let server: MockCreatorServer;
+  let storageDir: string;
+  let client: XiaoYuzhouClient;
+
+  before(async () => {
+    server = await startMockServer({ port: 0, logger: silentLogger() });
+    storageDir = fs.mkdtempSync(path.join(os.tmpdir(), 'xiaoyuzhou-catalog-'));
+    await seedSession(server, storageDir);
+
+    client = new XiaoYuzhouClient({
+      storageDir,
+      logDir: path.join(storageDir, 'logs'),
+      logLevel: LogLevel.SILENT,
+      headless: true,
+      baseUrl: server.getUrl(),
+      strategyMode: StrategyMode.HTTP_ONLY
+    });
+  });
+
+  after(async () => {
+    await client.dispose();
+    await server.stop();
+    fs.rmSync(storageDir, { recursive: true, force: true });
+  });
+
+  it('drops the cached resources of every show in a batch publish', async () => {
+    await client.getResources('mock-show-1');
+    await client.getResources('mock-show-2');
+
+    await client.publishResources(['mock-show-1:mock-ep-103', 'mock-show-2:mock-ep-202']);
+
+    for (const showId of ['mock-show-1', 'mock-show-2']) {
+      await assert.rejects(client.getResources(showId, { cached: true }), /No cached resources/);
+    }
+  });
+});
@@ -0,0 +1,59 @@
+/**
+ * Client tests - "showId:episodeId" references over the HTTP API
+ *
+ * The API only knows plain episode IDs, so the client has to strip the show
+ * from its references before building a request.
+ */
+
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { startMockServer, MockCreatorServer } from '../../src/mock/server';
+import { XiaoYuzhouClient } from '../../src/core/client';
+import { StrategyMode } from '../../src/strategy/engine';
+import { LogLevel, ResourceStatus } from '../../src/core/types';
+import { seedSession, silentLogger } from '../helpers/mock-session';
+
+describe('episode references', () => {
+  let server: MockCreatorServer;
+  let storageDir: string;
+  let client: XiaoYuzhouClient;
+
+  before(async () => {
+    server = await startMockServer({ port: 0, logger: silentLogger() });
+    storageDir = fs.mkdtempSync(path.join(os.tmpdir(), 'xiaoyuzhou-episode-refs-'));
+    await seedSession(server, storageDir);
+
+    client = new XiaoYuzhouClient({
+      storageDir,
+      logDir: path.join(storageDir, 'logs'),
+      logLevel: LogLevel.SILENT,
+      headless: true,
+      baseUrl: server.getUrl(),
+      strategyMode: StrategyMode.HTTP_ONLY
+    });
+  });
+
+  after(async () => {
+    await client.dispose();
+    await server.stop();
+    fs.rmSync(storageDir, { recursive: true, force: true });
+  });
+
+  it('publishes a resource given as a reference', async () => {
+    const result = await client.publishResource('mock-show-1:mock-ep-103');
+
+    assert.equal(result.success, true, result.error);
+    assert.equal(server.countRequests('POST', '/dashboard/episodes/mock-ep-103/publish'), 1);
+    assert.equal(server.getStore().getEpisode('mock-ep-103')!.status, ResourceStatus.PUBLISHED);
+  });
+
+  it('batch publishes references and reports results under them', async () => {
+    const results = await client.publishResources(['mock-show-2:mock-ep-202']);
+
+    assert.deepEqual(results.map(result => [result.resourceId, result.success]), [['mock-show-2:mock-ep-202', true]]);
+    assert.equal(server.getStore().getEpisode('mock-ep-202')!.status, ResourceStatus.PUBLISHED);
+  });
+});
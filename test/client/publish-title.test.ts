@@ -0,0 +1,62 @@
+/**
+ * Client tests - Publishing only with a known title
+ *
+ * The title policy needs the draft's title. When it cannot be read, the
+ * resource must stay unpublished rather than go out unchecked.
+ */
+
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { startMockServer, MockCreatorServer } from '../../src/mock/server';
+import { XiaoYuzhouClient } from '../../src/core/client';
+import { StrategyMode } from '../../src/strategy/engine';
+import { LogLevel, ResourceStatus } from '../../src/core/types';
+import { seedSession, silentLogger } from '../helpers/mock-session';
+
+describe('publish title check', () => {
+  let server: MockCreatorServer;
+  let storageDir: string;
+  let client: XiaoYuzhouClient;
+
+  before(async () => {
+    server = await startMockServer({ port: 0, logger: silentLogger() });
+    storageDir = fs.mkdtempSync(path.join(os.tmpdir(), 'xiaoyuzhou-publish-title-'));
+    await seedSession(server, storageDir);
+
+    client = new XiaoYuzhouClient({
+      storageDir,
+      logDir: path.join(storageDir, 'logs'),
+      logLevel: LogLevel.SILENT,
+      headless: true,
+      baseUrl: server.getUrl(),
+      strategyMode: StrategyMode.HTTP_ONLY
+    });
+  });
+
+  after(async () => {
+    await client.dispose();
+    await server.stop();
+    fs.rmSync(storageDir, { recursive: true, force: true });
+  });
+
+  it('does not publish when the draft title cannot be read', async () => {
+    server.injectFault({ method: 'GET', path: '/dashboard/episodes/mock-ep-103', times: 5 });
+
+    await assert.rejects(client.publishResource('mock-show-1:mock-ep-103'), /Could not determine title/);
+
+    assert.equal(server.countRequests('POST', '/dashboard/episodes/mock-ep-103/publish'), 0);
+    assert.equal(server.getStore().getEpisode('mock-ep-103')!.status, ResourceStatus.DRAFT);
+  });
+
+  it('publishes when the title comes from the resource list', async () => {
+    const result = await client.publishResource('mock-show-1:mock-ep-103', {
+      expectedTitles: { 'mock-ep-103': server.getStore().getEpisode('mock-ep-103')!.title }
+    });
+
+    assert.equal(result.success, true, result.error);
+    assert.equal(server.getStore().getEpisode('mock-ep-103')!.status, ResourceStatus.PUBLISHED);
+  });
+});
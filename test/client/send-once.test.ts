@@ -0,0 +1,78 @@
+/**
+ * Client tests - Operations that must reach the platform at most once
+ *
+ * The mock handles each request and then answers with an injected error,
+ * like a response lost after the platform applied the change. Sending the
+ * request again would repeat the change.
+ */
+
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { startMockServer, MockCreatorServer } from '../../src/mock/server';
+import { XiaoYuzhouClient } from '../../src/core/client';
+import { StrategyMode } from '../../src/strategy/engine';
+import { LogLevel, ResourceStatus } from '../../src/core/types';
+import { seedSession, silentLogger } from '../helpers/mock-session';
+
+describe('non-idempotent operations', () => {
+  let server: MockCreatorServer;
+  let storageDir: string;
+  let client: XiaoYuzhouClient;
+
+  before(async () => {
+    server = await startMockServer({ port: 0, logger: silentLogger() });
+    storageDir = fs.mkdtempSync(path.join(os.tmpdir(), 'xiaoyuzhou-send-once-'));
+    await seedSession(server, storageDir);
+
+    client = new XiaoYuzhouClient({
+      storageDir,
+      logDir: path.join(storageDir, 'logs'),
+      logLevel: LogLevel.SILENT,
+      headless: true,
+      baseUrl: server.getUrl(),
+      strategyMode: StrategyMode.HTTP_ONLY
+    });
+  });
+
+  after(async () => {
+    await client.dispose();
+    await server.stop();
+    fs.rmSync(storageDir, { recursive: true, force: true });
+  });
+
+  it('sends a comment reply once when the response is a 500', async () => {
+    const before = server.getStore().getComment('mock-cm-1')!.replies.length;
+    server.injectFault({ method: 'POST', path: '/dashboard/comments/mock-cm-1/reply', times: 5 });
+
+    await assert.rejects(client.replyComment('mock-show-1', 'mock-cm-1', '谢谢收听!'));
+
+    assert.equal(server.getStore().getComment('mock-cm-1')!.replies.length, before + 1);
+  });
+
+  it('sends a publish once when the response is a 500', async () => {
+    const path = '/dashboard/episodes/mock-ep-202/publish';
+    server.injectFault({ method: 'POST', path, times: 5 });
+
+    await assert.rejects(client.publishResource('mock-show-2:mock-ep-202'));
+
+    assert.equal(server.countRequests('POST', path), 1);
+    assert.equal(server.getStore().getEpisode('mock-ep-202')!.status, ResourceStatus.PUBLISHED);
+  });
+
+  for (const [action, method, path, run] of [
+    ['unpublish', 'POST', '/dashboard/episodes/mock-ep-101/unpublish', () => client.unpublishEpisode('mock-show-1', 'mock-ep-101')],
+    ['cancel-schedule', 'POST', '/dashboard/episodes/mock-ep-104/cancel-schedule', () => client.cancelSchedule('mock-show-1', 'mock-ep-104')],
+    ['delete', 'DELETE', '/dashboard/episodes/mock-ep-102', () => client.deleteResource('mock-show-1', 'mock-ep-102')]
+  ] as Array<[string, string, string, () => Promise<void>]>) {
+    it(`sends ${action} once when the response is a 500`, async () => {
+      server.injectFault({ method, path, times: 5 });
+
+      await assert.rejects(run());
+
+      assert.equal(server.countRequests(method, path), 1);
+    });
+  }
+});
@@ -0,0 +1,95 @@
+/**
+ * End-to-end tests - publish --ai-shownotes without a terminal
+ *
+ * The AI provider is a local OpenAI-compatible stub. Without a terminal
+ * nobody can review the drafts, so they are only printed unless --yes
+ * accepts them.
+ */
+
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { startMockServer, MockCreatorServer } from '../../src/mock/server';
+import { ResourceStatus } from '../../src/core/types';
+import { seedSession, silentLogger } from '../helpers/mock-session';
+import { PASSPHRASE, runCli } from '../helpers/cli';
+
+const AI_TITLE = 'AI 生成的标题';
+const AI_SUMMARY = 'AI 生成的简介';
+
+/**
+ * Answer every chat completion with fixed shownotes (timestamps: none)
+ */
+function startAIStub(): Promise<http.Server> {
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      const content = body.includes('generate timestamps for key topics')
+        ? '[]'
+        : JSON.stringify({ title: AI_TITLE, summary: AI_SUMMARY, keyPoints: [], hashtags: [] });
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify({ choices: [{ message: { role: 'assistant', content }, finish_reason: 'stop' }] }));
+    });
+  });
+  return new Promise(resolve => server.listen(0, '127.0.0.1', () => resolve(server)));
+}
+
+describe('publish --ai-shownotes without a terminal', () => {
+  let server: MockCreatorServer;
+  let ai: http.Server;
+  let storageDir: string;
+  let transcript: string;
+
+  const publish = (extra: string[] = []) => runCli([
+    '--base-url', server.getUrl(), '--strategy', 'http-only',
+    'publish', '--show-id', 'mock-show-1', '--resource-id', 'mock-ep-103',
+    '--ai-shownotes', '--transcript', transcript, ...extra
+  ], { storageDir });
+
+  before(async () => {
+    server = await startMockServer({ port: 0, logger: silentLogger() });
+    ai = await startAIStub();
+    storageDir = fs.mkdtempSync(path.join(os.tmpdir(), 'xiaoyuzhou-ai-shownotes-'));
+    await seedSession(server, storageDir, { passphrase: PASSPHRASE });
+
+    fs.writeFileSync(path.join(storageDir, 'ai-config.json'), JSON.stringify({
+      enabled: true,
+      providers: {
+        openai: { provider: 'openai', apiKey: 'test-key', baseURL: `http://127.0.0.1:${(ai.address() as AddressInfo).port}` }
+      }
+    }));
+    transcript = path.join(storageDir, 'episode.txt');
+    fs.writeFileSync(transcript, '大家好，欢迎收听本期节目。今天聊聊端到端测试。');
+  });
+
+  after(async () => {
+    await server.stop();
+    await new Promise(resolve => ai.close(resolve));
+    fs.rmSync(storageDir, { recursive: true, force: true });
+  });
+
+  it('prints the draft and publishes nothing without --yes', async () => {
+    const result = await publish();
+    assert.equal(result.code, 0, result.stderr);
+
+    assert.match(result.stdout, new RegExp(AI_TITLE));
+    assert.match(result.stdout, new RegExp(AI_SUMMARY));
+    assert.equal(server.countRequests('POST', '/dashboard/episodes/mock-ep-103/publish'), 0);
+    assert.equal(server.getStore().getEpisode('mock-ep-103')!.status, ResourceStatus.DRAFT);
+  });
+
+  it('publishes with the draft when --yes is given', async () => {
+    const result = await publish(['--yes']);
+    assert.equal(result.code, 0, result.stderr);
+
+    const episode = server.getStore().getEpisode('mock-ep-103')!;
+    assert.equal(episode.status, ResourceStatus.PUBLISHED);
+    assert.equal(episode.title, AI_TITLE);
+    assert.match(episode.description, new RegExp(AI_SUMMARY));
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * End-to-end tests - Which layer decides the platform origin
+ *
+ * Layers (later wins): defaults < config.json < XYZ_BASE_URL < --base-url.
+ * Each test points the layers below the one under test at a closed port,
+ * so `check` only succeeds when that layer is the one applied.
+ */
+
+import { describe, it, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { startMockServer, MockCreatorServer } from '../../src/mock/server';
+import { DEFAULT_PLATFORM } from '../../src/core/platform';
+import { seedSession, silentLogger } from '../helpers/mock-session';
+import { PASSPHRASE, parseJsonOutput, runCli } from '../helpers/cli';
+
+const UNREACHABLE = 'http://127.0.0.1:9';
+
+describe('platform origin layers', () => {
+  let server: MockCreatorServer;
+  let storageDir: string;
+
+  const check = (args: string[] = [], env: Record<string, string> = {}) =>
+    runCli([...args, '--strategy', 'http-only', 'check', '--show-id', 'mock-show-1', '--json'], { storageDir, env });
+
+  const writeStoredOrigin = (origin: string) =>
+    fs.writeFileSync(path.join(storageDir, 'config.json'), JSON.stringify({ platform: { origin } }));
+
+  before(async () => {
+    server = await startMockServer({ port: 0, logger: silentLogger() });
+    storageDir = fs.mkdtempSync(path.join(os.tmpdir(), 'xiaoyuzhou-base-url-'));
+    await seedSession(server, storageDir, { passphrase: PASSPHRASE });
+  });
+
+  beforeEach(() => {
+    fs.rmSync(path.join(storageDir, 'config.json'), { force: true });
+  });
+
+  after(async () => {
+    await server.stop();
+    fs.rmSync(storageDir, { recursive: true, force: true });
+  });
+
+  it('defaults to the public creator site', async () => {
+    const result = await runCli(['config', 'show', '--format', 'json'], { storageDir });
+    assert.equal(result.code, 0, result.stderr);
+
+    const loaded = parseJsonOutput<{ config: { apiBaseUrl: string }; sources: { apiBaseUrl: string } }>(result.stdout);
+    assert.equal(loaded.config.apiBaseUrl, DEFAULT_PLATFORM.origin);
+    assert.equal(loaded.sources.apiBaseUrl, 'default');
+  });
+
+  it('uses platform.origin from config.json', async () => {
+    writeStoredOrigin(server.getUrl());
+
+    const result = await check();
+    assert.equal(result.code, 0, result.stderr);
+    assert.ok(parseJsonOutput<unknown[]>(result.stdout).length > 0);
+  });
+
+  it('lets XYZ_BASE_URL override config.json', async () => {
+    writeStoredOrigin(UNREACHABLE);
+
+    const result = await check([], { XYZ_BASE_URL: server.getUrl() });
+    assert.equal(result.code, 0, result.stderr);
+    assert.ok(parseJsonOutput<unknown[]>(result.stdout).length > 0);
+  });
+
+  it('lets --base-url override XYZ_BASE_URL', async () => {
+    writeStoredOrigin(UNREACHABLE);
+
+    const result = await check(['--base-url', server.getUrl()], { XYZ_BASE_URL: UNREACHABLE });
+    assert.equal(result.code, 0, result.stderr);
+    assert.ok(parseJsonOutput<unknown[]>(result.stdout).length > 0);
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * End-to-end tests - Run the CLI against the local mock creator site
+ *
+ * The suite runs once per adapter, pinned with --strategy so a broken
+ * adapter cannot hide behind the other one. The Playwright run is skipped
+ * when no Chromium is installed.
+ *
+ * Each run gets a fresh mock site and storage directory. The session is
+ * created by logging in to the mock over HTTP and saved the way `login`
+ * saves it, so the CLI starts out authenticated.
+ */
+
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { chromium } from 'playwright';
+import { startMockServer, MockCreatorServer } from '../../src/mock/server';
+import { StrategyMode } from '../../src/strategy/engine';
+import { ResourceStatus } from '../../src/core/types';
+import { seedSession, silentLogger } from '../helpers/mock-session';
+import { PASSPHRASE, parseJsonOutput, runCli } from '../helpers/cli';
+
+const STRATEGIES = [StrategyMode.HTTP_ONLY, StrategyMode.PLAYWRIGHT_ONLY];
+
+const browserInstalled = fs.existsSync(chromium.executablePath());
+
+for (const strategy of STRATEGIES) {
+  describe(`CLI against the mock creator site (${strategy})`, {
+    skip: strategy === StrategyMode.PLAYWRIGHT_ONLY && !browserInstalled && 'Chromium is not installed'
+  }, () => {
+    let server: MockCreatorServer;
+    let storageDir: string;
+
+    const cli = (args: string[], input?: string) =>
+      runCli(['--base-url', server.getUrl(), '--strategy', strategy, ...args], { storageDir, input });
+
+    before(async () => {
+      server = await startMockServer({ port: 0, logger: silentLogger() });
+      storageDir = fs.mkdtempSync(path.join(os.tmpdir(), 'xiaoyuzhou-e2e-'));
+      await seedSession(server, storageDir, { passphrase: PASSPHRASE });
+    });
+
+    after(async () => {
+      await server.stop();
+      fs.rmSync(storageDir, { recursive: true, force: true });
+    });
+
+    it('check lists the unpublished resources of a show', async () => {
+      const result = await cli(['check', '--show-id', 'mock-show-1', '--json']);
+      assert.equal(result.code, 0, result.stderr);
+
+      const resources = parseJsonOutput<Array<{ id: string; status: string }>>(result.stdout);
+      const drafts = server.getStore().listEpisodes('mock-show-1').filter(episode => episode.status === ResourceStatus.DRAFT);
+
+      assert.ok(drafts.length > 0);
+      for (const draft of drafts) {
+        assert.ok(resources.some(resource => resource.id === draft.id), `draft ${draft.id} missing from check`);
+      }
+      assert.ok(resources.every(resource => resource.status !== ResourceStatus.PUBLISHED));
+    });
+
+    it('publish publishes a draft with the given shownotes', async () => {
+      const notesFile = path.join(storageDir, 'notes.md');
+      fs.writeFileSync(notesFile, '端到端测试的简介\n\n00:00 开场\n05:00 正题\n');
+
+      const result = await cli(
+        ['publish', '--show-id', 'mock-show-1', '--resource-id', 'mock-ep-103', '--description-file', notesFile],
+        'y\n'
+      );
+      assert.equal(result.code, 0, result.stderr);
+
+      const episode = server.getStore().getEpisode('mock-ep-103');
+      assert.equal(episode?.status, ResourceStatus.PUBLISHED);
+      assert.match(episode?.description || '', /端到端测试的简介/);
+    });
+
+    it('check no longer lists a published draft', async () => {
+      const result = await cli(['check', '--show-id', 'mock-show-1', '--json']);
+      assert.equal(result.code, 0, result.stderr);
+
+      const resources = parseJsonOutput<Array<{ id: string }>>(result.stdout);
+      assert.ok(!resources.some(resource => resource.id === 'mock-ep-103'));
+    });
+  });
+}
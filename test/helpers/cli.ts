@@ -0,0 +1,70 @@
+/**
+ * Test helpers - Run the CLI in a child process
+ */
+
+import assert from 'node:assert/strict';
+import path from 'path';
+import { spawn } from 'child_process';
+
+const ROOT = path.resolve(__dirname, '../..');
+const CLI = path.join(ROOT, 'src/index.ts');
+const CLI_TIMEOUT = 60000;
+
+export const PASSPHRASE = 'e2e-passphrase';
+
+export interface CliResult {
+  code: number | null;
+  stdout: string;
+  stderr: string;
+}
+
+export interface CliOptions {
+  storageDir: string;
+  input?: string;  // Written to stdin (answers to confirmation prompts)
+  env?: Record<string, string>;  // Extra environment, e.g. XYZ_BASE_URL
+}
+
+/**
+ * Run the CLI with a storage directory of its own
+ *
+ * Settings that would leak in from the calling shell are cleared, so only
+ * the layers a test sets up apply.
+ */
+export function runCli(args: string[], options: CliOptions): Promise<CliResult> {
+  const env: NodeJS.ProcessEnv = {
+    ...process.env,
+    STORAGE_DIR: options.storageDir,
+    XYZ_STORAGE_PASSPHRASE: PASSPHRASE,
+    HEADLESS: 'true',
+    LOG_LEVEL: 'SILENT'
+  };
+  delete env.XYZ_BASE_URL;
+  Object.assign(env, options.env);
+
+  return new Promise((resolve, reject) => {
+    const child = spawn(process.execPath, ['--import', 'tsx', CLI, ...args], {
+      cwd: ROOT,
+      env,
+      timeout: CLI_TIMEOUT
+    });
+
+    let stdout = '';
+    let stderr = '';
+    child.stdout.on('data', chunk => { stdout += chunk; });
+    child.stderr.on('data', chunk => { stderr += chunk; });
+    child.on('error', reject);
+    child.on('close', code => resolve({ code, stdout, stderr }));
+
+    child.stdin.end(options.input || '');
+  });
+}
+
+/**
+ * Extract the JSON printed by a `--json` / `--format json` command after the banner
+ */
+export function parseJsonOutput<T>(stdout: string): T {
+  const start = stdout.search(/^[[{]\s*$/m);
+  assert.notEqual(start, -1, `no JSON output in:\n${stdout}`);
+  const end = Math.max(stdout.lastIndexOf(']'), stdout.lastIndexOf('}'));
+  return JSON.parse(stdout.slice(start, end + 1)) as T;
+}
@@ -0,0 +1,60 @@
+/**
+ * Test helpers - Sessions on the local mock creator site
+ */
+
+import assert from 'node:assert/strict';
+import os from 'os';
+import path from 'path';
+import { MockCreatorServer } from '../../src/mock/server';
+import { SessionStorage } from '../../src/storage/session';
+import { Logger } from '../../src/services/logger';
+import { LogLevel } from '../../src/core/types';
+
+/**
+ * Logger that writes nothing
+ */
+export function silentLogger(): Logger {
+  return new Logger({ logLevel: LogLevel.SILENT, logDir: path.join(os.tmpdir(), 'xiaoyuzhou-test-logs'), debug: false });
+}
+
+/**
+ * Log in to the mock site with a phone code
+ * @returns Session cookie value
+ */
+export async function loginToMock(server: MockCreatorServer): Promise<string> {
+  const response = await fetch(`${server.getUrl()}/login/phone`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ phone: '13800000000', code: '123456' })
+  });
+  const token = response.headers.get('set-cookie')?.match(/xyz_mock_session=([^;]+)/)?.[1];
+  assert.ok(token, 'mock login did not set a session cookie');
+  return token;
+}
+
+/**
+ * Log in to the mock site and store the session the way `login` does
+ */
+export async function seedSession(
+  server: MockCreatorServer,
+  storageDir: string,
+  options: { passphrase?: string } = {}
+): Promise<void> {
+  const token = await loginToMock(server);
+  const storage = new SessionStorage(silentLogger(), { storageDir, passphrase: options.passphrase });
+
+  storage.saveBrowserState({
+    cookies: [{
+      name: 'xyz_mock_session',
+      value: token,
+      domain: new URL(server.getUrl()).hostname,
+      path: '/',
+      expires: -1,
+      httpOnly: true,
+      secure: false,
+      sameSite: 'Lax'
+    }],
+    origins: []
+  });
+  storage.saveUserInfo({ userId: 'mock-user', userName: '模拟创作者' });
+}